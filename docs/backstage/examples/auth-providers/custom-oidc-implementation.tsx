@@ -139,48 +139,171 @@ import {
   createFrontendModule,
   SignInPageBlueprint,
 } from '@backstage/frontend-plugin-api';
-import { SignInPage } from '@backstage/core-components';
+import React from 'react';
+import { SignInPage, SignInProviderConfig } from '@backstage/core-components';
+import {
+  ApiRef,
+  BackstageIdentityApi,
+  ProfileInfoApi,
+  SessionApi,
+  configApiRef,
+  githubAuthApiRef,
+  gitlabAuthApiRef,
+  googleAuthApiRef,
+  microsoftAuthApiRef,
+  oktaAuthApiRef,
+} from '@backstage/core-plugin-api';
+import { Config } from '@backstage/config';
 // import { oidcPkceAuthApiRef } from '../../apis/oidcPkceAuthApiRef';
+// import { genericOidcAuthApiRef } from '../../apis/custom-oidc-ref';
 // import LockIcon from '@material-ui/icons/Lock';
 
 /**
- * Custom Sign-In Page Extension
+ * Which sign-in buttons to show comes from app-config, so one build can
+ * offer different providers per environment:
+ *
+ * // app-config.yaml (production, openportal)
+ * app:
+ *   signIn:
+ *     providers:
+ *       - id: oidc-pkce
+ *         title: OpenPortal SSO
+ *         message: Sign in with your company account
  *
- * Configures which auth providers appear on the sign-in page.
+ * // app-config.rancher-desktop.yaml (local development)
+ * app:
+ *   signIn:
+ *     providers:
+ *       - id: oidc-pkce
+ *       - id: github
+ *       - id: guest
+ *
+ * Arrays are replaced, not merged, so each environment lists its full set.
+ *
+ * // packages/app/config.d.ts
+ * export interface Config {
+ *   app?: {
+ *     signIn?: {
+ *       providers?: Array<{
+ *         /** @visibility frontend *\/
+ *         id: 'oidc-pkce' | 'oidc' | 'github' | 'gitlab' | 'google' | 'microsoft' | 'okta' | 'guest';
+ *         /** @visibility frontend *\/
+ *         title?: string;
+ *         /** @visibility frontend *\/
+ *         message?: string;
+ *       }>;
+ *     };
+ *   };
+ * }
  */
-const customSignInPage = SignInPageBlueprint.make({
-  params: {
-    // Loader: Lazy-load the sign-in page component
-    loader: async () => props => (
-      <SignInPage
-        {...props}
-        title="Select a sign-in method"
-        align="center"
-        providers={[
-          // Custom OIDC/PKCE provider
-          {
-            id: 'oidc-pkce-provider',  // Unique ID for this sign-in provider
-            title: 'OIDC with PKCE',
-            message: 'Sign in using OIDC',
-            apiRef: oidcPkceAuthApiRef,  // ← Links to auth API
-          },
 
-          // Also allow guest sign-in (optional)
-          'guest',
-
-          // You can add more providers here
-          // {
-          //   id: 'github-provider',
-          //   title: 'GitHub',
-          //   message: 'Sign in with GitHub',
-          //   apiRef: githubAuthApiRef,
-          // },
-        ]}
-      />
-    ),
+type SignInApiRef = ApiRef<ProfileInfoApi & BackstageIdentityApi & SessionApi>;
+
+/** Config IDs → API refs and default labels. Unknown IDs fail config validation. */
+const signInProviderRegistry: Record<
+  string,
+  { apiRef: SignInApiRef; title: string; message: string }
+> = {
+  'oidc-pkce': {
+    apiRef: oidcPkceAuthApiRef,
+    title: 'OIDC with PKCE',
+    message: 'Sign in using OIDC',
+  },
+  // Provided by an API extension for genericOidcAuthApiRef (see custom-oidc-ref.ts)
+  oidc: { apiRef: genericOidcAuthApiRef, title: 'OIDC', message: 'Sign in using OIDC' },
+  github: { apiRef: githubAuthApiRef, title: 'GitHub', message: 'Sign in with GitHub' },
+  gitlab: { apiRef: gitlabAuthApiRef, title: 'GitLab', message: 'Sign in with GitLab' },
+  google: { apiRef: googleAuthApiRef, title: 'Google', message: 'Sign in with Google' },
+  microsoft: { apiRef: microsoftAuthApiRef, title: 'Microsoft', message: 'Sign in with Microsoft' },
+  okta: { apiRef: oktaAuthApiRef, title: 'Okta', message: 'Sign in with Okta' },
+};
+
+/**
+ * Reads `app.signIn.providers`. Without it, only OIDC/PKCE is offered.
+ * Throws on unknown IDs, so a typo fails the app at startup
+ * instead of showing up as a missing button.
+ */
+export function readSignInProviders(
+  config: Config,
+): Array<'guest' | SignInProviderConfig> {
+  const entries = config.getOptionalConfigArray('app.signIn.providers');
+  if (!entries) {
+    return [{ id: 'oidc-pkce-provider', ...signInProviderRegistry['oidc-pkce'] }];
+  }
+
+  return entries.map(entry => {
+    const id = entry.getString('id');
+    if (id === 'guest') {
+      return 'guest';
+    }
+
+    const known = signInProviderRegistry[id];
+    if (!known) {
+      throw new Error(
+        `Unknown sign-in provider '${id}' in app.signIn.providers; expected one of ` +
+          `guest, ${Object.keys(signInProviderRegistry).join(', ')}`,
+      );
+    }
+
+    return {
+      id: `${id}-provider`,  // Unique ID for this sign-in provider
+      apiRef: known.apiRef,   // ← Links to auth API
+      title: entry.getOptionalString('title') ?? known.title,
+      message: entry.getOptionalString('message') ?? known.message,
+    };
+  });
+}
+
+/**
+ * Custom Sign-In Page Extension
+ *
+ * Shows the providers enabled in app-config for this environment.
+ */
+const customSignInPage = SignInPageBlueprint.makeWithOverrides({
+  factory(originalFactory, { apis }) {
+    // Read once as the app starts, so bad config fails there rather than
+    // inside the sign-in page's render
+    const configApi = apis.get(configApiRef);
+    if (!configApi) {
+      throw new Error('The sign-in page needs the config API');
+    }
+    const providers = readSignInProviders(configApi);
+
+    return originalFactory({
+      // Loader: Lazy-load the sign-in page component
+      loader: async () => props => (
+        <SignInPage
+          {...props}
+          title="Select a sign-in method"
+          align="center"
+          providers={providers}
+        />
+      ),
+    });
   },
 });
 
+/**
+ * Tests (packages/app/src/modules/signInPage/index.test.ts):
+ *
+ * import { ConfigReader } from '@backstage/config';
+ *
+ * it('builds providers from config', () => {
+ *   const config = new ConfigReader({
+ *     app: { signIn: { providers: [{ id: 'oidc-pkce', title: 'OpenPortal SSO' }, { id: 'guest' }] } },
+ *   });
+ *   expect(readSignInProviders(config)).toEqual([
+ *     expect.objectContaining({ id: 'oidc-pkce-provider', title: 'OpenPortal SSO', apiRef: oidcPkceAuthApiRef }),
+ *     'guest',
+ *   ]);
+ * });
+ *
+ * it('rejects unknown provider IDs', () => {
+ *   const config = new ConfigReader({ app: { signIn: { providers: [{ id: 'gihtub' }] } } });
+ *   expect(() => readSignInProviders(config)).toThrow("Unknown sign-in provider 'gihtub'");
+ * });
+ */
+
 /**
  * Sign-In Module
  *
@@ -240,6 +363,12 @@ export default app.createRoot();
  *         # No clientSecret needed for PKCE (public client)
  *         prompt: auto
  *         scope: 'openid profile email'
+ *         groups:                 # IdP groups → catalog ownership
+ *           claim: groups
+ *         signIn:
+ *           resolvers:            # Tried in order
+ *             - resolver: emailMatchingUserEntity
+ *             - resolver: preferredUsernameMatchingUserEntityName
  *
  * backend:
  *   baseUrl: http://localhost:7007
@@ -258,25 +387,33 @@ export default app.createRoot();
 /**
  * Backend module for OIDC/PKCE provider
  *
- * import { createBackendModule } from '@backstage/backend-plugin-api';
- * import { authProvidersExtensionPoint } from '@backstage/plugin-auth-node';
- * import { createOAuthProviderFactory } from '@backstage/plugin-auth-backend';
- * import { oidcPkceAuthenticator } from './oidcPkceAuthenticator';
+ * The complete module, with the PKCE authenticator and integration tests
+ * against a stand-in IdP, is in oidc-pkce-backend-module.ts. In short:
+ *
+ * import { coreServices, createBackendModule } from '@backstage/backend-plugin-api';
+ * import {
+ *   authProvidersExtensionPoint,
+ *   commonSignInResolvers,
+ *   createOAuthProviderFactory,
+ * } from '@backstage/plugin-auth-node';
+ * import { createOidcPkceAuthenticator } from './authenticator';
+ * import { oidcPkceSignInResolvers } from './resolvers';
  *
- * export const oidcPkceAuthModule = createBackendModule({
+ * export const authModuleOidcPkceProvider = createBackendModule({
  *   pluginId: 'auth',
  *   moduleId: 'oidc-pkce-provider',
  *   register(reg) {
  *     reg.registerInit({
  *       deps: {
  *         providers: authProvidersExtensionPoint,
+ *         cache: coreServices.cache,
  *       },
- *       async init({ providers }) {
+ *       async init({ providers, cache }) {
  *         providers.registerProvider({
  *           providerId: 'oidc-pkce',  // ← Must match frontend provider.id
  *           factory: createOAuthProviderFactory({
- *             authenticator: oidcPkceAuthenticator,  // Implements PKCE
- *             signInResolver: // ... ,
+ *             authenticator: createOidcPkceAuthenticator({ cache }),  // Implements PKCE
+ *             signInResolverFactories: { ...oidcPkceSignInResolvers, ...commonSignInResolvers },
  *           }),
  *         });
  *       },
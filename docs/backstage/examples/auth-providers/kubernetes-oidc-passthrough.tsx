@@ -0,0 +1,550 @@
+/**
+ * Example: Per-Cluster Kubernetes OIDC Token Passthrough
+ *
+ * The Kubernetes and Crossplane views call each cluster with the signed-in
+ * user's own ID token from `oidcPkceAuthApiRef`, so the portal shows exactly
+ * what the user's RBAC allows. The shared service account is only used by
+ * the ingestor, which needs cluster-wide read access for XRD discovery.
+ *
+ * Implements the plan in concepts/2025-10-23-oidc-kubernetes-authentication.md.
+ *
+ * 1. Cluster configuration
+ * 2. Backend auth strategy (`oidcPassthrough`)
+ * 3. Backend module
+ * 4. Frontend auth providers API
+ * 5. Crossplane views
+ * 6. Ingestor configuration
+ *
+ * File structure:
+ * packages/backend/src/modules/kubernetes/oidcPassthrough/
+ * ├── OidcPassthroughStrategy.ts      (Step 2)
+ * ├── OidcPassthroughStrategy.test.ts
+ * └── index.ts                        (Step 3)
+ * packages/app/src/modules/kubernetes/
+ * └── index.tsx                       (Step 4)
+ */
+
+// ============================================================================
+// Step 1: Cluster Configuration
+// File: app-config/kubernetes.yaml
+// ============================================================================
+
+/**
+ * The claim mapping mirrors the cluster's own OIDC settings
+ * (`--oidc-username-claim`, `--oidc-groups-claim` and their prefixes, or the
+ * claimMappings of a structured AuthenticationConfiguration). The token is
+ * not changed; the mapping tells the portal what identity the cluster will
+ * see, so a token that lacks those claims fails with a clear message
+ * instead of a bare 401 from the API server.
+ *
+ * kubernetes:
+ *   serviceLocatorMethod:
+ *     type: multiTenant
+ *   clusterLocatorMethods:
+ *     - type: config
+ *       clusters:
+ *         - name: openportal
+ *           url: https://hcp-ebadc4bb-307d-482e-a9d9-fdca15fd5ff1.spot.rackspace.com/
+ *           authProvider: oidcPassthrough
+ *           caData: ${KUBERNETES_OPENPORTAL_CA_DATA}
+ *           # No serviceAccountToken: startup fails if one is set
+ *
+ *         - name: rancher-desktop      # Local development only
+ *           url: ${KUBERNETES_API_URL}
+ *           authProvider: serviceAccount
+ *           serviceAccountToken: ${KUBERNETES_SERVICE_ACCOUNT_TOKEN}
+ *           skipTLSVerify: true
+ *
+ *   oidcPassthrough:
+ *     clusters:
+ *       openportal:
+ *         usernameClaim: email        # Auth0 has no preferred_username
+ *         groupsClaim: group          # Singular, and a string, in this Auth0 tenant
+ *         usernamePrefix: ''
+ *         groupsPrefix: ''
+ */
+
+// ============================================================================
+// Step 2: Backend Auth Strategy
+// File: packages/backend/src/modules/kubernetes/oidcPassthrough/OidcPassthroughStrategy.ts
+// ============================================================================
+
+import { decodeJwt, JWTPayload } from 'jose';
+import { Config } from '@backstage/config';
+import { AuthenticationError } from '@backstage/errors';
+import { LoggerService } from '@backstage/backend-plugin-api';
+import {
+  AuthMetadata,
+  AuthenticationStrategy,
+  ClusterDetails,
+  KubernetesCredential,
+} from '@backstage/plugin-kubernetes-node';
+import { KubernetesRequestAuth } from '@backstage/plugin-kubernetes-common';
+
+/** Key in `authProvider` and in the request body's `auth` object */
+export const OIDC_PASSTHROUGH = 'oidcPassthrough';
+
+/** What the cluster reads from the token, per cluster */
+export interface ClusterIdentityMapping {
+  usernameClaim: string;
+  usernamePrefix: string;
+  groupsClaim?: string;
+  groupsPrefix: string;
+}
+
+/** The Kubernetes API server defaults: `sub` and no groups */
+const DEFAULT_MAPPING: ClusterIdentityMapping = {
+  usernameClaim: 'sub',
+  usernamePrefix: '',
+  groupsPrefix: '',
+};
+
+export function readClusterIdentityMappings(
+  config: Config,
+): Map<string, ClusterIdentityMapping> {
+  const clusters = config.getOptionalConfig('kubernetes.oidcPassthrough.clusters');
+  return new Map(
+    (clusters?.keys() ?? []).map(name => {
+      const cluster = clusters!.getConfig(name);
+      return [
+        name,
+        {
+          usernameClaim: cluster.getOptionalString('usernameClaim') ?? DEFAULT_MAPPING.usernameClaim,
+          usernamePrefix: cluster.getOptionalString('usernamePrefix') ?? '',
+          groupsClaim: cluster.getOptionalString('groupsClaim'),
+          groupsPrefix: cluster.getOptionalString('groupsPrefix') ?? '',
+        },
+      ];
+    }),
+  );
+}
+
+/**
+ * The identity the cluster derives from the token. Throws if the token has
+ * expired or lacks the username claim.
+ */
+export function clusterIdentity(
+  claims: JWTPayload,
+  mapping: ClusterIdentityMapping,
+): { username: string; groups: string[] } {
+  if (claims.exp !== undefined && claims.exp * 1000 <= Date.now()) {
+    throw new AuthenticationError('The OIDC token has expired; sign in again');
+  }
+
+  const username = claims[mapping.usernameClaim];
+  if (typeof username !== 'string' || !username) {
+    throw new AuthenticationError(
+      `The OIDC token has no "${mapping.usernameClaim}" claim, which the cluster uses as username`,
+    );
+  }
+
+  const rawGroups = mapping.groupsClaim ? claims[mapping.groupsClaim] : undefined;
+  const groups = Array.isArray(rawGroups)
+    ? rawGroups.filter((group): group is string => typeof group === 'string')
+    : typeof rawGroups === 'string'
+      ? [rawGroups]
+      : [];
+
+  return {
+    username: `${mapping.usernamePrefix}${username}`,
+    groups: groups.map(group => `${mapping.groupsPrefix}${group}`),
+  };
+}
+
+/** A token that is not a JWT is the caller's fault, so a 401 rather than a 500 */
+function decodeClaims(token: string): JWTPayload {
+  try {
+    return decodeJwt(token);
+  } catch (error) {
+    throw new AuthenticationError('The OIDC token is not a valid JWT; sign in again', error);
+  }
+}
+
+/**
+ * Forwards the user's ID token to the cluster as a bearer token.
+ *
+ * There is deliberately no fallback: without a user token the request
+ * fails, rather than silently running with more privileges than the user
+ * has. The token is not verified here; the API server does that.
+ */
+export class OidcPassthroughStrategy implements AuthenticationStrategy {
+  constructor(
+    private readonly options: {
+      mappings: Map<string, ClusterIdentityMapping>;
+      logger: LoggerService;
+    },
+  ) {}
+
+  async getCredential(
+    clusterDetails: ClusterDetails,
+    requestAuth: KubernetesRequestAuth,
+  ): Promise<KubernetesCredential> {
+    const token = requestAuth[OIDC_PASSTHROUGH];
+    if (typeof token !== 'string' || !token) {
+      throw new AuthenticationError(
+        `Cluster ${clusterDetails.name} is only reachable with the signed-in user's OIDC token`,
+      );
+    }
+
+    const mapping = this.options.mappings.get(clusterDetails.name) ?? DEFAULT_MAPPING;
+    const { username, groups } = clusterIdentity(decodeClaims(token), mapping);
+    this.options.logger.debug(
+      `Calling cluster ${clusterDetails.name} as ${username} (groups: ${groups.join(', ') || 'none'})`,
+    );
+
+    return { type: 'bearer token', token };
+  }
+
+  validateCluster(authMetadata: AuthMetadata): Error[] {
+    if (authMetadata.serviceAccountToken) {
+      return [
+        new Error(
+          `authProvider ${OIDC_PASSTHROUGH} must not have a serviceAccountToken; ` +
+            'configure the service account for the ingestor instead',
+        ),
+      ];
+    }
+    return [];
+  }
+
+  presentAuthMetadata(_authMetadata: AuthMetadata): AuthMetadata {
+    return {};
+  }
+}
+
+// ============================================================================
+// Step 3: Backend Module
+// File: packages/backend/src/modules/kubernetes/oidcPassthrough/index.ts
+// ============================================================================
+
+import {
+  coreServices,
+  createBackendModule,
+} from '@backstage/backend-plugin-api';
+import { kubernetesAuthStrategyExtensionPoint } from '@backstage/plugin-kubernetes-node';
+
+export const kubernetesModuleOidcPassthrough = createBackendModule({
+  pluginId: 'kubernetes',
+  moduleId: 'oidc-passthrough',
+  register(reg) {
+    reg.registerInit({
+      deps: {
+        authStrategy: kubernetesAuthStrategyExtensionPoint,
+        config: coreServices.rootConfig,
+        logger: coreServices.logger,
+      },
+      async init({ authStrategy, config, logger }) {
+        authStrategy.addAuthStrategy(
+          OIDC_PASSTHROUGH,  // ← MUST MATCH authProvider in the cluster config
+          new OidcPassthroughStrategy({
+            mappings: readClusterIdentityMappings(config),
+            logger,
+          }),
+        );
+      },
+    });
+  },
+});
+
+/**
+ * // packages/backend/src/index.ts
+ * backend.add(import('@backstage/plugin-kubernetes-backend'));
+ * backend.add(import('./modules/kubernetes/oidcPassthrough'));
+ */
+
+// ============================================================================
+// Step 4: Frontend Auth Providers API
+// File: packages/app/src/modules/kubernetes/index.tsx
+// ============================================================================
+
+import {
+  ApiBlueprint,
+  createFrontendModule,
+} from '@backstage/frontend-plugin-api';
+import {
+  OpenIdConnectApi,
+  googleAuthApiRef,
+  microsoftAuthApiRef,
+} from '@backstage/core-plugin-api';
+import {
+  KubernetesAuthProviders,
+  KubernetesAuthProvidersApi,
+  kubernetesAuthProvidersApiRef,
+} from '@backstage/plugin-kubernetes-react';
+import { KubernetesRequestBody } from '@backstage/plugin-kubernetes-common';
+import { oidcPkceAuthApiRef } from '../../apis/custom-oidc-ref';
+
+/**
+ * Adds `oidcPassthrough` to the standard providers. Both the Kubernetes
+ * plugin (request body) and `kubernetesApi.proxy()` (header) get their
+ * credentials here.
+ */
+export class PortalKubernetesAuthProviders implements KubernetesAuthProvidersApi {
+  constructor(
+    private readonly options: {
+      defaults: KubernetesAuthProvidersApi;
+      oidcPkceAuthApi: OpenIdConnectApi;
+    },
+  ) {}
+
+  async decorateRequestBodyForAuth(
+    authProvider: string,
+    requestBody: KubernetesRequestBody,
+  ): Promise<KubernetesRequestBody> {
+    if (authProvider !== OIDC_PASSTHROUGH) {
+      return this.options.defaults.decorateRequestBodyForAuth(authProvider, requestBody);
+    }
+    const { token } = await this.getCredentials(authProvider);
+    return {
+      ...requestBody,
+      auth: { ...requestBody.auth, [OIDC_PASSTHROUGH]: token },
+    };
+  }
+
+  async getCredentials(authProvider: string): Promise<{ token?: string }> {
+    if (authProvider !== OIDC_PASSTHROUGH) {
+      return this.options.defaults.getCredentials(authProvider);
+    }
+    // On demand: opens the sign-in popup only if there is no session yet,
+    // and refreshes an expired token
+    return { token: await this.options.oidcPkceAuthApi.getIdToken() };
+  }
+}
+
+/** Replaces the Kubernetes plugin's own `api:kubernetes/auth-providers` */
+export const kubernetesAuthProvidersApi = ApiBlueprint.make({
+  name: 'auth-providers',
+  params: {
+    api: kubernetesAuthProvidersApiRef,
+    deps: {
+      googleAuthApi: googleAuthApiRef,
+      microsoftAuthApi: microsoftAuthApiRef,
+      oidcPkceAuthApi: oidcPkceAuthApiRef,
+    },
+    factory: ({ googleAuthApi, microsoftAuthApi, oidcPkceAuthApi }) =>
+      new PortalKubernetesAuthProviders({
+        defaults: new KubernetesAuthProviders({
+          googleAuthApi,
+          microsoftAuthApi,
+          // Clusters with the built-in `authProvider: oidc` and
+          // `oidcTokenProvider: oidc-pkce` work too
+          oidcProviders: { 'oidc-pkce': oidcPkceAuthApi },
+        }),
+        oidcPkceAuthApi,
+      }),
+  },
+});
+
+export const kubernetesAuthModule = createFrontendModule({
+  pluginId: 'kubernetes',
+  extensions: [kubernetesAuthProvidersApi],
+});
+
+/**
+ * // App.tsx
+ * const app = createApp({
+ *   features: [authModule, signInModule, kubernetesAuthModule],
+ * });
+ *
+ * Users still sign in to Backstage with GitHub if they like; the oidc-pkce
+ * session is only requested when a Kubernetes view needs a cluster token.
+ */
+
+// ============================================================================
+// Step 5: Crossplane Views
+// ============================================================================
+
+/**
+ * Crossplane views that go through `kubernetesApi.proxy()` need no changes:
+ * the proxy asks kubernetesAuthProvidersApi for credentials, gets the
+ * user's ID token and sends it as `Backstage-Kubernetes-Authorization`.
+ * Resources the user may not read come back as 403, as on the command line.
+ */
+
+import React from 'react';
+import { useApi } from '@backstage/core-plugin-api';
+import { kubernetesApiRef } from '@backstage/plugin-kubernetes-react';
+
+/** A Kubernetes status condition, e.g. Crossplane's `Ready` and `Synced` */
+interface StatusCondition {
+  type: string;
+  status: 'True' | 'False' | 'Unknown';
+  reason?: string;
+  message?: string;
+}
+
+export const CompositeResourceStatus = (props: {
+  clusterName: string;
+  apiVersion: string;
+  plural: string;
+  name: string;
+}) => {
+  const kubernetesApi = useApi(kubernetesApiRef);
+  const [state, setState] = React.useState<{ ready?: string; error?: string }>({});
+
+  React.useEffect(() => {
+    let mounted = true;
+    kubernetesApi
+      .proxy({
+        clusterName: props.clusterName,
+        path: `/apis/${props.apiVersion}/${props.plural}/${props.name}`,
+      })
+      .then(async response => {
+        if (response.status === 403) {
+          throw new Error(`your cluster role does not allow reading it on ${props.clusterName}`);
+        }
+        // Error pages from the proxy or an ingress are HTML or plain text
+        if (!response.ok) {
+          throw new Error(`HTTP ${response.status} ${response.statusText}`);
+        }
+        if (!response.headers.get('content-type')?.includes('json')) {
+          throw new Error(`unexpected ${response.headers.get('content-type') ?? 'untyped'} response`);
+        }
+        const resource: { status?: { conditions?: StatusCondition[] } } = await response.json();
+        const ready = resource.status?.conditions?.find(condition => condition.type === 'Ready');
+        if (mounted) setState({ ready: ready?.status ?? 'Unknown' });
+      })
+      .catch(error => mounted && setState({ error: error.message }));
+    return () => {
+      mounted = false;
+    };
+  }, [kubernetesApi, props.clusterName, props.apiVersion, props.plural, props.name]);
+
+  if (state.error) {
+    return <p>Cannot read {props.name}: {state.error}</p>;
+  }
+  return <p>{props.name}: Ready={state.ready ?? '…'}</p>;
+};
+
+// ============================================================================
+// Step 6: Ingestor Configuration
+// File: app-config/ingestor.yaml
+// ============================================================================
+
+/**
+ * The ingestor runs in the background, without a user, so it cannot use
+ * `oidcPassthrough`. It gets its own cluster list with the dedicated,
+ * read-only `backstage-ingestor` service account (see
+ * concepts/2025-10-23-oidc-kubernetes-authentication.md, Phase 3):
+ *
+ * ingestor:
+ *   kubernetes:
+ *     enabled: true
+ *     clusters:
+ *       - name: openportal
+ *         url: https://hcp-ebadc4bb-307d-482e-a9d9-fdca15fd5ff1.spot.rackspace.com/
+ *         authProvider: serviceAccount
+ *         serviceAccountToken: ${INGESTOR_SERVICE_ACCOUNT_TOKEN}
+ *         caData: ${KUBERNETES_OPENPORTAL_CA_DATA}
+ *
+ * The service account token appears only here. The user-facing cluster
+ * entry has none, and OidcPassthroughStrategy.validateCluster() keeps it
+ * that way.
+ */
+
+// ============================================================================
+// Tests
+// File: packages/backend/src/modules/kubernetes/oidcPassthrough/OidcPassthroughStrategy.test.ts
+// ============================================================================
+
+/**
+ * import { mockServices } from '@backstage/backend-test-utils';
+ * import { AuthenticationError } from '@backstage/errors';
+ * import { UnsecuredJWT } from 'jose';
+ * import { OidcPassthroughStrategy, clusterIdentity } from './OidcPassthroughStrategy';
+ *
+ * const token = (claims: Record<string, unknown>) =>
+ *   new UnsecuredJWT(claims).setExpirationTime('5m').encode();
+ *
+ * describe('OidcPassthroughStrategy', () => {
+ *   const cluster = { name: 'openportal', url: 'https://k8s.example.com', authMetadata: {} };
+ *   const strategy = new OidcPassthroughStrategy({
+ *     mappings: new Map([
+ *       ['openportal', { usernameClaim: 'email', groupsClaim: 'group', usernamePrefix: '', groupsPrefix: 'oidc:' }],
+ *     ]),
+ *     logger: mockServices.logger.mock(),
+ *   });
+ *
+ *   it('forwards the user token', async () => {
+ *     const idToken = token({ email: 'jane@example.com', group: 'cloudspace-admin' });
+ *     await expect(strategy.getCredential(cluster, { oidcPassthrough: idToken })).resolves.toEqual({
+ *       type: 'bearer token',
+ *       token: idToken,
+ *     });
+ *   });
+ *
+ *   it('never falls back without a user token', async () => {
+ *     await expect(strategy.getCredential(cluster, {})).rejects.toThrow(
+ *       "only reachable with the signed-in user's OIDC token",
+ *     );
+ *   });
+ *
+ *   it('rejects a token without the mapped username claim', async () => {
+ *     await expect(
+ *       strategy.getCredential(cluster, { oidcPassthrough: token({ sub: 'auth0|123' }) }),
+ *     ).rejects.toThrow('no "email" claim');
+ *   });
+ *
+ *   it('rejects a malformed token as unauthenticated', async () => {
+ *     await expect(
+ *       strategy.getCredential(cluster, { oidcPassthrough: 'not-a-jwt' }),
+ *     ).rejects.toBeInstanceOf(AuthenticationError);
+ *   });
+ *
+ *   it('refuses clusters with a service account token', () => {
+ *     expect(strategy.validateCluster({ serviceAccountToken: 'secret' })).toHaveLength(1);
+ *   });
+ * });
+ *
+ * describe('clusterIdentity', () => {
+ *   it('applies claims and prefixes like the API server', () => {
+ *     expect(
+ *       clusterIdentity(
+ *         { email: 'jane@example.com', group: 'cloudspace-admin' },
+ *         { usernameClaim: 'email', groupsClaim: 'group', usernamePrefix: '', groupsPrefix: 'oidc:' },
+ *       ),
+ *     ).toEqual({ username: 'jane@example.com', groups: ['oidc:cloudspace-admin'] });
+ *   });
+ * });
+ *
+ * // packages/app/src/modules/kubernetes/CompositeResourceStatus.test.tsx
+ * import { renderInTestApp, TestApiProvider } from '@backstage/test-utils';
+ *
+ * it('reports a non-JSON error page instead of a parse error', async () => {
+ *   const kubernetesApi = {
+ *     proxy: async () =>
+ *       new Response('<html>Bad Gateway</html>', {
+ *         status: 502,
+ *         statusText: 'Bad Gateway',
+ *         headers: { 'content-type': 'text/html' },
+ *       }),
+ *   };
+ *   const { findByText } = await renderInTestApp(
+ *     <TestApiProvider apis={[[kubernetesApiRef, kubernetesApi]]}>
+ *       <CompositeResourceStatus clusterName="openportal" apiVersion="example.org/v1" plural="databases" name="orders" />
+ *     </TestApiProvider>,
+ *   );
+ *   expect(await findByText('Cannot read orders: HTTP 502 Bad Gateway')).toBeInTheDocument();
+ * });
+ */
+
+// ============================================================================
+// Key Points
+// ============================================================================
+
+/**
+ * 1. The cluster decides
+ *    - Requests carry the user's own ID token; cluster RBAC applies as-is
+ *    - The portal shows a 403 where kubectl would
+ *
+ * 2. Claim mapping per cluster
+ *    - Mirrors each API server's username and groups claims and prefixes
+ *    - Tokens missing the username claim fail early with a clear message
+ *
+ * 3. No silent fallback
+ *    - No user token, no request
+ *    - A serviceAccountToken on an oidcPassthrough cluster fails at startup
+ *
+ * 4. The service account is for the ingestor only
+ *    - Separate cluster list, read-only ClusterRole
+ */
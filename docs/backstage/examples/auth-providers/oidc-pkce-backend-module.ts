@@ -0,0 +1,1164 @@
+/**
+ * OIDC/PKCE Backend Module Example
+ *
+ * This is the backend half of custom-oidc-implementation.tsx: the
+ * `oidc-pkce` auth provider that the frontend's `OAuth2.create({ provider:
+ * { id: 'oidc-pkce' } })` talks to. It signs users in with the
+ * authorization code flow and PKCE, as a public client with no client
+ * secret.
+ *
+ * Features:
+ * - IdP metadata discovered from `metadataUrl`, retried until it succeeds
+ * - S256 code challenge and nonce per sign-in attempt
+ * - Single-use state: the verifier and nonce are looked up by state and
+ *   deleted on first use
+ * - ID token validated by openid-client (signature, issuer, audience,
+ *   nonce, expiry)
+ * - Token refresh, keeping the old refresh token if the IdP doesn't rotate it
+ * - Sign-out revokes the refresh token at the IdP's revocation endpoint
+ * - Profile from the ID token claims and the userinfo endpoint
+ * - IdP groups (e.g. from Auth0 or Keycloak) mapped to catalog group refs
+ * - A configurable sign-in resolver chain: email, preferred_username, a
+ *   custom claim, or an identity for users not in the catalog
+ * - Integration tests against a local stand-in IdP
+ *
+ * File structure:
+ * packages/backend/src/modules/auth/oidcPkce/
+ * ├── groups.ts
+ * ├── groups.test.ts
+ * ├── authenticator.ts
+ * ├── authenticator.test.ts
+ * ├── resolvers.ts
+ * ├── resolvers.test.ts
+ * ├── module.ts
+ * ├── index.ts
+ * └── __testUtils__/
+ *     └── StandInIdp.ts
+ */
+
+// ==================================================
+// File: src/modules/auth/oidcPkce/groups.ts
+// ==================================================
+
+import { Config } from '@backstage/config';
+import {
+  DEFAULT_NAMESPACE,
+  parseEntityRef,
+  stringifyEntityRef,
+} from '@backstage/catalog-model';
+
+/**
+ * Read from `auth.providers.oidc-pkce.<env>.groups`. Use the same claim
+ * that Kubernetes reads (`--oidc-groups-claim`), so one set of IdP groups
+ * drives both cluster RBAC and catalog ownership.
+ *
+ * groups:
+ *   claim: groups              # Auth0: a namespaced claim, e.g. https://portal.example.com/groups
+ *   namespace: default
+ *   mappedOnly: false          # true: ignore IdP groups without a mapping
+ *   mapping:
+ *     - from: /platform/admins # Keycloak full group path
+ *       to: platform-team      # or a full ref, e.g. group:ops/platform-team
+ */
+export interface GroupMappingOptions {
+  claim: string;
+  namespace: string;
+  mappedOnly: boolean;
+  mapping: Map<string, string>;
+}
+
+export function readGroupMappingOptions(config?: Config): GroupMappingOptions {
+  return {
+    claim: config?.getOptionalString('claim') ?? 'groups',
+    namespace: config?.getOptionalString('namespace') ?? DEFAULT_NAMESPACE,
+    mappedOnly: config?.getOptionalBoolean('mappedOnly') ?? false,
+    mapping: new Map(
+      (config?.getOptionalConfigArray('mapping') ?? []).map(entry => [
+        entry.getString('from'),
+        entry.getString('to'),
+      ]),
+    ),
+  };
+}
+
+/** Catalog entity name for an IdP value: `/Platform/Admins` → `platform-admins` */
+export function normalizeEntityName(group: string): string {
+  return group
+    .toLowerCase()
+    .replace(/[^a-z0-9_.-]+/g, '-')
+    .replace(/^[-_.]+|[-_.]+$/g, '')
+    .slice(0, 63);
+}
+
+/**
+ * Group entity refs for the groups listed in `claims[options.claim]`, which
+ * may be an array or a space- or comma-separated string.
+ */
+export function groupRefsFromClaims(
+  claims: Record<string, unknown>,
+  options: GroupMappingOptions,
+): string[] {
+  const value = claims[options.claim];
+  const groups = Array.isArray(value)
+    ? value.filter((group): group is string => typeof group === 'string')
+    : typeof value === 'string'
+      ? value.split(/[\s,]+/)
+      : [];
+
+  const refs = new Set<string>();
+  for (const group of groups) {
+    const mapped = options.mapping.get(group);
+    if (mapped) {
+      refs.add(
+        stringifyEntityRef(
+          parseEntityRef(mapped, { defaultKind: 'group', defaultNamespace: options.namespace }),
+        ),
+      );
+    } else if (!options.mappedOnly && normalizeEntityName(group)) {
+      refs.add(
+        stringifyEntityRef({
+          kind: 'group',
+          namespace: options.namespace,
+          name: normalizeEntityName(group),
+        }),
+      );
+    }
+  }
+  return Array.from(refs);
+}
+
+// ==================================================
+// File: src/modules/auth/oidcPkce/authenticator.ts
+// ==================================================
+
+import { createHash } from 'crypto';
+import {
+  BaseClient,
+  IdTokenClaims,
+  Issuer,
+  TokenSet,
+  UserinfoResponse,
+  generators,
+} from 'openid-client';
+import { CacheService } from '@backstage/backend-plugin-api';
+import { AuthenticationError } from '@backstage/errors';
+import {
+  OAuthAuthenticatorResult,
+  createOAuthAuthenticator,
+} from '@backstage/plugin-auth-node';
+
+export interface OidcPkceProfile {
+  /** Absent when a refresh response carries no new ID token */
+  claims?: IdTokenClaims;
+  userinfo: UserinfoResponse;
+  /** Catalog group refs from the IdP groups claim, see groups.ts */
+  groupRefs: string[];
+}
+
+/** Stored between start and callback, keyed by the OAuth state */
+interface PendingAuthorization {
+  codeVerifier: string;
+  nonce: string;
+}
+
+/** How long a user has to complete the sign-in at the IdP */
+const PENDING_AUTHORIZATION_TTL_MS = 10 * 60 * 1000;
+
+function pendingKey(state: string): string {
+  // The state is long and user-controlled; keep cache keys short and uniform
+  return `oidc-pkce:pending:${createHash('sha256').update(state).digest('hex')}`;
+}
+
+async function toResult(
+  client: BaseClient,
+  tokenSet: TokenSet,
+  groups: GroupMappingOptions,
+  previousRefreshToken?: string,
+): Promise<OAuthAuthenticatorResult<OidcPkceProfile>> {
+  if (!tokenSet.access_token) {
+    throw new AuthenticationError('The identity provider returned no access token');
+  }
+
+  // Passing the token set makes openid-client check that the userinfo
+  // subject matches the ID token
+  const userinfo = await client.userinfo(tokenSet);
+  const claims = tokenSet.id_token ? tokenSet.claims() : undefined;
+
+  return {
+    fullProfile: {
+      claims,
+      userinfo,
+      // ID token claims win over userinfo, as they are signed
+      groupRefs: groupRefsFromClaims({ ...userinfo, ...claims }, groups),
+    },
+    session: {
+      accessToken: tokenSet.access_token,
+      tokenType: tokenSet.token_type ?? 'bearer',
+      scope: tokenSet.scope ?? '',
+      idToken: tokenSet.id_token,
+      expiresInSeconds: tokenSet.expires_in,
+      // Not every IdP rotates refresh tokens
+      refreshToken: tokenSet.refresh_token ?? previousRefreshToken,
+    },
+  };
+}
+
+/**
+ * Creates the authenticator. Pending authorizations live in the backend
+ * cache, so the callback can be served by another replica than the one
+ * that started the sign-in, as long as the cache is shared (Redis or
+ * Memcache, not the default in-memory store).
+ */
+export function createOidcPkceAuthenticator(options: { cache: CacheService }) {
+  const { cache } = options;
+
+  return createOAuthAuthenticator({
+    defaultProfileTransform: async ({ fullProfile }) => ({
+      profile: {
+        email: fullProfile.userinfo.email ?? fullProfile.claims?.email,
+        picture: fullProfile.userinfo.picture,
+        displayName: fullProfile.userinfo.name ?? fullProfile.claims?.name,
+      },
+    }),
+
+    initialize({ callbackUrl, config }) {
+      if (config.has('clientSecret')) {
+        throw new Error(
+          'The oidc-pkce provider is a public client and does not use a clientSecret; ' +
+            'remove it from auth.providers.oidc-pkce',
+        );
+      }
+
+      const metadataUrl = config.getString('metadataUrl');
+      const clientId = config.getString('clientId');
+
+      // Discovered on first use rather than at startup, so an IdP outage
+      // doesn't stop the backend; a failed discovery is retried next time
+      let client: Promise<BaseClient> | undefined;
+      const getClient = () => {
+        client ??= Issuer.discover(metadataUrl).then(
+          issuer => {
+            const methods = issuer.metadata.code_challenge_methods_supported as
+              | string[]
+              | undefined;
+            // Many IdPs support S256 without advertising it
+            if (methods && !methods.includes('S256')) {
+              throw new Error(`${issuer.metadata.issuer} does not support S256 code challenges`);
+            }
+            return new issuer.Client({
+              client_id: clientId,
+              token_endpoint_auth_method: 'none',
+              redirect_uris: [callbackUrl],
+              response_types: ['code'],
+              id_token_signed_response_alg:
+                config.getOptionalString('tokenSignedResponseAlg') ?? 'RS256',
+            });
+          },
+          error => {
+            client = undefined;
+            throw error;
+          },
+        );
+        return client;
+      };
+
+      return {
+        getClient,
+        callbackUrl,
+        prompt: config.getOptionalString('prompt') ?? 'auto',
+        /** Requested in addition to the scopes the frontend asks for */
+        additionalScopes: config.getOptionalString('scope')?.split(/[\s,]+/) ?? [],
+        groups: readGroupMappingOptions(config.getOptionalConfig('groups')),
+      };
+    },
+
+    async start(input, ctx) {
+      const client = await ctx.getClient();
+      const codeVerifier = generators.codeVerifier();
+      const nonce = generators.nonce();
+
+      const pending: PendingAuthorization = { codeVerifier, nonce };
+      await cache.set(pendingKey(input.state), { ...pending }, {
+        ttl: PENDING_AUTHORIZATION_TTL_MS,
+      });
+
+      const scope = new Set(['openid', ...input.scope.split(' '), ...ctx.additionalScopes]);
+      scope.delete('');
+
+      return {
+        url: client.authorizationUrl({
+          scope: Array.from(scope).join(' '),
+          state: input.state,
+          nonce,
+          code_challenge: generators.codeChallenge(codeVerifier),
+          code_challenge_method: 'S256',
+          ...(ctx.prompt !== 'auto' && { prompt: ctx.prompt }),
+        }),
+      };
+    },
+
+    async authenticate(input, ctx) {
+      const client = await ctx.getClient();
+      const params = client.callbackParams(input.req);
+      if (!params.state) {
+        throw new AuthenticationError('The identity provider callback has no state');
+      }
+
+      // Deleted before the token exchange, so a replayed callback fails
+      const key = pendingKey(params.state);
+      const pending = (await cache.get(key)) as PendingAuthorization | undefined;
+      await cache.delete(key);
+      if (!pending) {
+        throw new AuthenticationError(
+          'Unknown or expired sign-in attempt; start the sign-in again',
+        );
+      }
+
+      // Checks the state, exchanges code + verifier, validates the ID token
+      // and its nonce
+      const tokenSet = await client.callback(ctx.callbackUrl, params, {
+        response_type: 'code',
+        state: params.state,
+        nonce: pending.nonce,
+        code_verifier: pending.codeVerifier,
+      });
+      return toResult(client, tokenSet, ctx.groups);
+    },
+
+    async refresh(input, ctx) {
+      const client = await ctx.getClient();
+      const tokenSet = await client.refresh(input.refreshToken);
+      return toResult(client, tokenSet, ctx.groups, input.refreshToken);
+    },
+
+    /**
+     * Called by POST /api/auth/oidc-pkce/logout, i.e. the frontend's
+     * signOut(), before the refresh token cookie is cleared. Revoking the
+     * refresh token (RFC 7009) also ends the access tokens issued with it at
+     * most IdPs. A failed revocation fails the logout, so the user can retry
+     * rather than believe the grant is gone.
+     */
+    async logout(input, ctx) {
+      const client = await ctx.getClient();
+      if (!client.issuer.metadata.revocation_endpoint) {
+        // Nothing to call; the cleared cookie is all we can do
+        return;
+      }
+      if (input.refreshToken) {
+        await client.revoke(input.refreshToken, 'refresh_token');
+      } else if (input.accessToken) {
+        await client.revoke(input.accessToken, 'access_token');
+      }
+    },
+  });
+}
+
+// ==================================================
+// File: src/modules/auth/oidcPkce/resolvers.ts
+// ==================================================
+
+import { RELATION_MEMBER_OF } from '@backstage/catalog-model';
+import { NotAllowedError, NotFoundError } from '@backstage/errors';
+import {
+  AuthResolverContext,
+  SignInInfo,
+  createSignInResolverFactory,
+} from '@backstage/plugin-auth-node';
+import { z } from 'zod';
+
+type OidcPkceSignInInfo = SignInInfo<OAuthAuthenticatorResult<OidcPkceProfile>>;
+
+/** A claim from the ID token, or from userinfo if the ID token lacks it */
+function readClaim(info: OidcPkceSignInInfo, name: string): string | undefined {
+  const { claims, userinfo } = info.result.fullProfile;
+  const value = claims?.[name] ?? userinfo[name];
+  return typeof value === 'string' && value ? value : undefined;
+}
+
+function readEmailVerified(info: OidcPkceSignInInfo): unknown {
+  const { claims, userinfo } = info.result.fullProfile;
+  return claims?.email_verified ?? userinfo.email_verified;
+}
+
+/**
+ * Ownership = the user, the groups they are a member of in the catalog,
+ * and the groups from the IdP.
+ */
+function issueTokenFor(
+  entityRef: string,
+  memberOf: string[],
+  info: OidcPkceSignInInfo,
+  ctx: AuthResolverContext,
+) {
+  return ctx.issueToken({
+    claims: {
+      sub: entityRef,
+      ent: Array.from(new Set([entityRef, ...memberOf, ...info.result.fullProfile.groupRefs])),
+    },
+  });
+}
+
+async function signInAsCatalogUser(
+  query: Parameters<AuthResolverContext['findCatalogUser']>[0],
+  info: OidcPkceSignInInfo,
+  ctx: AuthResolverContext,
+) {
+  // Throws NotFoundError when there is no match, which moves the chain on
+  const { entity } = await ctx.findCatalogUser(query);
+  const memberOf = entity.relations
+    ?.filter(relation => relation.type === RELATION_MEMBER_OF)
+    .map(relation => relation.targetRef) ?? [];
+  return issueTokenFor(stringifyEntityRef(entity), memberOf, info, ctx);
+}
+
+/** Namespace for identities of users that are not in the catalog */
+const GUEST_NAMESPACE = 'guest';
+
+/** Whether `name` is a catalog user in the default or the given namespace */
+async function isCatalogUserName(
+  name: string,
+  namespace: string,
+  ctx: AuthResolverContext,
+): Promise<boolean> {
+  for (const ns of new Set([DEFAULT_NAMESPACE, namespace])) {
+    try {
+      await ctx.findCatalogUser({ entityRef: { kind: 'user', namespace: ns, name } });
+      return true;
+    } catch (error) {
+      if (!(error instanceof NotFoundError)) {
+        throw error;
+      }
+    }
+  }
+  return false;
+}
+
+/**
+ * Resolvers for `signIn.resolvers`. Backstage tries them in order; a
+ * resolver that throws NotFoundError hands over to the next one, any other
+ * error fails the sign-in.
+ *
+ * signIn:
+ *   resolvers:
+ *     - resolver: emailMatchingUserEntity
+ *     - resolver: preferredUsernameMatchingUserEntityName
+ *     - resolver: claimMatchingUserEntity
+ *       claim: employee_id
+ *       annotation: example.com/employee-id
+ *     - resolver: unregisteredUserIdentity
+ *       allowedDomains: [example.com]
+ *       namespace: guest        # the default
+ */
+export const oidcPkceSignInResolvers = {
+  /** `email` claim against `spec.profile.email`; only `email_verified: true` passes */
+  emailMatchingUserEntity: createSignInResolverFactory({
+    create() {
+      return async (info: OidcPkceSignInInfo, ctx) => {
+        const email = readClaim(info, 'email');
+        if (!email || readEmailVerified(info) !== true) {
+          throw new NotFoundError('No verified email claim');
+        }
+        return signInAsCatalogUser({ filter: { 'spec.profile.email': email } }, info, ctx);
+      };
+    },
+  }),
+
+  /** `preferred_username` claim against `metadata.name` */
+  preferredUsernameMatchingUserEntityName: createSignInResolverFactory({
+    create() {
+      return async (info: OidcPkceSignInInfo, ctx) => {
+        const username = readClaim(info, 'preferred_username');
+        if (!username) {
+          throw new NotFoundError('No preferred_username claim');
+        }
+        return signInAsCatalogUser({ entityRef: { name: username } }, info, ctx);
+      };
+    },
+  }),
+
+  /**
+   * Any claim, against an annotation or, without `annotation`, against
+   * `metadata.name`.
+   */
+  claimMatchingUserEntity: createSignInResolverFactory({
+    optionsSchema: z.object({
+      claim: z.string(),
+      annotation: z.string().optional(),
+    }),
+    create(options) {
+      return async (info: OidcPkceSignInInfo, ctx) => {
+        const value = readClaim(info, options.claim);
+        if (!value) {
+          throw new NotFoundError(`No ${options.claim} claim`);
+        }
+        return signInAsCatalogUser(
+          options.annotation
+            ? { annotations: { [options.annotation]: value } }
+            : { entityRef: { name: value } },
+          info,
+          ctx,
+        );
+      };
+    },
+  }),
+
+  /**
+   * Last resort for users not (yet) in the catalog: a `user:` ref built
+   * from `preferred_username` or the email, owning only the IdP groups.
+   * Restrict it with `allowedDomains`, or anyone the IdP lets in gets an
+   * identity.
+   *
+   * Only an email with `email_verified: true` passes the domain check.
+   * Identities go to the `guest` namespace by default, and a name that
+   * resolves to a catalog user is refused, so a chosen `preferred_username`
+   * cannot pass for a registered user.
+   */
+  unregisteredUserIdentity: createSignInResolverFactory({
+    optionsSchema: z
+      .object({
+        allowedDomains: z.array(z.string()).optional(),
+        namespace: z.string().default(GUEST_NAMESPACE),
+      })
+      .default({}),
+    create(options) {
+      return async (info: OidcPkceSignInInfo, ctx) => {
+        const email = readEmailVerified(info) === true ? readClaim(info, 'email') : undefined;
+        const domain = email?.split('@')[1]?.toLowerCase();
+        if (options.allowedDomains && (!domain || !options.allowedDomains.includes(domain))) {
+          throw new NotFoundError(`Email domain ${domain ?? '(none)'} is not allowed`);
+        }
+
+        const name = normalizeEntityName(
+          readClaim(info, 'preferred_username') ?? email?.split('@')[0] ?? '',
+        );
+        if (!name) {
+          throw new NotFoundError('No preferred_username or email claim');
+        }
+        if (await isCatalogUserName(name, options.namespace, ctx)) {
+          throw new NotAllowedError(`User name ${name} belongs to a catalog user`);
+        }
+
+        const entityRef = stringifyEntityRef({
+          kind: 'user',
+          namespace: options.namespace,
+          name,
+        });
+        return issueTokenFor(entityRef, [], info, ctx);
+      };
+    },
+  }),
+};
+
+// ==================================================
+// File: src/modules/auth/oidcPkce/module.ts
+// ==================================================
+
+import {
+  coreServices,
+  createBackendModule,
+} from '@backstage/backend-plugin-api';
+import {
+  authProvidersExtensionPoint,
+  commonSignInResolvers,
+  createOAuthProviderFactory,
+} from '@backstage/plugin-auth-node';
+
+/**
+ * Registers the `oidc-pkce` provider with the auth backend.
+ *
+ * Sign-in resolvers are chosen in config under
+ * `auth.providers.oidc-pkce.<env>.signIn.resolvers`. Only the
+ * oidcPkceSignInResolvers add the IdP groups to the user's ownership; the
+ * common ones are kept for compatibility.
+ */
+export const authModuleOidcPkceProvider = createBackendModule({
+  pluginId: 'auth',
+  moduleId: 'oidc-pkce-provider',
+  register(reg) {
+    reg.registerInit({
+      deps: {
+        providers: authProvidersExtensionPoint,
+        cache: coreServices.cache,
+      },
+      async init({ providers, cache }) {
+        providers.registerProvider({
+          providerId: 'oidc-pkce',  // ← MUST MATCH frontend provider.id
+          factory: createOAuthProviderFactory({
+            authenticator: createOidcPkceAuthenticator({ cache }),
+            signInResolverFactories: {
+              ...oidcPkceSignInResolvers,
+              ...commonSignInResolvers,
+            },
+          }),
+        });
+      },
+    });
+  },
+});
+
+// ==================================================
+// File: src/modules/auth/oidcPkce/index.ts
+// ==================================================
+
+export { authModuleOidcPkceProvider as default } from './module';
+
+/**
+ * // packages/backend/src/index.ts
+ * backend.add(import('./modules/auth/oidcPkce'));
+ *
+ * # app-config.yaml
+ * auth:
+ *   environment: development
+ *   providers:
+ *     oidc-pkce:
+ *       development:
+ *         metadataUrl: https://idp.example.com/.well-known/openid-configuration
+ *         clientId: backstage           # A public client at the IdP
+ *         prompt: auto                  # or login, consent, none
+ *         scope: 'offline_access groups' # Added to the scopes the frontend asks for
+ *         groups:
+ *           claim: groups
+ *           mapping:
+ *             - from: /platform/admins
+ *               to: platform-team
+ *         signIn:
+ *           resolvers:
+ *             - resolver: emailMatchingUserEntity
+ *             - resolver: preferredUsernameMatchingUserEntityName
+ *             - resolver: unregisteredUserIdentity
+ *               allowedDomains: [example.com]
+ *
+ * Register http://localhost:7007/api/auth/oidc-pkce/handler/frame as the
+ * redirect URI at the IdP. `offline_access` is what most IdPs need to issue
+ * a refresh token.
+ */
+
+// ==================================================
+// File: src/modules/auth/oidcPkce/__testUtils__/StandInIdp.ts
+// ==================================================
+
+/**
+ * A minimal OpenID provider for integration tests: discovery, JWKS,
+ * authorize, token (code and refresh grants) and userinfo. It enforces what
+ * a real IdP enforces for public clients, so a test fails if the
+ * authenticator sends a wrong verifier or a client secret.
+ *
+ * import { createHash, randomUUID } from 'crypto';
+ * import express from 'express';
+ * import { AddressInfo } from 'net';
+ * import { Server } from 'http';
+ * import { SignJWT, exportJWK, generateKeyPair, KeyLike } from 'jose';
+ *
+ * export class StandInIdp {
+ *   readonly clientId = 'backstage';
+ *   readonly user = {
+ *     sub: 'u-123',
+ *     email: 'jane@example.com',
+ *     email_verified: true,
+ *     name: 'Jane Doe',
+ *     preferred_username: 'jane',
+ *     groups: ['/platform/admins', 'Developers'],
+ *   };
+ *
+ *   // Set by tests to simulate misbehaving IdPs
+ *   nonceOverride?: string;
+ *   rotateRefreshTokens = true;
+ *
+ *   // What the authenticator sent; tests assert no secret ever shows up
+ *   readonly tokenRequests: Array<{ body: Record<string, string>; authorization?: string }> = [];
+ *
+ *   private server?: Server;
+ *   private privateKey!: KeyLike;
+ *   private jwk!: object;
+ *   private readonly codes = new Map<string, { challenge: string; nonce: string; redirectUri: string }>();
+ *   private readonly refreshTokens = new Set<string>();
+ *   private readonly accessTokens = new Set<string>();
+ *
+ *   issuer = '';
+ *   get metadataUrl() {
+ *     return `${this.issuer}/.well-known/openid-configuration`;
+ *   }
+ *
+ *   async start(): Promise<void> {
+ *     const { privateKey, publicKey } = await generateKeyPair('RS256');
+ *     this.privateKey = privateKey;
+ *     this.jwk = { ...(await exportJWK(publicKey)), kid: 'test', alg: 'RS256', use: 'sig' };
+ *
+ *     const app = express().use(express.urlencoded({ extended: false }));
+ *
+ *     app.get('/.well-known/openid-configuration', (_req, res) =>
+ *       res.json({
+ *         issuer: this.issuer,
+ *         authorization_endpoint: `${this.issuer}/authorize`,
+ *         token_endpoint: `${this.issuer}/token`,
+ *         userinfo_endpoint: `${this.issuer}/userinfo`,
+ *         revocation_endpoint: `${this.issuer}/revoke`,
+ *         jwks_uri: `${this.issuer}/jwks`,
+ *         response_types_supported: ['code'],
+ *         code_challenge_methods_supported: ['S256'],
+ *         token_endpoint_auth_methods_supported: ['none'],
+ *         id_token_signing_alg_values_supported: ['RS256'],
+ *         subject_types_supported: ['public'],
+ *       }),
+ *     );
+ *
+ *     app.get('/jwks', (_req, res) => res.json({ keys: [this.jwk] }));
+ *
+ *     // No login page: the user is signed in and consents immediately
+ *     app.get('/authorize', (req, res) => {
+ *       const q = req.query as Record<string, string>;
+ *       if (q.client_id !== this.clientId || q.code_challenge_method !== 'S256' || !q.code_challenge) {
+ *         res.status(400).send('invalid_request');
+ *         return;
+ *       }
+ *       const code = randomUUID();
+ *       this.codes.set(code, { challenge: q.code_challenge, nonce: q.nonce, redirectUri: q.redirect_uri });
+ *       const target = new URL(q.redirect_uri);
+ *       target.searchParams.set('code', code);
+ *       target.searchParams.set('state', q.state);
+ *       res.redirect(target.toString());
+ *     });
+ *
+ *     app.post('/token', async (req, res) => {
+ *       this.tokenRequests.push({ body: req.body, authorization: req.header('authorization') });
+ *       const invalidGrant = () => res.status(400).json({ error: 'invalid_grant' });
+ *
+ *       if (req.body.grant_type === 'authorization_code') {
+ *         const issued = this.codes.get(req.body.code);
+ *         this.codes.delete(req.body.code);
+ *         const challenge = createHash('sha256').update(req.body.code_verifier ?? '').digest('base64url');
+ *         if (!issued || issued.redirectUri !== req.body.redirect_uri || issued.challenge !== challenge) {
+ *           invalidGrant();
+ *           return;
+ *         }
+ *         res.json(await this.issueTokens(this.nonceOverride ?? issued.nonce));
+ *         return;
+ *       }
+ *
+ *       if (req.body.grant_type === 'refresh_token') {
+ *         if (!this.refreshTokens.has(req.body.refresh_token)) {
+ *           invalidGrant();
+ *           return;
+ *         }
+ *         const tokens = await this.issueTokens();
+ *         if (this.rotateRefreshTokens) {
+ *           this.refreshTokens.delete(req.body.refresh_token);
+ *         } else {
+ *           delete tokens.refresh_token;
+ *         }
+ *         res.json(tokens);
+ *         return;
+ *       }
+ *
+ *       res.status(400).json({ error: 'unsupported_grant_type' });
+ *     });
+ *
+ *     // RFC 7009: always 200, whether or not the token was known
+ *     app.post('/revoke', (req, res) => {
+ *       this.refreshTokens.delete(req.body.token);
+ *       this.accessTokens.delete(req.body.token);
+ *       res.status(200).end();
+ *     });
+ *
+ *     app.get('/userinfo', (req, res) => {
+ *       const token = req.header('authorization')?.replace(/^Bearer /i, '');
+ *       if (!token || !this.accessTokens.has(token)) {
+ *         res.status(401).end();
+ *         return;
+ *       }
+ *       res.json(this.user);
+ *     });
+ *
+ *     await new Promise<void>(resolve => {
+ *       this.server = app.listen(0, '127.0.0.1', () => resolve());
+ *     });
+ *     this.issuer = `http://127.0.0.1:${(this.server!.address() as AddressInfo).port}`;
+ *   }
+ *
+ *   async stop(): Promise<void> {
+ *     await new Promise(resolve => this.server?.close(resolve));
+ *   }
+ *
+ *   private async issueTokens(nonce?: string): Promise<Record<string, unknown>> {
+ *     const accessToken = randomUUID();
+ *     const refreshToken = randomUUID();
+ *     this.accessTokens.add(accessToken);
+ *     this.refreshTokens.add(refreshToken);
+ *
+ *     const idToken = await new SignJWT({ ...this.user, ...(nonce && { nonce }) })
+ *       .setProtectedHeader({ alg: 'RS256', kid: 'test' })
+ *       .setIssuer(this.issuer)
+ *       .setAudience(this.clientId)
+ *       .setIssuedAt()
+ *       .setExpirationTime('5m')
+ *       .sign(this.privateKey);
+ *
+ *     return {
+ *       access_token: accessToken,
+ *       token_type: 'Bearer',
+ *       expires_in: 300,
+ *       scope: 'openid profile email',
+ *       refresh_token: refreshToken,
+ *       id_token: idToken,
+ *     };
+ *   }
+ * }
+ */
+
+// ==================================================
+// File: src/modules/auth/oidcPkce/authenticator.test.ts
+// ==================================================
+
+/**
+ * Runs the real authenticator against StandInIdp over HTTP: discovery,
+ * JWKS download, ID token validation and PKCE all happen for real.
+ *
+ * import { CacheService } from '@backstage/backend-plugin-api';
+ * import { ConfigReader } from '@backstage/config';
+ * import { Request } from 'express';
+ * import { createOidcPkceAuthenticator } from './authenticator';
+ * import { StandInIdp } from './__testUtils__/StandInIdp';
+ *
+ * const callbackUrl = 'http://localhost:7007/api/auth/oidc-pkce/handler/frame';
+ *
+ * function memoryCache(): CacheService {
+ *   const data = new Map<string, any>();
+ *   return {
+ *     get: async key => data.get(key),
+ *     set: async (key, value) => void data.set(key, value),
+ *     delete: async key => void data.delete(key),
+ *     withOptions: () => memoryCache(),
+ *   };
+ * }
+ *
+ * describe('oidc-pkce authenticator', () => {
+ *   const idp = new StandInIdp();
+ *   beforeAll(() => idp.start());
+ *   afterAll(() => idp.stop());
+ *
+ *   let authenticator: ReturnType<typeof createOidcPkceAuthenticator>;
+ *   let ctx: any;
+ *
+ *   beforeEach(() => {
+ *     idp.nonceOverride = undefined;
+ *     idp.rotateRefreshTokens = true;
+ *     idp.tokenRequests.length = 0;
+ *     authenticator = createOidcPkceAuthenticator({ cache: memoryCache() });
+ *     ctx = authenticator.initialize({
+ *       callbackUrl,
+ *       config: new ConfigReader({ metadataUrl: idp.metadataUrl, clientId: idp.clientId }),
+ *     });
+ *   });
+ *
+ *   // Starts a sign-in and follows the IdP redirect back to the callback
+ *   async function signIn(state = `state-${Math.random()}`) {
+ *     const { url } = await authenticator.start(
+ *       { scope: 'profile email', state, req: {} as Request },
+ *       ctx,
+ *     );
+ *     const response = await fetch(url, { redirect: 'manual' });
+ *     const callback = new URL(response.headers.get('location')!);
+ *     return { url: new URL(url), callbackReq: { method: 'GET', url: `${callback.pathname}${callback.search}` } as Request };
+ *   }
+ *
+ *   it('sends an S256 challenge and a nonce', async () => {
+ *     const { url } = await signIn('abc');
+ *     expect(url.searchParams.get('code_challenge_method')).toBe('S256');
+ *     expect(url.searchParams.get('code_challenge')).toMatch(/^[\w-]{43}$/);
+ *     expect(url.searchParams.get('nonce')).toBeTruthy();
+ *     expect(url.searchParams.get('state')).toBe('abc');
+ *     expect(url.searchParams.get('scope')).toBe('openid profile email');
+ *   });
+ *
+ *   it('signs in without a client secret', async () => {
+ *     const { callbackReq } = await signIn();
+ *     const result = await authenticator.authenticate({ req: callbackReq }, ctx);
+ *
+ *     expect(result.session.accessToken).toBeTruthy();
+ *     expect(result.session.refreshToken).toBeTruthy();
+ *     expect(result.fullProfile.claims?.sub).toBe('u-123');
+ *     expect(result.fullProfile.groupRefs).toEqual([
+ *       'group:default/platform-admins',
+ *       'group:default/developers',
+ *     ]);
+ *     await expect(
+ *       authenticator.defaultProfileTransform(result, {} as any),
+ *     ).resolves.toEqual({
+ *       profile: { email: 'jane@example.com', displayName: 'Jane Doe', picture: undefined },
+ *     });
+ *
+ *     expect(idp.tokenRequests).toHaveLength(1);
+ *     expect(idp.tokenRequests[0].body.client_secret).toBeUndefined();
+ *     expect(idp.tokenRequests[0].authorization).toBeUndefined();
+ *   });
+ *
+ *   it('rejects a replayed callback', async () => {
+ *     const { callbackReq } = await signIn();
+ *     await authenticator.authenticate({ req: callbackReq }, ctx);
+ *     await expect(authenticator.authenticate({ req: callbackReq }, ctx)).rejects.toThrow(
+ *       'Unknown or expired sign-in attempt',
+ *     );
+ *   });
+ *
+ *   it('fails when the code was issued for another verifier', async () => {
+ *     const first = await signIn('first');
+ *     await signIn('second');
+ *     // The code from the first attempt, the state (and so verifier) of the second
+ *     const code = new URL(first.callbackReq.url, 'http://x').searchParams.get('code');
+ *     const mixed = { method: 'GET', url: `/handler/frame?code=${code}&state=second` } as Request;
+ *
+ *     await expect(authenticator.authenticate({ req: mixed }, ctx)).rejects.toThrow('invalid_grant');
+ *   });
+ *
+ *   it('fails on an ID token with a different nonce', async () => {
+ *     idp.nonceOverride = 'someone-elses-nonce';
+ *     const { callbackReq } = await signIn();
+ *     await expect(authenticator.authenticate({ req: callbackReq }, ctx)).rejects.toThrow(
+ *       'nonce mismatch',
+ *     );
+ *   });
+ *
+ *   it('refreshes and keeps a non-rotated refresh token', async () => {
+ *     const { callbackReq } = await signIn();
+ *     const { session } = await authenticator.authenticate({ req: callbackReq }, ctx);
+ *
+ *     idp.rotateRefreshTokens = false;
+ *     const refreshed = await authenticator.refresh(
+ *       { refreshToken: session.refreshToken!, scope: session.scope, req: {} as Request },
+ *       ctx,
+ *     );
+ *
+ *     expect(refreshed.session.accessToken).not.toBe(session.accessToken);
+ *     expect(refreshed.session.refreshToken).toBe(session.refreshToken);
+ *   });
+ *
+ *   it('revokes the refresh token on logout', async () => {
+ *     const { callbackReq } = await signIn();
+ *     const { session } = await authenticator.authenticate({ req: callbackReq }, ctx);
+ *
+ *     await authenticator.logout!({ refreshToken: session.refreshToken, req: {} as Request }, ctx);
+ *
+ *     await expect(
+ *       authenticator.refresh(
+ *         { refreshToken: session.refreshToken!, scope: session.scope, req: {} as Request },
+ *         ctx,
+ *       ),
+ *     ).rejects.toThrow('invalid_grant');
+ *   });
+ *
+ *   it('refuses a configured client secret', () => {
+ *     expect(() =>
+ *       authenticator.initialize({
+ *         callbackUrl,
+ *         config: new ConfigReader({
+ *           metadataUrl: idp.metadataUrl,
+ *           clientId: idp.clientId,
+ *           clientSecret: 'leftover',
+ *         }),
+ *       }),
+ *     ).toThrow('does not use a clientSecret');
+ *   });
+ * });
+ */
+
+// ==================================================
+// File: src/modules/auth/oidcPkce/groups.test.ts
+// ==================================================
+
+/**
+ * import { ConfigReader } from '@backstage/config';
+ * import { groupRefsFromClaims, readGroupMappingOptions } from './groups';
+ *
+ * describe('groupRefsFromClaims', () => {
+ *   const options = readGroupMappingOptions(
+ *     new ConfigReader({
+ *       claim: 'https://portal.example.com/groups',
+ *       mapping: [
+ *         { from: '/platform/admins', to: 'platform-team' },
+ *         { from: 'sre', to: 'group:ops/sre' },
+ *       ],
+ *     }),
+ *   );
+ *
+ *   it('maps, normalizes and deduplicates groups', () => {
+ *     const claims = {
+ *       'https://portal.example.com/groups': ['/platform/admins', 'sre', 'Data Science', 'data-science'],
+ *     };
+ *     expect(groupRefsFromClaims(claims, options)).toEqual([
+ *       'group:default/platform-team',
+ *       'group:ops/sre',
+ *       'group:default/data-science',
+ *     ]);
+ *   });
+ *
+ *   it('ignores unmapped groups with mappedOnly', () => {
+ *     const claims = { 'https://portal.example.com/groups': ['sre', 'everyone'] };
+ *     expect(groupRefsFromClaims(claims, { ...options, mappedOnly: true })).toEqual(['group:ops/sre']);
+ *   });
+ *
+ *   it('returns nothing without the claim', () => {
+ *     expect(groupRefsFromClaims({}, options)).toEqual([]);
+ *   });
+ * });
+ */
+
+// ==================================================
+// File: src/modules/auth/oidcPkce/resolvers.test.ts
+// ==================================================
+
+/**
+ * import { NotAllowedError, NotFoundError } from '@backstage/errors';
+ * import { oidcPkceSignInResolvers } from './resolvers';
+ *
+ * describe('oidcPkceSignInResolvers', () => {
+ *   const info = (claims: Record<string, unknown>) => ({
+ *     profile: {},
+ *     result: {
+ *       fullProfile: { claims, userinfo: {}, groupRefs: ['group:default/platform-admins'] },
+ *       session: {},
+ *     },
+ *   }) as any;
+ *
+ *   const ctx = {
+ *     findCatalogUser: jest.fn(),
+ *     issueToken: jest.fn(async ({ claims }) => ({ token: 'token', claims })),
+ *     signInWithCatalogUser: jest.fn(),
+ *     resolveOwnershipEntityRefs: jest.fn(),
+ *   } as any;
+ *
+ *   beforeEach(() => jest.clearAllMocks());
+ *
+ *   it('adds IdP groups to catalog memberships', async () => {
+ *     ctx.findCatalogUser.mockResolvedValue({
+ *       entity: {
+ *         kind: 'User',
+ *         metadata: { name: 'jane', namespace: 'default' },
+ *         relations: [{ type: 'memberOf', targetRef: 'group:default/developers' }],
+ *       },
+ *     });
+ *     const resolver = oidcPkceSignInResolvers.emailMatchingUserEntity();
+ *
+ *     await resolver(info({ email: 'jane@example.com', email_verified: true }), ctx);
+ *
+ *     expect(ctx.findCatalogUser).toHaveBeenCalledWith({
+ *       filter: { 'spec.profile.email': 'jane@example.com' },
+ *     });
+ *     expect(ctx.issueToken).toHaveBeenCalledWith({
+ *       claims: {
+ *         sub: 'user:default/jane',
+ *         ent: ['user:default/jane', 'group:default/developers', 'group:default/platform-admins'],
+ *       },
+ *     });
+ *   });
+ *
+ *   it.each([false, undefined])('skips emails with email_verified: %s', async emailVerified => {
+ *     const resolver = oidcPkceSignInResolvers.emailMatchingUserEntity();
+ *     await expect(
+ *       resolver(info({ email: 'jane@example.com', email_verified: emailVerified }), ctx),
+ *     ).rejects.toBeInstanceOf(NotFoundError);
+ *     expect(ctx.findCatalogUser).not.toHaveBeenCalled();
+ *   });
+ *
+ *   it('matches a custom claim against an annotation', async () => {
+ *     ctx.findCatalogUser.mockResolvedValue({
+ *       entity: { kind: 'User', metadata: { name: 'jane', namespace: 'default' } },
+ *     });
+ *     const resolver = oidcPkceSignInResolvers.claimMatchingUserEntity({
+ *       claim: 'employee_id',
+ *       annotation: 'example.com/employee-id',
+ *     });
+ *
+ *     await resolver(info({ employee_id: 'E-42' }), ctx);
+ *
+ *     expect(ctx.findCatalogUser).toHaveBeenCalledWith({
+ *       annotations: { 'example.com/employee-id': 'E-42' },
+ *     });
+ *   });
+ *
+ *   describe('unregisteredUserIdentity', () => {
+ *     const resolver = oidcPkceSignInResolvers.unregisteredUserIdentity({
+ *       allowedDomains: ['example.com'],
+ *     });
+ *
+ *     beforeEach(() => {
+ *       ctx.findCatalogUser.mockRejectedValue(new NotFoundError('no user'));
+ *     });
+ *
+ *     it('issues a guest identity for allowed domains only', async () => {
+ *       await resolver(info({ email: 'New.Hire@example.com', email_verified: true }), ctx);
+ *       expect(ctx.issueToken).toHaveBeenCalledWith({
+ *         claims: {
+ *           sub: 'user:guest/new.hire',
+ *           ent: ['user:guest/new.hire', 'group:default/platform-admins'],
+ *         },
+ *       });
+ *
+ *       await expect(
+ *         resolver(info({ email: 'someone@elsewhere.io', email_verified: true }), ctx),
+ *       ).rejects.toThrow('Email domain elsewhere.io is not allowed');
+ *     });
+ *
+ *     it.each([false, undefined])('rejects email_verified: %s', async emailVerified => {
+ *       await expect(
+ *         resolver(info({ email: 'jane@example.com', email_verified: emailVerified }), ctx),
+ *       ).rejects.toThrow('Email domain (none) is not allowed');
+ *       expect(ctx.issueToken).not.toHaveBeenCalled();
+ *     });
+ *
+ *     it('refuses names of catalog users', async () => {
+ *       ctx.findCatalogUser.mockResolvedValueOnce({
+ *         entity: { kind: 'User', metadata: { name: 'admin', namespace: 'default' } },
+ *       });
+ *
+ *       await expect(
+ *         resolver(
+ *           info({ email: 'x@example.com', email_verified: true, preferred_username: 'admin' }),
+ *           ctx,
+ *         ),
+ *       ).rejects.toBeInstanceOf(NotAllowedError);
+ *       expect(ctx.findCatalogUser).toHaveBeenCalledWith({
+ *         entityRef: { kind: 'user', namespace: 'default', name: 'admin' },
+ *       });
+ *       expect(ctx.issueToken).not.toHaveBeenCalled();
+ *     });
+ *   });
+ * });
+ */
+
+// ==================================================
+// Key Points
+// ==================================================
+
+/**
+ * 1. No client secret
+ *    - `token_endpoint_auth_method: 'none'`; the verifier proves the caller
+ *    - A leftover `clientSecret` in config fails at startup
+ *
+ * 2. State is single-use
+ *    - Verifier and nonce are stored per state and deleted on first use
+ *    - Use a shared cache when running more than one backend replica
+ *
+ * 3. Let openid-client validate
+ *    - ID token signature, issuer, audience, expiry and nonce
+ *    - Userinfo subject must match the ID token
+ *
+ * 4. One group source for everything
+ *    - The IdP groups claim becomes catalog group refs in the user's
+ *      ownership, next to their catalog memberships
+ *    - The same claim Kubernetes uses for RBAC
+ *
+ * 5. Ordered resolver chain from config
+ *    - email, preferred_username, any claim, then an identity for users
+ *      not in the catalog
+ *    - NotFoundError moves on to the next resolver
+ *    - Users not in the catalog get `user:guest/<name>`, never the name
+ *      of a catalog user
+ *
+ * 6. Sign-out ends the grant at the IdP
+ *    - `logout` revokes the refresh token via the revocation endpoint
+ *    - Skipped only if the IdP advertises no revocation endpoint
+ *
+ * 7. Test against an IdP, not mocks
+ *    - StandInIdp enforces PKCE like a real provider
+ *    - Wrong verifiers, replays and nonce mismatches are all covered
+ */
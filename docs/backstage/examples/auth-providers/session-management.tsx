@@ -0,0 +1,637 @@
+/**
+ * Example: Session Management ("My session" page)
+ *
+ * Implements `CustomAuthApi` (see utility-apis/creating-api-ref.ts) for the
+ * `oidc-pkce` provider and surfaces it on a page where users can see and
+ * control their session:
+ *
+ * - Signed-in identity and ownership refs
+ * - IdP token expiry with a live countdown
+ * - Granted scopes
+ * - Linked providers (every sign-in provider with an active session)
+ * - Actions: force a refresh, revoke the token at the IdP, sign out everywhere
+ *
+ * Revocation happens in the backend: signOut() calls
+ * POST /api/auth/oidc-pkce/logout, and the authenticator's `logout` revokes
+ * the refresh token at the IdP (see oidc-pkce-backend-module.ts).
+ *
+ * File structure:
+ * packages/app/src/modules/session/
+ * ├── RevocableOAuthApi.ts     (Step 1)
+ * ├── apis.ts                  (Step 2)
+ * ├── MySessionPage.tsx        (Step 3)
+ * └── index.tsx                (Step 4)
+ */
+
+// ============================================================================
+// Step 1: CustomAuthApi Implementation
+// File: packages/app/src/modules/session/RevocableOAuthApi.ts
+// ============================================================================
+
+import {
+  AuthRequestOptions,
+  BackstageIdentityApi,
+  BackstageIdentityResponse,
+  BackstageUserIdentity,
+  DiscoveryApi,
+  OAuthApi,
+  OpenIdConnectApi,
+  ProfileInfo,
+  ProfileInfoApi,
+  SessionApi,
+  SessionState,
+} from '@backstage/core-plugin-api';
+import { Observable } from '@backstage/types';
+import { ResponseError } from '@backstage/errors';
+import { decodeJwt } from 'jose';
+import { AuthSessionInfo, CustomAuthApi } from '../utility-apis/creating-api-ref';
+
+type OAuthProviderApi = OAuthApi &
+  OpenIdConnectApi &
+  ProfileInfoApi &
+  BackstageIdentityApi &
+  SessionApi;
+
+/** Body of GET /api/auth/<provider>/refresh */
+interface RefreshResponse {
+  providerInfo: {
+    accessToken: string;
+    idToken?: string;
+    scope: string;
+    expiresInSeconds?: number;
+  };
+  profile: ProfileInfo;
+  backstageIdentity: {
+    token: string;
+    identity: BackstageUserIdentity;
+  };
+}
+
+/** Tokens this close to expiry are left to OAuth2's own refresh */
+const MIN_REMAINING_VALIDITY_MS = 60 * 1000;
+
+/**
+ * Wraps the OAuth2 instance from `OAuth2.create()`, which handles sign-in
+ * and normal refreshes but keeps its session private: there is no way to
+ * force a refresh or to read the expiry and scopes. For a forced refresh
+ * this class calls the auth backend's refresh endpoint itself, and hands
+ * out the forced tokens while they are valid. Otherwise the session is
+ * OAuth2's, which refreshes it on its own.
+ */
+export class RevocableOAuthApi implements CustomAuthApi {
+  private latest?: { response: RefreshResponse; expiresAt?: Date };
+
+  constructor(
+    private readonly options: {
+      oauth: OAuthProviderApi;
+      providerId: string;
+      /** `auth.environment`, as used by the backend's provider config */
+      environment: string;
+      discoveryApi: DiscoveryApi;
+      /** The `defaultScopes` given to OAuth2, granted at sign-in */
+      defaultScopes: string[];
+    },
+  ) {}
+
+  signIn(): Promise<void> {
+    return this.options.oauth.signIn();
+  }
+
+  /** The backend revokes the refresh token at the IdP before clearing it */
+  async signOut(): Promise<void> {
+    this.latest = undefined;
+    await this.options.oauth.signOut();
+  }
+
+  sessionState$(): Observable<SessionState> {
+    return this.options.oauth.sessionState$();
+  }
+
+  getProfile(options?: AuthRequestOptions): Promise<ProfileInfo | undefined> {
+    return this.options.oauth.getProfile(options);
+  }
+
+  getBackstageIdentity(
+    options?: AuthRequestOptions,
+  ): Promise<BackstageIdentityResponse | undefined> {
+    return this.options.oauth.getBackstageIdentity(options);
+  }
+
+  async getAccessToken(
+    scope?: string | string[],
+    options?: AuthRequestOptions,
+  ): Promise<string> {
+    return (
+      this.freshSession(scope)?.providerInfo.accessToken ??
+      this.options.oauth.getAccessToken(scope, options)
+    );
+  }
+
+  async getIdToken(options?: AuthRequestOptions): Promise<string> {
+    return (
+      this.freshSession()?.providerInfo.idToken ??
+      this.options.oauth.getIdToken(options)
+    );
+  }
+
+  async refreshToken(): Promise<void> {
+    const { discoveryApi, providerId, environment } = this.options;
+    const baseUrl = await discoveryApi.getBaseUrl('auth');
+
+    // Plain fetch like OAuth2's own connector: the refresh token is an
+    // httpOnly cookie, and no Backstage token is needed
+    const response = await fetch(
+      `${baseUrl}/${providerId}/refresh?optional&env=${encodeURIComponent(environment)}`,
+      {
+        headers: { 'x-requested-with': 'XMLHttpRequest' },
+        credentials: 'include',
+      },
+    );
+    if (!response.ok) {
+      throw await ResponseError.fromResponse(response);
+    }
+
+    const body: RefreshResponse = await response.json();
+    const { expiresInSeconds } = body.providerInfo;
+    this.latest = {
+      response: body,
+      expiresAt: expiresInSeconds ? new Date(Date.now() + expiresInSeconds * 1000) : undefined,
+    };
+  }
+
+  revokeToken(): Promise<void> {
+    return this.signOut();
+  }
+
+  /**
+   * Never forces a refresh: without valid forced tokens, the details come
+   * from OAuth2's session, which OAuth2 refreshes if it is about to expire.
+   */
+  async getSessionInfo(): Promise<AuthSessionInfo | undefined> {
+    const { oauth, providerId, defaultScopes } = this.options;
+    const backstageIdentity = await oauth.getBackstageIdentity({ optional: true });
+    if (!backstageIdentity) {
+      return undefined;
+    }
+
+    const forced = this.freshSession();
+    if (forced) {
+      return {
+        providerId,
+        profile: forced.profile,
+        identity: forced.backstageIdentity.identity,
+        scopes: scopesOf(forced),
+        expiresAt: this.latest!.expiresAt,
+      };
+    }
+
+    const [profile, idToken] = await Promise.all([
+      oauth.getProfile({ optional: true }),
+      oauth.getIdToken({ optional: true }),
+    ]);
+    // OAuth2 keeps the access token expiry to itself; the ID token is
+    // issued with it and carries its own
+    const exp = idToken ? decodeJwt(idToken).exp : undefined;
+    return {
+      providerId,
+      profile: profile ?? {},
+      identity: backstageIdentity.identity,
+      // Refreshes keep the grant, so the last one seen is still accurate
+      scopes: this.latest ? scopesOf(this.latest.response) : defaultScopes,
+      expiresAt: exp ? new Date(exp * 1000) : undefined,
+    };
+  }
+
+  /** The forced session, if it is still valid and has the scopes */
+  private freshSession(scope?: string | string[]): RefreshResponse | undefined {
+    const expiresAt = this.latest?.expiresAt;
+    if (!expiresAt || expiresAt.getTime() - Date.now() < MIN_REMAINING_VALIDITY_MS) {
+      return undefined;
+    }
+
+    const granted = new Set(scopesOf(this.latest!.response));
+    const wanted = typeof scope === 'string' ? scope.split(/[\s,]+/) : scope ?? [];
+    return wanted.every(s => !s || granted.has(s)) ? this.latest!.response : undefined;
+  }
+}
+
+function scopesOf(response: RefreshResponse): string[] {
+  return response.providerInfo.scope.split(' ').filter(Boolean);
+}
+
+// ============================================================================
+// Step 2: API Extensions
+// File: packages/app/src/modules/session/apis.ts
+// ============================================================================
+
+import { ApiBlueprint, createApiFactory } from '@backstage/frontend-plugin-api';
+import {
+  configApiRef,
+  discoveryApiRef,
+  oauthRequestApiRef,
+} from '@backstage/core-plugin-api';
+import { OAuth2 } from '@backstage/core-app-api';
+import LockIcon from '@material-ui/icons/Lock';
+import { customAuthApiRef } from '../utility-apis/creating-api-ref';
+import { oidcPkceAuthApiRef } from './custom-oidc-ref';
+
+const defaultScopes = ['openid', 'profile', 'email'];
+
+/**
+ * Replaces the extension of the same name in custom-oidc-implementation.tsx
+ * (Step 2): everything using oidcPkceAuthApiRef, including the Kubernetes
+ * passthrough, gets tokens from the forced refresh too.
+ */
+export const oidcPkceAuthApi = ApiBlueprint.make({
+  name: 'oidc-pkce',
+  params: {
+    factory: createApiFactory({
+      api: oidcPkceAuthApiRef,
+      deps: {
+        configApi: configApiRef,
+        discoveryApi: discoveryApiRef,
+        oauthRequestApi: oauthRequestApiRef,
+      },
+      factory: ({ configApi, discoveryApi, oauthRequestApi }) =>
+        new RevocableOAuthApi({
+          oauth: OAuth2.create({
+            configApi,
+            discoveryApi,
+            oauthRequestApi,
+            provider: {
+              id: 'oidc-pkce',  // ← MUST MATCH backend provider ID and config key
+              title: 'OIDC with PKCE',
+              icon: LockIcon,
+            },
+            defaultScopes,
+          }),
+          providerId: 'oidc-pkce',
+          environment: configApi.getOptionalString('auth.environment') ?? 'development',
+          discoveryApi,
+          defaultScopes,
+        }),
+    }),
+  },
+});
+
+/**
+ * The same instance under the CustomAuthApi contract. A second
+ * RevocableOAuthApi would have its own session and tokens.
+ */
+export const customAuthApi = ApiBlueprint.make({
+  name: 'custom-auth',
+  params: {
+    factory: createApiFactory({
+      api: customAuthApiRef,
+      deps: { oidcPkceAuthApi: oidcPkceAuthApiRef },
+      factory: ({ oidcPkceAuthApi }) => {
+        if (!(oidcPkceAuthApi instanceof RevocableOAuthApi)) {
+          throw new Error(
+            'customAuthApiRef needs the oidc-pkce API from the session module; ' +
+              'another extension overrides api:app/oidc-pkce',
+          );
+        }
+        return oidcPkceAuthApi;
+      },
+    }),
+  },
+});
+
+// ============================================================================
+// Step 3: "My Session" Page
+// File: packages/app/src/modules/session/MySessionPage.tsx
+// ============================================================================
+
+import React from 'react';
+import {
+  alertApiRef,
+  configApiRef,
+  identityApiRef,
+  useApi,
+  useApiHolder,
+} from '@backstage/core-plugin-api';
+import {
+  Content,
+  Header,
+  InfoCard,
+  Page,
+  Progress,
+  StructuredMetadataTable,
+} from '@backstage/core-components';
+import { Button, Chip, Grid } from '@material-ui/core';
+import { readSignInProviders } from './custom-oidc-implementation';
+
+function formatRemaining(expiresAt: Date | undefined, now: number): string {
+  if (!expiresAt) {
+    return 'unknown';
+  }
+  const seconds = Math.max(0, Math.round((expiresAt.getTime() - now) / 1000));
+  if (seconds === 0) {
+    return 'expired';
+  }
+  const minutes = Math.floor(seconds / 60);
+  return `${minutes}:${String(seconds % 60).padStart(2, '0')}`;
+}
+
+/** Sign-in providers from app.signIn.providers with an active session */
+function useLinkedProviders(): Array<{ title: string; api: ProfileInfoApi & SessionApi; email?: string }> {
+  const apis = useApiHolder();
+  const configApi = useApi(configApiRef);
+  const [linked, setLinked] = React.useState<
+    Array<{ title: string; api: ProfileInfoApi & SessionApi; email?: string }>
+  >([]);
+
+  React.useEffect(() => {
+    let mounted = true;
+    const candidates = readSignInProviders(configApi).flatMap(provider =>
+      provider === 'guest' ? [] : [{ title: provider.title, api: apis.get(provider.apiRef) }],
+    );
+
+    Promise.all(
+      candidates.map(async ({ title, api }) => {
+        // `optional` never opens a popup
+        const profile = await api?.getProfile({ optional: true });
+        return api && profile ? [{ title, api, email: profile.email }] : [];
+      }),
+    ).then(results => mounted && setLinked(results.flat()));
+
+    return () => {
+      mounted = false;
+    };
+  }, [apis, configApi]);
+
+  return linked;
+}
+
+export const MySessionPage = () => {
+  const authApi = useApi(customAuthApiRef);
+  const identityApi = useApi(identityApiRef);
+  const alertApi = useApi(alertApiRef);
+  const linkedProviders = useLinkedProviders();
+
+  const [session, setSession] = React.useState<AuthSessionInfo | undefined>();
+  const [loading, setLoading] = React.useState(true);
+  const [now, setNow] = React.useState(Date.now());
+
+  const load = React.useCallback(async () => {
+    setLoading(true);
+    try {
+      setSession(await authApi.getSessionInfo());
+    } catch (error) {
+      alertApi.post({ message: `Could not load the session: ${error}`, severity: 'error' });
+    } finally {
+      setLoading(false);
+    }
+  }, [authApi, alertApi]);
+
+  React.useEffect(() => {
+    load();
+  }, [load]);
+
+  // Countdown
+  React.useEffect(() => {
+    const interval = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(interval);
+  }, []);
+
+  // At expiry the shown session is stale: OAuth2 has refreshed, or does so
+  // when asked for the session again
+  const expiresAt = session?.expiresAt?.getTime();
+  React.useEffect(() => {
+    if (!expiresAt || expiresAt <= Date.now()) {
+      return undefined;
+    }
+    const timeout = setTimeout(load, expiresAt - Date.now());
+    return () => clearTimeout(timeout);
+  }, [expiresAt, load]);
+
+  const run = (action: () => Promise<void>, done: string) => async () => {
+    try {
+      await action();
+      alertApi.post({ message: done, severity: 'success', display: 'transient' });
+    } catch (error) {
+      alertApi.post({ message: `${error}`, severity: 'error' });
+    }
+    await load();
+  };
+
+  if (loading && !session) {
+    return <Progress />;
+  }
+
+  return (
+    <Page themeId="tool">
+      <Header title="My session" subtitle="Your sign-in, tokens and linked providers" />
+      <Content>
+        {!session ? (
+          <InfoCard title="Not signed in with OIDC">
+            <Button variant="outlined" onClick={run(() => authApi.signIn(), 'Signed in')}>
+              Sign in
+            </Button>
+          </InfoCard>
+        ) : (
+          <Grid container>
+            <Grid item xs={12} md={6}>
+              <InfoCard title="Identity">
+                <StructuredMetadataTable
+                  metadata={{
+                    name: session.profile.displayName ?? '-',
+                    email: session.profile.email ?? '-',
+                    user: session.identity.userEntityRef,
+                    ownership: session.identity.ownershipEntityRefs.join(', '),
+                  }}
+                />
+              </InfoCard>
+            </Grid>
+            <Grid item xs={12} md={6}>
+              <InfoCard title="Token">
+                <StructuredMetadataTable
+                  metadata={{
+                    provider: session.providerId,
+                    'expires in': formatRemaining(session.expiresAt, now),
+                    'expires at': session.expiresAt?.toLocaleTimeString() ?? '-',
+                  }}
+                />
+                <div>
+                  {session.scopes.map(scope => (
+                    <Chip key={scope} label={scope} size="small" />
+                  ))}
+                </div>
+              </InfoCard>
+            </Grid>
+            <Grid item xs={12}>
+              <InfoCard title="Linked providers">
+                <StructuredMetadataTable
+                  metadata={Object.fromEntries(
+                    linkedProviders.map(({ title, email }) => [title, email ?? 'signed in']),
+                  )}
+                />
+              </InfoCard>
+            </Grid>
+            <Grid item xs={12}>
+              <Button variant="outlined" onClick={run(() => authApi.refreshToken(), 'Token refreshed')}>
+                Refresh now
+              </Button>
+              <Button variant="outlined" onClick={run(() => authApi.revokeToken(), 'Token revoked at the identity provider')}>
+                Revoke token
+              </Button>
+              <Button
+                color="secondary"
+                variant="contained"
+                onClick={run(async () => {
+                  // Revokes oidc-pkce at the IdP; other providers clear their cookies
+                  const results = await Promise.allSettled(
+                    linkedProviders.map(({ api }) => api.signOut()),
+                  );
+                  const failed = linkedProviders.filter(
+                    (_, index) => results[index].status === 'rejected',
+                  );
+                  // Stay signed in to Backstage, so the user sees which
+                  // sessions are left and can try again
+                  if (failed.length) {
+                    throw new Error(
+                      `Could not sign out of ${failed.map(({ title }) => title).join(', ')}`,
+                    );
+                  }
+                  await identityApi.signOut();
+                }, 'Signed out')}
+              >
+                Sign out everywhere
+              </Button>
+            </Grid>
+          </Grid>
+        )}
+      </Content>
+    </Page>
+  );
+};
+
+// ============================================================================
+// Step 4: Frontend Module
+// File: packages/app/src/modules/session/index.tsx
+// ============================================================================
+
+import {
+  PageBlueprint,
+  createFrontendModule,
+} from '@backstage/frontend-plugin-api';
+
+export const mySessionPage = PageBlueprint.make({
+  name: 'my-session',
+  params: {
+    defaultPath: '/my-session',
+    loader: async () => <MySessionPage />,
+  },
+});
+
+export const sessionModule = createFrontendModule({
+  pluginId: 'app',
+  extensions: [oidcPkceAuthApi, customAuthApi, mySessionPage],
+});
+
+/**
+ * // App.tsx - sessionModule takes the place of authModule, which only
+ * // provides the plain oidc-pkce API
+ * const app = createApp({
+ *   features: [signInModule, sessionModule],
+ * });
+ *
+ * Link the page from the sidebar or the user settings menu:
+ * <SidebarItem icon={LockIcon} to="my-session" text="My session" />
+ */
+
+// ============================================================================
+// Tests
+// File: packages/app/src/modules/session/RevocableOAuthApi.test.ts
+// ============================================================================
+
+/**
+ * import { registerMswTestHooks } from '@backstage/test-utils';
+ * import { http, HttpResponse } from 'msw';
+ * import { setupServer } from 'msw/node';
+ * import { UnsecuredJWT } from 'jose';
+ * import { RevocableOAuthApi } from './RevocableOAuthApi';
+ *
+ * const server = setupServer();
+ * registerMswTestHooks(server);
+ *
+ * const refreshUrl = 'http://localhost:7007/api/auth/oidc-pkce/refresh';
+ * const identity = { userEntityRef: 'user:default/jane', ownershipEntityRefs: [] };
+ *
+ * const oauth = {
+ *   getAccessToken: jest.fn(async () => 'cached-token'),
+ *   getIdToken: jest.fn(async () => new UnsecuredJWT({}).setExpirationTime('10m').encode()),
+ *   getProfile: jest.fn(async () => ({ email: 'jane@example.com' })),
+ *   getBackstageIdentity: jest.fn(async () => ({ token: 'b', identity })),
+ *   signOut: jest.fn(async () => {}),
+ * } as any;
+ *
+ * const api = new RevocableOAuthApi({
+ *   oauth,
+ *   providerId: 'oidc-pkce',
+ *   environment: 'development',
+ *   discoveryApi: { getBaseUrl: async () => 'http://localhost:7007/api/auth' },
+ *   defaultScopes: ['openid', 'profile', 'email'],
+ * });
+ *
+ * it("reads OAuth2's session without forcing a refresh", async () => {
+ *   const refresh = jest.fn();
+ *   server.use(http.get(refreshUrl, refresh));
+ *
+ *   const info = await api.getSessionInfo();
+ *
+ *   expect(refresh).not.toHaveBeenCalled();
+ *   expect(info).toEqual(expect.objectContaining({ identity, scopes: ['openid', 'profile', 'email'] }));
+ *   // From the ID token OAuth2 holds, so it follows OAuth2's own refreshes
+ *   expect(info!.expiresAt!.getTime()).toBeGreaterThan(Date.now() + 9 * 60 * 1000);
+ * });
+ *
+ * it('uses the forced tokens until they near expiry', async () => {
+ *   server.use(
+ *     http.get(refreshUrl, ({ request }) => {
+ *       expect(new URL(request.url).searchParams.get('env')).toBe('development');
+ *       return HttpResponse.json({
+ *         providerInfo: { accessToken: 'forced-token', scope: 'openid email', expiresInSeconds: 300 },
+ *         profile: { email: 'jane@example.com' },
+ *         backstageIdentity: { token: 'b', identity },
+ *       });
+ *     }),
+ *   );
+ *
+ *   await api.refreshToken();
+ *   await expect(api.getAccessToken('openid')).resolves.toBe('forced-token');
+ *   // A scope the forced session doesn't have goes through OAuth2
+ *   await expect(api.getAccessToken('groups')).resolves.toBe('cached-token');
+ *   await expect(api.getSessionInfo()).resolves.toEqual(
+ *     expect.objectContaining({ scopes: ['openid', 'email'] }),
+ *   );
+ * });
+ *
+ * it('revokes through the backend logout', async () => {
+ *   await api.revokeToken();
+ *   expect(oauth.signOut).toHaveBeenCalled();
+ *   await expect(api.getAccessToken()).resolves.toBe('cached-token');
+ * });
+ */
+
+// ============================================================================
+// Key Points
+// ============================================================================
+
+/**
+ * 1. One instance, two contracts
+ *    - RevocableOAuthApi backs both oidcPkceAuthApiRef and customAuthApiRef
+ *    - Forced tokens reach every consumer, not just this page
+ *    - Opening the page reads OAuth2's session; only "Refresh now" forces
+ *      a refresh
+ *
+ * 2. Revocation is a backend job
+ *    - The refresh token is an httpOnly cookie the browser can't read
+ *    - signOut() → POST /logout → authenticator.logout() → IdP revocation
+ *
+ * 3. Sign out everywhere
+ *    - Ends each linked provider's session, then the Backstage session
+ *    - If a provider fails, reports it and stays signed in to Backstage
+ *    - Linked providers come from app.signIn.providers
+ *      (custom-oidc-implementation.tsx, Step 4)
+ */
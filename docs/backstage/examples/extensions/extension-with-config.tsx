@@ -123,16 +123,16 @@ export const advancedConfigExtension = createExtension({
         retries: z.number().default(3),
       }).optional(),
 
-      // Discriminated unions
+      // Discriminated unions. Extension config is sent to the browser, so
+      // no passwords or tokens here: 'proxy' names a credential proxy route
+      // (plugins/credential-proxy-backend-plugin.ts) that holds them.
       authMode: z.discriminatedUnion('type', [
         z.object({
-          type: z.literal('basic'),
-          username: z.string(),
-          password: z.string(),
+          type: z.literal('proxy'),
+          route: z.string(),
         }),
         z.object({
-          type: z.literal('token'),
-          token: z.string(),
+          type: z.literal('backstage'),
         }),
         z.object({
           type: z.literal('none'),
@@ -183,8 +183,8 @@ export const advancedConfigExtension = createExtension({
 
               <h2>Auth Mode:</h2>
               <p>Type: {authMode.type}</p>
-              {authMode.type === 'basic' && <p>Username: {authMode.username}</p>}
-              {authMode.type === 'token' && <p>Token: {authMode.token.substring(0, 10)}...</p>}
+              {authMode.type === 'proxy' && <p>Credential proxy route: {authMode.route}</p>}
+              {authMode.type === 'backstage' && <p>Signed-in user's Backstage token</p>}
             </div>
           </Content>
         </Page>
@@ -219,8 +219,8 @@ export const advancedConfigExtension = createExtension({
  *             retries: 5
  *
  *           authMode:
- *             type: token
- *             token: "${API_TOKEN}"  # Environment variable
+ *             type: proxy
+ *             route: example-api  # credentialProxy.routes.example-api, backend only
  */
 
 // ==============================================
@@ -249,8 +249,8 @@ export const advancedConfigExtension = createExtension({
  *             endpoint: "https://api.prod.example.com/v1"
  *             timeout: 30000
  *           authMode:
- *             type: token
- *             token: "${PROD_API_TOKEN}"
+ *             type: proxy
+ *             route: example-api-prod
  */
 
 // ==============================================
@@ -270,5 +270,5 @@ export const advancedConfigExtension = createExtension({
  * "Invalid configuration for extension page:example/advanced-config:
  *  - display.columns: Number must be less than or equal to 12
  *  - apiConfig.endpoint: Invalid url
- *  - authMode.type: Invalid enum value. Expected 'basic' | 'token' | 'none'"
+ *  - authMode.type: Invalid enum value. Expected 'proxy' | 'backstage' | 'none'"
  */
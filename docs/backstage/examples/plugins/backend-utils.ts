@@ -0,0 +1,267 @@
+/**
+ * Shared Backend Utilities Example
+ *
+ * This example shows the backend counterpart of `@internal/api-client`: the
+ * request validation, keyset cursors and server-sent event plumbing that
+ * the task, notification and metrics backend plugins would otherwise each
+ * carry a copy of.
+ *
+ * Features:
+ * - zod request parsing with field-level details, answered as 422
+ * - Opaque keyset cursors; a malformed cursor is a 400, not a 500
+ * - In-process event broker with optional per-topic fan-out
+ * - Server-sent events route handler with heartbeats
+ *
+ * Location: packages/backend-utils/src/ (shared as @internal/backend-utils)
+ */
+
+// ==================================================
+// File: src/validation.ts
+// ==================================================
+
+import express from 'express';
+import { z } from 'zod';
+import { fromZodError } from 'zod-validation-error';
+import { InputError } from '@backstage/errors';
+
+/**
+ * Validation error carrying field-level details.
+ *
+ * `validationErrorHandler()` turns it into a 422 response whose body has
+ * the `details` array that `ValidationError.fieldErrors` reads in the
+ * frontend (utility-apis/api-errors.ts).
+ */
+export class RequestValidationError extends InputError {
+  constructor(readonly details: Array<{ field: string; message: string }>, message: string) {
+    super(message);
+  }
+}
+
+/** Parses a request body or query, throwing RequestValidationError */
+export function parseRequest<S extends z.ZodTypeAny>(schema: S, input: unknown): z.infer<S> {
+  const result = schema.safeParse(input);
+  if (!result.success) {
+    throw new RequestValidationError(
+      result.error.issues.map(issue => ({
+        field: issue.path.join('.') || '(body)',
+        message: issue.message,
+      })),
+      fromZodError(result.error).message,
+    );
+  }
+  return result.data;
+}
+
+/**
+ * Answers RequestValidationError with 422 and a `details` array. All other
+ * errors fall through to the default Backstage error handler, which maps
+ * InputError to 400, NotFoundError to 404 and ConflictError to 409.
+ *
+ * Register it after the routes of a plugin router.
+ */
+export function validationErrorHandler(): express.ErrorRequestHandler {
+  return (error, req, res, next) => {
+    if (!(error instanceof RequestValidationError)) {
+      next(error);
+      return;
+    }
+    res.status(422).json({
+      error: { name: error.name, message: error.message },
+      request: { method: req.method, url: req.originalUrl },
+      response: { statusCode: 422 },
+      details: error.details,
+    });
+  };
+}
+
+// ==================================================
+// File: src/cursors.ts
+// ==================================================
+
+/** Sort value and id of the last item on a page */
+export interface KeysetPosition {
+  v: string;
+  id: string;
+}
+
+/**
+ * Cursors encode the sort value and id of the last item on a page, so the
+ * next page is a keyset query that stays stable while items are added.
+ */
+export function encodeCursor(position: KeysetPosition): string {
+  return Buffer.from(JSON.stringify({ v: position.v, id: position.id })).toString(
+    'base64url',
+  );
+}
+
+/** A cursor the client tampered with or truncated is a 400, not a 500 */
+export function decodeCursor(cursor: string): KeysetPosition {
+  let decoded: unknown;
+  try {
+    decoded = JSON.parse(Buffer.from(cursor, 'base64url').toString('utf8'));
+  } catch {
+    throw new InputError('Invalid cursor');
+  }
+
+  const { v, id } = (decoded ?? {}) as { v?: unknown; id?: unknown };
+  if (typeof v !== 'string' || typeof id !== 'string' || Number.isNaN(Date.parse(v))) {
+    throw new InputError('Invalid cursor');
+  }
+  return { v, id };
+}
+
+// ==================================================
+// File: src/events.ts
+// ==================================================
+
+import { EventEmitter } from 'events';
+
+const ALL_TOPICS = '*';
+const HEARTBEAT_INTERVAL_MS = 15_000;
+
+/**
+ * In-process fan-out of change events to connected SSE clients.
+ *
+ * Events published under a topic, such as a user entity ref, only reach
+ * listeners of that topic. Without a topic, everyone listening without a
+ * topic receives them.
+ *
+ * With more than one backend replica, publish through the Backstage
+ * `EventsService` (or Postgres LISTEN/NOTIFY) instead, so every replica
+ * sees every change.
+ */
+export class EventBroker<TEvent> {
+  private readonly emitter = new EventEmitter();
+
+  constructor() {
+    // One listener per open browser tab
+    this.emitter.setMaxListeners(0);
+  }
+
+  publish(event: TEvent, topic: string = ALL_TOPICS): void {
+    this.emitter.emit(topic, event);
+  }
+
+  subscribe(listener: (event: TEvent) => void, topic: string = ALL_TOPICS): () => void {
+    this.emitter.on(topic, listener);
+    return () => this.emitter.off(topic, listener);
+  }
+}
+
+/**
+ * Serves a server-sent events stream until the client disconnects.
+ *
+ * Each event is written as `event: <type>` plus one JSON `data:` line, the
+ * format `EventStream` (utility-apis/event-stream.ts) reads.
+ *
+ * @example
+ * ```typescript
+ * router.get('/tasks/events', (req, res) => {
+ *   streamEvents(req, res, listener => events.subscribe(listener));
+ * });
+ * ```
+ */
+export function streamEvents<TEvent extends { type: string }>(
+  req: express.Request,
+  res: express.Response,
+  subscribe: (listener: (event: TEvent) => void) => () => void,
+): void {
+  res.writeHead(200, {
+    'Content-Type': 'text/event-stream',
+    'Cache-Control': 'no-cache',
+    Connection: 'keep-alive',
+    // Stop proxies such as nginx from buffering the stream
+    'X-Accel-Buffering': 'no',
+  });
+  res.flushHeaders();
+
+  const unsubscribe = subscribe(event => {
+    res.write(`event: ${event.type}\ndata: ${JSON.stringify(event)}\n\n`);
+  });
+
+  // Comment lines keep idle connections open through load balancers
+  const heartbeat = setInterval(() => res.write(': heartbeat\n\n'), HEARTBEAT_INTERVAL_MS);
+
+  req.on('close', () => {
+    clearInterval(heartbeat);
+    unsubscribe();
+  });
+}
+
+// ==================================================
+// File: src/index.ts
+// ==================================================
+
+/**
+ * export {
+ *   RequestValidationError,
+ *   parseRequest,
+ *   validationErrorHandler,
+ * } from './validation';
+ * export { encodeCursor, decodeCursor, type KeysetPosition } from './cursors';
+ * export { EventBroker, streamEvents } from './events';
+ */
+
+// ==================================================
+// File: src/cursors.test.ts
+// ==================================================
+
+/**
+ * import { InputError } from '@backstage/errors';
+ * import { decodeCursor, encodeCursor } from './cursors';
+ *
+ * describe('cursors', () => {
+ *   it('round-trips a keyset position', () => {
+ *     const position = { v: '2025-01-01T00:00:00.000Z', id: 'a' };
+ *     expect(decodeCursor(encodeCursor(position))).toEqual(position);
+ *   });
+ *
+ *   it.each(['not-a-cursor', Buffer.from('{"v":1}').toString('base64url')])(
+ *     'rejects %s with an InputError',
+ *     cursor => {
+ *       expect(() => decodeCursor(cursor)).toThrow(InputError);
+ *     },
+ *   );
+ * });
+ */
+
+// ==================================================
+// File: package.json
+// ==================================================
+
+/**
+ * {
+ *   "name": "@internal/backend-utils",
+ *   "version": "0.1.0",
+ *   "main": "src/index.ts",
+ *   "types": "src/index.ts",
+ *   "backstage": {
+ *     "role": "node-library"
+ *   },
+ *   "dependencies": {
+ *     "@backstage/errors": "^1.2.4",
+ *     "express": "^4.17.1",
+ *     "zod": "^3.22.4",
+ *     "zod-validation-error": "^3.0.0"
+ *   }
+ * }
+ */
+
+// ==================================================
+// Key Points
+// ==================================================
+
+/**
+ * 1. One copy of the plumbing
+ *    - Backend plugins import validation, cursors and SSE from here
+ *    - Plugin code keeps only its schemas, store and routes
+ *
+ * 2. Error responses match the frontend
+ *    - 422 bodies carry `details` for `ValidationError.fieldErrors`
+ *    - Malformed cursors are InputError (400)
+ *
+ * 3. Server-sent events
+ *    - Heartbeat comments keep idle connections alive
+ *    - Topics scope events, e.g. to one user's tabs and devices
+ *    - Single replica only with the in-process broker
+ */
@@ -0,0 +1,825 @@
+/**
+ * Catalog Enhancement Backend Plugin Example
+ *
+ * This example shows the backend behind `CatalogEnhancementApiClient`
+ * (utility-apis/catalog-enhancement-api-client.tsx). It computes the four
+ * DORA metrics per catalog entity from deployment and incident events.
+ *
+ * Features:
+ * - Pluggable event sources through a backend extension point
+ * - A file source module for local development and demos
+ * - Scheduled, idempotent ingestion into the plugin database
+ * - Deployment frequency, change failure rate, MTTR and lead time over
+ *   rolling 7, 30 and 90 day windows
+ * - DORA performance levels and a health score per entity
+ */
+
+// ==================================================
+// File: plugins/catalog-enhancement-node/src/index.ts
+// ==================================================
+
+/**
+ * Extension points live in a separate `-node` package, so event source
+ * modules don't depend on the plugin itself.
+ */
+
+import { createExtensionPoint } from '@backstage/backend-plugin-api';
+
+export interface DeploymentEvent {
+  kind: 'deployment';
+  /** Unique within the source */
+  id: string;
+  /** e.g. `component:default/payments-api` */
+  entityRef: string;
+  deployedAt: Date;
+  /** Time of the oldest commit in the deployment, for lead time */
+  firstCommitAt?: Date;
+  status: 'success' | 'failure';
+}
+
+export interface IncidentEvent {
+  kind: 'incident';
+  id: string;
+  entityRef: string;
+  openedAt: Date;
+  resolvedAt?: Date;
+  /** The deployment that caused the incident, for change failure rate */
+  causedByDeploymentId?: string;
+}
+
+export type DoraEvent = DeploymentEvent | IncidentEvent;
+
+/**
+ * A system that knows about deployments and incidents, such as a CD
+ * pipeline, Argo CD or an incident tool.
+ *
+ * `read` returns events created or changed since `since` (all events when
+ * undefined). Returning an event again is fine: ingestion is an upsert.
+ */
+export interface DoraEventSource {
+  readonly id: string;
+  read(since?: Date): Promise<DoraEvent[]>;
+}
+
+export interface DoraEventSourcesExtensionPoint {
+  addEventSource(source: DoraEventSource): void;
+}
+
+export const doraEventSourcesExtensionPoint =
+  createExtensionPoint<DoraEventSourcesExtensionPoint>({
+    id: 'catalog-enhancement.dora-event-sources',
+  });
+
+// ==================================================
+// File: migrations/20251022000000_init.js
+// ==================================================
+
+/**
+ * // @ts-check
+ *
+ * exports.up = async function up(knex) {
+ *   await knex.schema.createTable('dora_deployments', table => {
+ *     table.string('source_id').notNullable();
+ *     table.string('id').notNullable();
+ *     table.string('entity_ref').notNullable();
+ *     table.timestamp('deployed_at', { useTz: true }).notNullable();
+ *     table.timestamp('first_commit_at', { useTz: true }).nullable();
+ *     table.string('status', 16).notNullable();
+ *     table.primary(['source_id', 'id']);
+ *     table.index(['entity_ref', 'deployed_at'], 'dora_deployments_entity_idx');
+ *   });
+ *
+ *   await knex.schema.createTable('dora_incidents', table => {
+ *     table.string('source_id').notNullable();
+ *     table.string('id').notNullable();
+ *     table.string('entity_ref').notNullable();
+ *     table.timestamp('opened_at', { useTz: true }).notNullable();
+ *     table.timestamp('resolved_at', { useTz: true }).nullable();
+ *     table.string('deployment_id').nullable();
+ *     table.primary(['source_id', 'id']);
+ *     table.index(['entity_ref', 'opened_at'], 'dora_incidents_entity_idx');
+ *   });
+ *
+ *   await knex.schema.createTable('dora_sources', table => {
+ *     table.comment('Ingestion progress per event source');
+ *     table.string('source_id').primary();
+ *     table.timestamp('read_until', { useTz: true }).notNullable();
+ *   });
+ * };
+ *
+ * exports.down = async function down(knex) {
+ *   await knex.schema.dropTable('dora_sources');
+ *   await knex.schema.dropTable('dora_incidents');
+ *   await knex.schema.dropTable('dora_deployments');
+ * };
+ */
+
+// ==================================================
+// File: src/service/metrics.ts
+// ==================================================
+
+export type DoraLevel = 'elite' | 'high' | 'medium' | 'low';
+
+/** Matches EntityMetricsV2 in the frontend, with an ISO `updatedAt` */
+export interface EntityMetrics {
+  windowDays: number;
+  deploymentFrequency: number | null;
+  changeFailureRate: number | null;
+  meanTimeToRestore: number | null;
+  leadTime: number | null;
+  levels: Record<MetricName, DoraLevel | null>;
+  updatedAt: string;
+}
+
+type MetricName =
+  | 'deploymentFrequency'
+  | 'changeFailureRate'
+  | 'meanTimeToRestore'
+  | 'leadTime';
+
+const HOUR_MS = 60 * 60 * 1000;
+
+/**
+ * Upper bounds of each level, roughly following the DORA State of
+ * DevOps report. Deployment frequency is "higher is better", so its
+ * bounds are lower bounds.
+ */
+const LEVELS: Record<MetricName, [elite: number, high: number, medium: number]> = {
+  deploymentFrequency: [1, 1 / 7, 1 / 30], // per day
+  changeFailureRate: [0.05, 0.1, 0.15],
+  meanTimeToRestore: [1, 24, 24 * 7], // hours
+  leadTime: [24, 24 * 7, 24 * 30], // hours
+};
+
+const LEVEL_SCORES: Record<DoraLevel, number> = {
+  elite: 100,
+  high: 75,
+  medium: 50,
+  low: 25,
+};
+
+export function levelOf(metric: MetricName, value: number | null): DoraLevel | null {
+  if (value === null) {
+    return null;
+  }
+  const [elite, high, medium] = LEVELS[metric];
+  const better = metric === 'deploymentFrequency'
+    ? (bound: number) => value >= bound
+    : (bound: number) => value <= bound;
+  if (better(elite)) return 'elite';
+  if (better(high)) return 'high';
+  if (better(medium)) return 'medium';
+  return 'low';
+}
+
+/** Mean of the level scores of the metrics that have data */
+export function healthScore(metrics: Pick<EntityMetrics, 'levels'>): number | null {
+  const levels = Object.values(metrics.levels).filter(
+    (level): level is DoraLevel => level !== null,
+  );
+  if (levels.length === 0) {
+    return null;
+  }
+  return Math.round(
+    levels.reduce((sum, level) => sum + LEVEL_SCORES[level], 0) / levels.length,
+  );
+}
+
+function median(values: number[]): number {
+  const sorted = [...values].sort((a, b) => a - b);
+  const middle = Math.floor(sorted.length / 2);
+  return sorted.length % 2 ? sorted[middle] : (sorted[middle - 1] + sorted[middle]) / 2;
+}
+
+/**
+ * Computes the four metrics from the events of one entity in one window.
+ *
+ * - Deployment frequency: successful deployments per day over the whole
+ *   window
+ * - Change failure rate: failed deployments, or deployments that caused an
+ *   incident, divided by all deployments
+ * - Mean time to restore: mean of resolved incidents opened in the window
+ * - Lead time: median of first commit → successful deployment
+ *
+ * A metric without events in the window is null, not 0, so it counts as
+ * "no data" for its level and the health score.
+ */
+export function calculateMetrics(
+  deployments: Array<Omit<DeploymentEvent, 'kind'>>,
+  incidents: Array<Omit<IncidentEvent, 'kind'>>,
+  windowDays: number,
+  updatedAt: Date,
+): EntityMetrics {
+  const causedIncident = new Set(
+    incidents.map(i => i.causedByDeploymentId).filter(Boolean),
+  );
+  const failed = deployments.filter(
+    d => d.status === 'failure' || causedIncident.has(d.id),
+  );
+  const restoreHours = incidents
+    .filter(i => i.resolvedAt)
+    .map(i => (i.resolvedAt!.getTime() - i.openedAt.getTime()) / HOUR_MS);
+  const successful = deployments.filter(d => d.status === 'success');
+  const leadHours = successful
+    .filter(d => d.firstCommitAt)
+    .map(d => (d.deployedAt.getTime() - d.firstCommitAt!.getTime()) / HOUR_MS);
+
+  const values: Record<MetricName, number | null> = {
+    deploymentFrequency: deployments.length ? successful.length / windowDays : null,
+    changeFailureRate: deployments.length ? failed.length / deployments.length : null,
+    meanTimeToRestore: restoreHours.length
+      ? restoreHours.reduce((a, b) => a + b, 0) / restoreHours.length
+      : null,
+    leadTime: leadHours.length ? median(leadHours) : null,
+  };
+
+  return {
+    windowDays,
+    ...values,
+    levels: {
+      deploymentFrequency: levelOf('deploymentFrequency', values.deploymentFrequency),
+      changeFailureRate: levelOf('changeFailureRate', values.changeFailureRate),
+      meanTimeToRestore: levelOf('meanTimeToRestore', values.meanTimeToRestore),
+      leadTime: levelOf('leadTime', values.leadTime),
+    },
+    updatedAt: updatedAt.toISOString(),
+  };
+}
+
+// ==================================================
+// File: src/service/DatabaseDoraStore.ts
+// ==================================================
+
+import { Knex } from 'knex';
+import {
+  DatabaseService,
+  resolvePackagePath,
+} from '@backstage/backend-plugin-api';
+
+const migrationsDir = resolvePackagePath(
+  '@internal/plugin-catalog-enhancement-backend',
+  'migrations',
+);
+
+const toDate = (value: Date | string | null | undefined) =>
+  value ? new Date(value) : undefined;
+
+export class DatabaseDoraStore {
+  static async create(options: {
+    database: DatabaseService;
+  }): Promise<DatabaseDoraStore> {
+    const client = await options.database.getClient();
+
+    if (!options.database.migrations?.skip) {
+      await client.migrate.latest({ directory: migrationsDir });
+    }
+
+    return new DatabaseDoraStore(client);
+  }
+
+  private constructor(private readonly db: Knex) {}
+
+  async readUntil(sourceId: string): Promise<Date | undefined> {
+    const row = await this.db('dora_sources').where({ source_id: sourceId }).first();
+    return toDate(row?.read_until);
+  }
+
+  /** Upserts the events and moves the source's cursor in one transaction */
+  async ingest(sourceId: string, events: DoraEvent[], readUntil: Date): Promise<void> {
+    await this.db.transaction(async tx => {
+      for (const event of events) {
+        if (event.kind === 'deployment') {
+          await tx('dora_deployments')
+            .insert({
+              source_id: sourceId,
+              id: event.id,
+              entity_ref: event.entityRef,
+              deployed_at: event.deployedAt,
+              first_commit_at: event.firstCommitAt ?? null,
+              status: event.status,
+            })
+            .onConflict(['source_id', 'id'])
+            .merge();
+        } else {
+          await tx('dora_incidents')
+            .insert({
+              source_id: sourceId,
+              id: event.id,
+              entity_ref: event.entityRef,
+              opened_at: event.openedAt,
+              resolved_at: event.resolvedAt ?? null,
+              deployment_id: event.causedByDeploymentId ?? null,
+            })
+            .onConflict(['source_id', 'id'])
+            .merge();
+        }
+      }
+
+      await tx('dora_sources')
+        .insert({ source_id: sourceId, read_until: readUntil })
+        .onConflict('source_id')
+        .merge();
+    });
+  }
+
+  async eventsFor(entityRef: string, since: Date) {
+    const deployments = await this.db('dora_deployments')
+      .where({ entity_ref: entityRef })
+      .andWhere('deployed_at', '>=', since);
+    const incidents = await this.db('dora_incidents')
+      .where({ entity_ref: entityRef })
+      .andWhere('opened_at', '>=', since);
+
+    return {
+      deployments: deployments.map(row => ({
+        id: row.id,
+        entityRef: row.entity_ref,
+        deployedAt: new Date(row.deployed_at),
+        firstCommitAt: toDate(row.first_commit_at),
+        status: row.status,
+      })),
+      incidents: incidents.map(row => ({
+        id: row.id,
+        entityRef: row.entity_ref,
+        openedAt: new Date(row.opened_at),
+        resolvedAt: toDate(row.resolved_at),
+        causedByDeploymentId: row.deployment_id ?? undefined,
+      })),
+    };
+  }
+
+  /** Time of the most recent ingestion, across all sources */
+  async lastIngestedAt(): Promise<Date | undefined> {
+    const [row] = await this.db('dora_sources').max({ latest: 'read_until' });
+    return toDate(row?.latest);
+  }
+}
+
+// ==================================================
+// File: src/service/DoraIngester.ts
+// ==================================================
+
+import { LoggerService } from '@backstage/backend-plugin-api';
+
+/**
+ * Pulls new events from every source. A failing source is logged and
+ * retried on the next run; it doesn't stop the others.
+ */
+export class DoraIngester {
+  constructor(
+    private readonly options: {
+      store: DatabaseDoraStore;
+      sources: DoraEventSource[];
+      logger: LoggerService;
+    },
+  ) {}
+
+  async run(): Promise<void> {
+    const { store, sources, logger } = this.options;
+
+    for (const source of sources) {
+      const startedAt = new Date();
+      try {
+        const events = await source.read(await store.readUntil(source.id));
+        await store.ingest(source.id, events, startedAt);
+        logger.info(`Ingested ${events.length} DORA event(s) from ${source.id}`);
+      } catch (error) {
+        logger.error(`Failed to ingest DORA events from ${source.id}`, error as Error);
+      }
+    }
+  }
+}
+
+// ==================================================
+// File: src/service/router.ts
+// ==================================================
+
+import express from 'express';
+import Router from 'express-promise-router';
+import { z } from 'zod';
+import { InputError } from '@backstage/errors';
+import { parseEntityRef, stringifyEntityRef } from '@backstage/catalog-model';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const metricsQuerySchema = z.object({
+  entityRef: z.string(),
+  window: z.enum(['7', '30', '90']).default('30').transform(Number),
+});
+
+/**
+ * Normalized, so `Component:payments-api` and the full ref match. A ref
+ * parseEntityRef rejects is the caller's mistake, so a 400 rather than a 500.
+ */
+function normalizeEntityRef(ref: string): string {
+  try {
+    return stringifyEntityRef(parseEntityRef(ref));
+  } catch (error) {
+    throw new InputError(`Invalid entityRef "${ref}"`, error);
+  }
+}
+
+export async function createRouter(options: {
+  store: DatabaseDoraStore;
+}): Promise<express.Router> {
+  const { store } = options;
+
+  const router = Router();
+
+  router.get('/metrics', async (req, res) => {
+    const result = metricsQuerySchema.safeParse(req.query);
+    if (!result.success) {
+      throw new InputError(result.error.issues.map(i => i.message).join('; '));
+    }
+    const entityRef = normalizeEntityRef(result.data.entityRef);
+    const windowDays = result.data.window;
+
+    const { deployments, incidents } = await store.eventsFor(
+      entityRef,
+      new Date(Date.now() - windowDays * DAY_MS),
+    );
+    const metrics = calculateMetrics(
+      deployments,
+      incidents,
+      windowDays,
+      (await store.lastIngestedAt()) ?? new Date(),
+    );
+
+    res.json({ ...metrics, healthScore: healthScore(metrics) });
+  });
+
+  return router;
+}
+
+// ==================================================
+// File: src/plugin.ts
+// ==================================================
+
+import {
+  coreServices,
+  createBackendPlugin,
+} from '@backstage/backend-plugin-api';
+
+/**
+ * Catalog enhancement backend plugin
+ *
+ * Served under `/api/catalog-enhancement`. Event sources are added by
+ * modules through `doraEventSourcesExtensionPoint`.
+ *
+ * @public
+ */
+export const catalogEnhancementPlugin = createBackendPlugin({
+  pluginId: 'catalog-enhancement',  // ← MUST MATCH the discovery ID used by the frontend client
+  register(env) {
+    const sources: DoraEventSource[] = [];
+
+    env.registerExtensionPoint(doraEventSourcesExtensionPoint, {
+      addEventSource(source) {
+        if (sources.some(s => s.id === source.id)) {
+          throw new Error(`DORA event source '${source.id}' is already registered`);
+        }
+        sources.push(source);
+      },
+    });
+
+    env.registerInit({
+      deps: {
+        config: coreServices.rootConfig,
+        logger: coreServices.logger,
+        database: coreServices.database,
+        scheduler: coreServices.scheduler,
+        httpRouter: coreServices.httpRouter,
+      },
+      async init({ config, logger, database, scheduler, httpRouter }) {
+        const store = await DatabaseDoraStore.create({ database });
+        const ingester = new DoraIngester({ store, sources, logger });
+
+        if (sources.length === 0) {
+          logger.warn('No DORA event sources installed; metrics will be empty');
+        }
+
+        await scheduler.scheduleTask({
+          id: 'dora-ingestion',
+          frequency: {
+            minutes: config.getOptionalNumber('catalogEnhancement.dora.frequencyMinutes') ?? 10,
+          },
+          timeout: { minutes: 5 },
+          fn: () => ingester.run(),
+        });
+
+        httpRouter.use(await createRouter({ store }));
+      },
+    });
+  },
+});
+
+// ==================================================
+// File: plugins/catalog-enhancement-backend-module-file-events/src/module.ts
+// ==================================================
+
+/**
+ * Event source module that reads a YAML or JSON fixture file. Use it for
+ * local development, demos and tests; production installs add a module for
+ * their CD and incident tools instead.
+ */
+
+import fs from 'fs/promises';
+import yaml from 'yaml';
+import { createBackendModule } from '@backstage/backend-plugin-api';
+// import { doraEventSourcesExtensionPoint, DoraEvent, DoraEventSource } from '@internal/plugin-catalog-enhancement-node';
+
+const fileEventSchema = z.discriminatedUnion('kind', [
+  z.object({
+    kind: z.literal('deployment'),
+    id: z.string(),
+    entityRef: z.string(),
+    deployedAt: z.coerce.date(),
+    firstCommitAt: z.coerce.date().optional(),
+    status: z.enum(['success', 'failure']).default('success'),
+  }),
+  z.object({
+    kind: z.literal('incident'),
+    id: z.string(),
+    entityRef: z.string(),
+    openedAt: z.coerce.date(),
+    resolvedAt: z.coerce.date().optional(),
+    causedByDeploymentId: z.string().optional(),
+  }),
+]);
+
+/**
+ * Re-reads the whole file on every run; ingestion upserts, so unchanged
+ * events are no-ops and edits to the file show up on the next run.
+ */
+export class FileDoraEventSource implements DoraEventSource {
+  readonly id: string;
+
+  constructor(private readonly path: string) {
+    this.id = `file:${path}`;
+  }
+
+  async read(): Promise<DoraEvent[]> {
+    const content = await fs.readFile(this.path, 'utf8');
+    const parsed = z.array(fileEventSchema).safeParse(yaml.parse(content));
+    if (!parsed.success) {
+      throw new InputError(
+        `Invalid DORA event file ${this.path}: ${parsed.error.issues
+          .map(issue => `${issue.path.join('.')}: ${issue.message}`)
+          .join('; ')}`,
+      );
+    }
+    return parsed.data;
+  }
+}
+
+export const catalogEnhancementModuleFileEvents = createBackendModule({
+  pluginId: 'catalog-enhancement',
+  moduleId: 'file-events',
+  register(reg) {
+    reg.registerInit({
+      deps: {
+        config: coreServices.rootConfig,
+        eventSources: doraEventSourcesExtensionPoint,
+      },
+      async init({ config, eventSources }) {
+        for (const path of config.getOptionalStringArray('catalogEnhancement.dora.files') ?? []) {
+          eventSources.addEventSource(new FileDoraEventSource(path));
+        }
+      },
+    });
+  },
+});
+
+// ==================================================
+// File: examples/dora-events.yaml
+// ==================================================
+
+/**
+ * - kind: deployment
+ *   id: deploy-101
+ *   entityRef: component:default/payments-api
+ *   deployedAt: 2025-10-20T09:30:00Z
+ *   firstCommitAt: 2025-10-19T15:00:00Z
+ * - kind: deployment
+ *   id: deploy-102
+ *   entityRef: component:default/payments-api
+ *   deployedAt: 2025-10-21T11:00:00Z
+ *   firstCommitAt: 2025-10-21T08:10:00Z
+ * - kind: incident
+ *   id: INC-7
+ *   entityRef: component:default/payments-api
+ *   openedAt: 2025-10-21T11:20:00Z
+ *   resolvedAt: 2025-10-21T12:05:00Z
+ *   causedByDeploymentId: deploy-102
+ */
+
+// ==================================================
+// File: src/service/metrics.test.ts
+// ==================================================
+
+/**
+ * import { calculateMetrics, healthScore } from './metrics';
+ *
+ * const at = (iso: string) => new Date(iso);
+ *
+ * describe('calculateMetrics', () => {
+ *   const deployments = [
+ *     { id: 'd1', entityRef: 'component:default/a', status: 'success' as const,
+ *       deployedAt: at('2025-10-02T12:00:00Z'), firstCommitAt: at('2025-10-02T00:00:00Z') },
+ *     { id: 'd2', entityRef: 'component:default/a', status: 'success' as const,
+ *       deployedAt: at('2025-10-03T12:00:00Z'), firstCommitAt: at('2025-10-01T12:00:00Z') },
+ *     { id: 'd3', entityRef: 'component:default/a', status: 'failure' as const,
+ *       deployedAt: at('2025-10-04T12:00:00Z'), firstCommitAt: at('2025-10-04T11:00:00Z') },
+ *   ];
+ *   const incidents = [
+ *     { id: 'i1', entityRef: 'component:default/a', causedByDeploymentId: 'd2',
+ *       openedAt: at('2025-10-03T13:00:00Z'), resolvedAt: at('2025-10-03T15:00:00Z') },
+ *   ];
+ *
+ *   it('computes the four metrics', () => {
+ *     const metrics = calculateMetrics(deployments, incidents, 30, new Date());
+ *     expect(metrics.deploymentFrequency).toBeCloseTo(2 / 30); // d3 failed
+ *     expect(metrics.changeFailureRate).toBeCloseTo(2 / 3); // d2 caused i1, d3 failed
+ *     expect(metrics.meanTimeToRestore).toBe(2);
+ *     expect(metrics.leadTime).toBe(30); // median of 12h and 48h, d3 excluded
+ *     expect(metrics.levels).toEqual({
+ *       deploymentFrequency: 'medium',
+ *       changeFailureRate: 'low',
+ *       meanTimeToRestore: 'high',
+ *       leadTime: 'high',
+ *     });
+ *   });
+ *
+ *   it('returns null for metrics without data', () => {
+ *     const metrics = calculateMetrics([], [], 7, new Date());
+ *     expect(metrics.deploymentFrequency).toBeNull();
+ *     expect(metrics.changeFailureRate).toBeNull();
+ *     expect(metrics.meanTimeToRestore).toBeNull();
+ *     expect(metrics.leadTime).toBeNull();
+ *     expect(healthScore(metrics)).toBeNull();
+ *   });
+ *
+ *   it('scores health from the levels that have data', () => {
+ *     expect(healthScore({ levels: {
+ *       deploymentFrequency: 'elite', changeFailureRate: 'low',
+ *       meanTimeToRestore: null, leadTime: null,
+ *     } })).toBe(63);
+ *     expect(healthScore({ levels: {
+ *       deploymentFrequency: null, changeFailureRate: null,
+ *       meanTimeToRestore: null, leadTime: null,
+ *     } })).toBeNull();
+ *   });
+ * });
+ */
+
+// ==================================================
+// File: src/service/router.test.ts
+// ==================================================
+
+/**
+ * import { mockErrorHandler, mockServices, TestDatabases } from '@backstage/backend-test-utils';
+ * import express from 'express';
+ * import request from 'supertest';
+ * import { DatabaseDoraStore } from './DatabaseDoraStore';
+ * import { DoraIngester } from './DoraIngester';
+ * import { createRouter } from './router';
+ *
+ * describe('catalog enhancement router', () => {
+ *   const databases = TestDatabases.create({ ids: ['SQLITE_3'] });
+ *
+ *   it('serves metrics for ingested events', async () => {
+ *     const knex = await databases.init('SQLITE_3');
+ *     const store = await DatabaseDoraStore.create({
+ *       database: mockServices.database({ knex }),
+ *     });
+ *     const now = Date.now();
+ *     const hoursAgo = (h: number) => new Date(now - h * 60 * 60 * 1000);
+ *
+ *     await new DoraIngester({
+ *       store,
+ *       logger: mockServices.logger.mock(),
+ *       sources: [{
+ *         id: 'fixture',
+ *         read: async () => [
+ *           { kind: 'deployment', id: 'd1', entityRef: 'component:default/api',
+ *             deployedAt: hoursAgo(10), firstCommitAt: hoursAgo(12), status: 'success' },
+ *           { kind: 'incident', id: 'i1', entityRef: 'component:default/api',
+ *             openedAt: hoursAgo(9), resolvedAt: hoursAgo(8), causedByDeploymentId: 'd1' },
+ *         ],
+ *       }],
+ *     }).run();
+ *
+ *     const app = express().use(await createRouter({ store })).use(mockErrorHandler());
+ *     const response = await request(app).get('/metrics?entityRef=component:api&window=7');
+ *
+ *     expect(response.status).toBe(200);
+ *     expect(response.body).toMatchObject({
+ *       windowDays: 7,
+ *       changeFailureRate: 1,
+ *       meanTimeToRestore: 1,
+ *       leadTime: 2,
+ *     });
+ *     expect(response.body.healthScore).toEqual(expect.any(Number));
+ *   });
+ *
+ *   it('rejects unsupported windows', async () => {
+ *     const knex = await databases.init('SQLITE_3');
+ *     const store = await DatabaseDoraStore.create({
+ *       database: mockServices.database({ knex }),
+ *     });
+ *     const app = express().use(await createRouter({ store })).use(mockErrorHandler());
+ *
+ *     const response = await request(app).get('/metrics?entityRef=component:api&window=14');
+ *     expect(response.status).toBe(400);
+ *   });
+ *
+ *   it('rejects malformed entity refs', async () => {
+ *     const knex = await databases.init('SQLITE_3');
+ *     const store = await DatabaseDoraStore.create({
+ *       database: mockServices.database({ knex }),
+ *     });
+ *     const app = express().use(await createRouter({ store })).use(mockErrorHandler());
+ *
+ *     const response = await request(app).get('/metrics?entityRef=api');
+ *     expect(response.status).toBe(400);
+ *   });
+ * });
+ */
+
+// ==================================================
+// Installation
+// ==================================================
+
+/**
+ * // packages/backend/src/index.ts
+ * backend.add(import('@internal/plugin-catalog-enhancement-backend'));
+ * backend.add(import('@internal/plugin-catalog-enhancement-backend-module-file-events'));
+ *
+ * // app-config.local.yaml
+ * catalogEnhancement:
+ *   dora:
+ *     frequencyMinutes: 1
+ *     files:
+ *       - ./examples/dora-events.yaml
+ *
+ * // A production event source is just another module:
+ * export const catalogEnhancementModuleArgoEvents = createBackendModule({
+ *   pluginId: 'catalog-enhancement',
+ *   moduleId: 'argo-events',
+ *   register(reg) {
+ *     reg.registerInit({
+ *       deps: { eventSources: doraEventSourcesExtensionPoint },
+ *       async init({ eventSources }) {
+ *         eventSources.addEventSource(new ArgoDeploymentSource(...));
+ *       },
+ *     });
+ *   },
+ * });
+ */
+
+// ==================================================
+// Directory Structure
+// ==================================================
+
+/**
+ * plugins/
+ * ├── catalog-enhancement-node/            # Extension point + event types
+ * │   └── src/index.ts
+ * ├── catalog-enhancement-backend/
+ * │   ├── migrations/
+ * │   │   └── 20251022000000_init.js
+ * │   └── src/
+ * │       ├── index.ts                     # Default export: catalogEnhancementPlugin
+ * │       ├── plugin.ts                    # Extension point + scheduled ingestion
+ * │       └── service/
+ * │           ├── metrics.ts               # DORA calculations and levels
+ * │           ├── metrics.test.ts
+ * │           ├── DatabaseDoraStore.ts
+ * │           ├── DoraIngester.ts
+ * │           ├── router.ts                # GET /metrics
+ * │           └── router.test.ts
+ * └── catalog-enhancement-backend-module-file-events/
+ *     └── src/module.ts                    # FileDoraEventSource
+ */
+
+// ==================================================
+// Key Points
+// ==================================================
+
+/**
+ * 1. Event sources are modules
+ *    - The plugin owns `doraEventSourcesExtensionPoint`
+ *    - Each CD or incident tool is a `createBackendModule` that adds a source
+ *    - The file module makes the whole pipeline runnable locally
+ *
+ * 2. Ingestion is idempotent
+ *    - Upserts keyed by (source, event id), so replays and edits are safe
+ *    - Per-source cursor, moved in the same transaction as the events
+ *
+ * 3. Metrics are computed on read
+ *    - Any window (7/30/90 days) from the same stored events
+ *    - Null when a window has no data, instead of a misleading zero
+ *
+ * 4. Health score
+ *    - Mean of the DORA levels (elite 100 … low 25) of the available metrics
+ */
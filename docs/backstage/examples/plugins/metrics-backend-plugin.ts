@@ -0,0 +1,831 @@
+/**
+ * Metrics Backend Plugin Example
+ *
+ * This example shows the backend behind `MetricsApiClient`
+ * (utility-apis/metrics-api-client.tsx): a small time-series store for
+ * portal KPIs such as provisioning lead time or cluster capacity.
+ *
+ * Features:
+ * - Knex-backed store for metric definitions, tags and points
+ * - Server-side downsampling into time buckets
+ * - avg, max and p95 aggregation per bucket
+ * - Bucket size chosen from the requested number of points
+ * - Live points over server-sent events
+ * - Ingestion endpoint for other backend plugins and CI jobs
+ */
+
+// ==================================================
+// File: migrations/20251021000000_init.js
+// ==================================================
+
+/**
+ * Timestamps are stored as epoch milliseconds, so bucketing is plain
+ * integer arithmetic on both SQLite and Postgres.
+ *
+ * // @ts-check
+ *
+ * exports.up = async function up(knex) {
+ *   await knex.schema.createTable('metrics', table => {
+ *     table.comment('Metric definitions');
+ *     table.string('id').primary();
+ *     table.string('name').notNullable();
+ *     table.string('unit', 32).notNullable();
+ *   });
+ *
+ *   await knex.schema.createTable('metric_tags', table => {
+ *     table.string('metric_id').notNullable().references('metrics.id').onDelete('CASCADE');
+ *     table.string('tag', 255).notNullable();
+ *     table.primary(['metric_id', 'tag']);
+ *     table.index(['tag'], 'metric_tags_tag_idx');
+ *   });
+ *
+ *   await knex.schema.createTable('metric_points', table => {
+ *     table.string('metric_id').notNullable().references('metrics.id').onDelete('CASCADE');
+ *     table.bigInteger('ts').notNullable();
+ *     table.double('value').notNullable();
+ *     table.index(['metric_id', 'ts'], 'metric_points_metric_ts_idx');
+ *   });
+ * };
+ *
+ * exports.down = async function down(knex) {
+ *   await knex.schema.dropTable('metric_points');
+ *   await knex.schema.dropTable('metric_tags');
+ *   await knex.schema.dropTable('metrics');
+ * };
+ */
+
+// ==================================================
+// File: src/service/types.ts
+// ==================================================
+
+export type Aggregation = 'avg' | 'max' | 'p95';
+
+/** Matches Metric in the frontend, with an ISO timestamp */
+export interface Metric {
+  id: string;
+  name: string;
+  value: number;
+  unit: string;
+  tags: string[];
+  timestamp: string;
+}
+
+export interface MetricDefinition {
+  id: string;
+  name: string;
+  unit: string;
+  tags: string[];
+}
+
+export interface MetricPoint {
+  timestamp: number;
+  value: number;
+}
+
+export interface ListMetricsOptions {
+  id?: string;
+  tags?: string[];
+  start?: number;
+  end: number;
+}
+
+export interface SeriesOptions {
+  start: number;
+  end: number;
+  stepMs: number;
+  aggregation: Aggregation;
+}
+
+export interface MetricSeries {
+  id: string;
+  name: string;
+  unit: string;
+  aggregation: Aggregation;
+  stepMs: number;
+  points: Array<{ timestamp: string; value: number }>;
+}
+
+export interface MetricsStore {
+  /** Creates or updates the definition, then appends the points */
+  record(definition: MetricDefinition, points: MetricPoint[]): Promise<void>;
+  /** Latest point of each matching metric within the range */
+  listMetrics(options: ListMetricsOptions): Promise<Metric[]>;
+  getMetric(id: string): Promise<Metric | undefined>;
+  getSeries(id: string, options: SeriesOptions): Promise<MetricSeries | undefined>;
+  deleteOlderThan(timestamp: number): Promise<number>;
+}
+
+// ==================================================
+// File: src/service/downsampling.ts
+// ==================================================
+
+/** Bucket sizes the backend snaps to, so charts get round time labels */
+const STEPS_MS = [
+  60_000, // 1m
+  5 * 60_000,
+  15 * 60_000,
+  60 * 60_000, // 1h
+  6 * 60 * 60_000,
+  24 * 60 * 60_000, // 1d
+  7 * 24 * 60 * 60_000,
+];
+
+/**
+ * Smallest bucket size that keeps the series at or below `maxPoints`.
+ * Ranges too long for weekly buckets get a whole number of weeks.
+ */
+export function chooseStep(start: number, end: number, maxPoints: number): number {
+  const minStep = Math.ceil((end - start) / maxPoints);
+  const largest = STEPS_MS[STEPS_MS.length - 1];
+  return STEPS_MS.find(step => step >= minStep) ?? Math.ceil(minStep / largest) * largest;
+}
+
+/** Start of the bucket containing `timestamp`, aligned to the epoch */
+export function bucketStart(timestamp: number, stepMs: number): number {
+  return timestamp - (timestamp % stepMs);
+}
+
+/** Nearest-rank percentile; `values` must not be empty */
+export function percentile(values: number[], p: number): number {
+  const sorted = [...values].sort((a, b) => a - b);
+  const rank = Math.ceil((p / 100) * sorted.length);
+  return sorted[Math.max(0, rank - 1)];
+}
+
+// ==================================================
+// File: src/service/DatabaseMetricsStore.ts
+// ==================================================
+
+import { Knex } from 'knex';
+import {
+  DatabaseService,
+  resolvePackagePath,
+} from '@backstage/backend-plugin-api';
+import { InputError } from '@backstage/errors';
+
+/** Raw points read into memory for p95 where the database can't compute it */
+const MAX_PERCENTILE_POINTS = 100_000;
+
+const migrationsDir = resolvePackagePath(
+  '@internal/plugin-metrics-backend',
+  'migrations',
+);
+
+type MetricRow = { id: string; name: string; unit: string };
+
+type LatestRow = MetricRow & { ts: number | string; value: number };
+
+export class DatabaseMetricsStore implements MetricsStore {
+  static async create(options: {
+    database: DatabaseService;
+  }): Promise<DatabaseMetricsStore> {
+    const client = await options.database.getClient();
+
+    if (!options.database.migrations?.skip) {
+      await client.migrate.latest({ directory: migrationsDir });
+    }
+
+    return new DatabaseMetricsStore(client);
+  }
+
+  private constructor(private readonly db: Knex) {}
+
+  async record(definition: MetricDefinition, points: MetricPoint[]): Promise<void> {
+    await this.db.transaction(async tx => {
+      await tx('metrics')
+        .insert({ id: definition.id, name: definition.name, unit: definition.unit })
+        .onConflict('id')
+        .merge(['name', 'unit']);
+
+      await tx('metric_tags').where({ metric_id: definition.id }).delete();
+      if (definition.tags.length > 0) {
+        await tx('metric_tags').insert(
+          definition.tags.map(tag => ({ metric_id: definition.id, tag })),
+        );
+      }
+
+      if (points.length > 0) {
+        await tx.batchInsert(
+          'metric_points',
+          points.map(point => ({
+            metric_id: definition.id,
+            ts: point.timestamp,
+            value: point.value,
+          })),
+          500,
+        );
+      }
+    });
+  }
+
+  async listMetrics(options: ListMetricsOptions): Promise<Metric[]> {
+    const inRange = (query: Knex.QueryBuilder, alias: string) => {
+      query.where(`${alias}.ts`, '<=', options.end);
+      if (options.start !== undefined) {
+        query.where(`${alias}.ts`, '>=', options.start);
+      }
+      return query;
+    };
+
+    const query = this.db('metrics as m')
+      .join('metric_points as p', 'p.metric_id', 'm.id')
+      .select('m.id', 'm.name', 'm.unit', 'p.ts', 'p.value')
+      .where(
+        'p.ts',
+        inRange(
+          this.db('metric_points as latest')
+            .max('latest.ts')
+            .whereRaw('latest.metric_id = m.id'),
+          'latest',
+        ),
+      )
+      .orderBy('m.id');
+
+    if (options.id) {
+      query.where('m.id', options.id);
+    }
+
+    // A metric matches when it has every requested tag
+    for (const tag of options.tags ?? []) {
+      query.whereExists(
+        this.db('metric_tags as t').whereRaw('t.metric_id = m.id').andWhere('t.tag', tag),
+      );
+    }
+
+    const rows: LatestRow[] = await query;
+    const tags = await this.tagsOf(rows.map(row => row.id));
+
+    return rows.map(row => ({
+      id: row.id,
+      name: row.name,
+      unit: row.unit,
+      tags: tags.get(row.id) ?? [],
+      // Postgres returns bigint as string
+      timestamp: new Date(Number(row.ts)).toISOString(),
+      value: row.value,
+    }));
+  }
+
+  async getMetric(id: string): Promise<Metric | undefined> {
+    const [metric] = await this.listMetrics({ id, end: Date.now() });
+    return metric;
+  }
+
+  /**
+   * avg and max are aggregated by the database, and so is p95 on Postgres
+   * (`percentile_disc` is the same nearest-rank percentile as below).
+   * SQLite has no percentile function, so there the points of the range
+   * are read and aggregated per bucket here, up to MAX_PERCENTILE_POINTS.
+   */
+  async getSeries(id: string, options: SeriesOptions): Promise<MetricSeries | undefined> {
+    const metric = await this.db<MetricRow>('metrics').where({ id }).first();
+    if (!metric) {
+      return undefined;
+    }
+
+    const { start, end, stepMs, aggregation } = options;
+    const range = this.db('metric_points')
+      .where({ metric_id: id })
+      .whereBetween('ts', [start, end]);
+
+    let buckets: Array<{ bucket: number; value: number }>;
+
+    if (aggregation === 'p95' && !this.isPostgres()) {
+      buckets = await this.percentileBuckets(range, stepMs);
+    } else {
+      range.select(this.db.raw('ts - (ts % ?) AS bucket', [stepMs]));
+      if (aggregation === 'p95') {
+        range.select(this.db.raw('percentile_disc(0.95) WITHIN GROUP (ORDER BY value) AS value'));
+      } else if (aggregation === 'max') {
+        range.max({ value: 'value' });
+      } else {
+        range.avg({ value: 'value' });
+      }
+      const rows: Array<{ bucket: number | string; value: number | string }> = await range
+        .groupBy('bucket')
+        .orderBy('bucket');
+      buckets = rows.map(row => ({ bucket: Number(row.bucket), value: Number(row.value) }));
+    }
+
+    return {
+      id: metric.id,
+      name: metric.name,
+      unit: metric.unit,
+      aggregation,
+      stepMs,
+      points: buckets.map(({ bucket, value }) => ({
+        timestamp: new Date(bucket).toISOString(),
+        value,
+      })),
+    };
+  }
+
+  async deleteOlderThan(timestamp: number): Promise<number> {
+    return this.db('metric_points').where('ts', '<', timestamp).delete();
+  }
+
+  private isPostgres(): boolean {
+    return this.db.client.config.client === 'pg';
+  }
+
+  private async percentileBuckets(
+    range: Knex.QueryBuilder,
+    stepMs: number,
+  ): Promise<Array<{ bucket: number; value: number }>> {
+    const [{ count }] = await range.clone().count({ count: '*' });
+    if (Number(count) > MAX_PERCENTILE_POINTS) {
+      throw new InputError(
+        `p95 is limited to ${MAX_PERCENTILE_POINTS} points per request; narrow the range or use avg or max`,
+      );
+    }
+
+    const rows: Array<{ ts: number | string; value: number }> = await range
+      .select('ts', 'value')
+      .orderBy('ts');
+    const grouped = new Map<number, number[]>();
+    for (const row of rows) {
+      const bucket = bucketStart(Number(row.ts), stepMs);
+      const values = grouped.get(bucket);
+      if (values) {
+        values.push(row.value);
+      } else {
+        grouped.set(bucket, [row.value]);
+      }
+    }
+    return Array.from(grouped, ([bucket, values]) => ({
+      bucket,
+      value: percentile(values, 95),
+    }));
+  }
+
+  private async tagsOf(ids: string[]): Promise<Map<string, string[]>> {
+    const rows: Array<{ metric_id: string; tag: string }> = await this.db('metric_tags')
+      .whereIn('metric_id', ids)
+      .orderBy('tag');
+    const tags = new Map<string, string[]>();
+    for (const row of rows) {
+      const list = tags.get(row.metric_id);
+      if (list) {
+        list.push(row.tag);
+      } else {
+        tags.set(row.metric_id, [row.tag]);
+      }
+    }
+    return tags;
+  }
+}
+
+// ==================================================
+// File: src/service/events.ts
+// ==================================================
+
+import { EventBroker } from '@internal/backend-utils';  // plugins/backend-utils.ts
+
+/** Matches the live events read by MetricsApiClient.subscribeToMetrics() */
+export type MetricChangeEvent = { type: 'points'; metrics: Metric[] };
+
+export type MetricEventBroker = EventBroker<MetricChangeEvent>;
+
+// ==================================================
+// File: src/service/validation.ts
+// ==================================================
+
+import { z } from 'zod';
+
+const MAX_POINTS_LIMIT = 2000;
+
+const tagList = z
+  .string()
+  .optional()
+  .transform(value => (value ? value.split(',') : undefined));
+
+const timestamp = z.coerce.date().transform(date => date.getTime());
+
+/** Matches MetricFilters as serialized by MetricsApiClient.getMetrics() */
+export const listMetricsSchema = z.object({
+  tags: tagList,
+  start: timestamp.optional(),
+  end: timestamp.optional(),
+});
+
+/** Matches MetricSeriesQuery as serialized by MetricsApiClient.getSeries() */
+export const seriesSchema = z
+  .object({
+    start: timestamp,
+    end: timestamp.optional(),
+    aggregation: z.enum(['avg', 'max', 'p95']).default('avg'),
+    maxPoints: z.coerce.number().int().min(1).max(MAX_POINTS_LIMIT).default(200),
+  })
+  .refine(query => query.end === undefined || query.end > query.start, {
+    message: 'end must be after start',
+    path: ['end'],
+  });
+
+export const recordSchema = z
+  .object({
+    id: z.string().regex(/^[a-z0-9_.-]+$/, 'lowercase letters, digits, ".", "_" and "-" only'),
+    name: z.string().min(1).max(255),
+    unit: z.string().max(32),
+    tags: z.array(z.string().max(255)).max(20).default([]),
+    points: z
+      .array(z.object({ timestamp: timestamp, value: z.number().finite() }))
+      .max(10_000),
+  })
+  .strict();
+
+// ==================================================
+// File: src/service/router.ts
+// ==================================================
+
+import express from 'express';
+import Router from 'express-promise-router';
+import { HttpAuthService, LoggerService } from '@backstage/backend-plugin-api';
+import { NotFoundError } from '@backstage/errors';
+import {
+  parseRequest,
+  streamEvents,
+  validationErrorHandler,
+} from '@internal/backend-utils';
+
+export async function createRouter(options: {
+  store: MetricsStore;
+  events: MetricEventBroker;
+  httpAuth: HttpAuthService;
+  logger: LoggerService;
+}): Promise<express.Router> {
+  const { store, events, httpAuth, logger } = options;
+
+  const router = Router();
+  router.use(express.json({ limit: '5mb' }));
+
+  // Registered before /metrics/:id so "stream" is not treated as an id
+  router.get('/metrics/stream', (req, res) => {
+    streamEvents<MetricChangeEvent>(req, res, listener => events.subscribe(listener));
+  });
+
+  router.get('/metrics', async (req, res) => {
+    const query = parseRequest(listMetricsSchema, req.query);
+    res.json(
+      await store.listMetrics({
+        tags: query.tags,
+        start: query.start,
+        end: query.end ?? Date.now(),
+      }),
+    );
+  });
+
+  router.get('/metrics/:id', async (req, res) => {
+    const metric = await store.getMetric(req.params.id);
+    if (!metric) {
+      throw new NotFoundError(`Metric ${req.params.id} not found`);
+    }
+    res.json(metric);
+  });
+
+  router.get('/metrics/:id/series', async (req, res) => {
+    const query = parseRequest(seriesSchema, req.query);
+    const end = query.end ?? Date.now();
+    const series = await store.getSeries(req.params.id, {
+      start: query.start,
+      end,
+      stepMs: chooseStep(query.start, end, query.maxPoints),
+      aggregation: query.aggregation,
+    });
+    if (!series) {
+      throw new NotFoundError(`Metric ${req.params.id} not found`);
+    }
+    res.json(series);
+  });
+
+  // Recording is for other backend plugins and CI jobs, not for users
+  router.post('/metrics', async (req, res) => {
+    await httpAuth.credentials(req, { allow: ['service'] });
+    const body = parseRequest(recordSchema, req.body);
+    const { points, ...definition } = body;
+
+    await store.record(definition, points);
+    logger.debug(`Recorded ${points.length} point(s) for ${definition.id}`);
+
+    if (points.length > 0) {
+      const latest = points.reduce((a, b) => (b.timestamp > a.timestamp ? b : a));
+      events.publish({
+        type: 'points',
+        metrics: [
+          {
+            ...definition,
+            value: latest.value,
+            timestamp: new Date(latest.timestamp).toISOString(),
+          },
+        ],
+      });
+    }
+    res.status(204).end();
+  });
+
+  router.use(validationErrorHandler());
+
+  return router;
+}
+
+// ==================================================
+// File: src/plugin.ts
+// ==================================================
+
+import {
+  coreServices,
+  createBackendPlugin,
+} from '@backstage/backend-plugin-api';
+import { EventBroker } from '@internal/backend-utils';
+
+const DEFAULT_RETENTION_DAYS = 400;
+
+/**
+ * Metrics backend plugin
+ *
+ * Served under `/api/metrics`, which is what
+ * `discoveryApi.getBaseUrl('metrics')` resolves to in the frontend.
+ *
+ * @public
+ */
+export const metricsPlugin = createBackendPlugin({
+  pluginId: 'metrics',  // ← MUST MATCH the discovery ID used by MetricsApiClient
+  register(env) {
+    env.registerInit({
+      deps: {
+        config: coreServices.rootConfig,
+        logger: coreServices.logger,
+        database: coreServices.database,
+        scheduler: coreServices.scheduler,
+        httpAuth: coreServices.httpAuth,
+        httpRouter: coreServices.httpRouter,
+      },
+      async init({ config, logger, database, scheduler, httpAuth, httpRouter }) {
+        const store = await DatabaseMetricsStore.create({ database });
+        const events = new EventBroker<MetricChangeEvent>();
+
+        const retentionDays =
+          config.getOptionalNumber('metrics.retentionDays') ?? DEFAULT_RETENTION_DAYS;
+
+        await scheduler.scheduleTask({
+          id: 'metrics-retention',
+          frequency: { hours: 24 },
+          timeout: { minutes: 30 },
+          fn: async () => {
+            const deleted = await store.deleteOlderThan(
+              Date.now() - retentionDays * 24 * 60 * 60 * 1000,
+            );
+            logger.info(`Deleted ${deleted} metric point(s) older than ${retentionDays} days`);
+          },
+        });
+
+        httpRouter.use(await createRouter({ store, events, httpAuth, logger }));
+      },
+    });
+  },
+});
+
+// ==================================================
+// File: src/index.ts
+// ==================================================
+
+export { metricsPlugin as default } from './plugin';
+
+// ==================================================
+// File: src/service/downsampling.test.ts
+// ==================================================
+
+/**
+ * import { bucketStart, chooseStep, percentile } from './downsampling';
+ *
+ * describe('downsampling', () => {
+ *   it('picks the smallest step that fits maxPoints', () => {
+ *     const day = 24 * 60 * 60_000;
+ *     expect(chooseStep(0, day, 200)).toBe(15 * 60_000); // 96 points
+ *     expect(chooseStep(0, 30 * day, 200)).toBe(6 * 60 * 60_000); // 120 points
+ *   });
+ *
+ *   it('coarsens beyond weekly buckets instead of exceeding maxPoints', () => {
+ *     const day = 24 * 60 * 60_000;
+ *     expect(chooseStep(0, 3650 * day, 200)).toBe(21 * day); // 174 points
+ *   });
+ *
+ *   it('aligns buckets to the epoch', () => {
+ *     expect(bucketStart(90_500, 60_000)).toBe(60_000);
+ *   });
+ *
+ *   it('computes nearest-rank percentiles', () => {
+ *     const values = Array.from({ length: 100 }, (_, i) => i + 1);
+ *     expect(percentile(values, 95)).toBe(95);
+ *     expect(percentile([7], 95)).toBe(7);
+ *   });
+ * });
+ */
+
+// ==================================================
+// File: src/service/router.test.ts
+// ==================================================
+
+/**
+ * import {
+ *   mockCredentials,
+ *   mockErrorHandler,
+ *   mockServices,
+ *   TestDatabases,
+ * } from '@backstage/backend-test-utils';
+ * import express from 'express';
+ * import request from 'supertest';
+ * import { EventBroker } from '@internal/backend-utils';
+ * import { DatabaseMetricsStore } from './DatabaseMetricsStore';
+ * import type { MetricChangeEvent } from './events';
+ * import { createRouter } from './router';
+ *
+ * const minute = 60_000;
+ * const start = Date.UTC(2025, 0, 1);
+ *
+ * describe('metrics router', () => {
+ *   const databases = TestDatabases.create({ ids: ['SQLITE_3'] });
+ *   let app: express.Express;
+ *
+ *   beforeEach(async () => {
+ *     const knex = await databases.init('SQLITE_3');
+ *     const store = await DatabaseMetricsStore.create({
+ *       database: mockServices.database({ knex }),
+ *     });
+ *     app = express()
+ *       .use(
+ *         await createRouter({
+ *           store,
+ *           events: new EventBroker<MetricChangeEvent>(),
+ *           httpAuth: mockServices.httpAuth(),
+ *           logger: mockServices.logger.mock(),
+ *         }),
+ *       )
+ *       .use(mockErrorHandler());
+ *
+ *     // Two points per minute for ten minutes: 1..20
+ *     await request(app)
+ *       .post('/metrics')
+ *       .set('Authorization', mockCredentials.service.header())
+ *       .send({
+ *         id: 'provisioning.duration',
+ *         name: 'Provisioning duration',
+ *         unit: 's',
+ *         tags: ['provisioning'],
+ *         points: Array.from({ length: 20 }, (_, i) => ({
+ *           timestamp: new Date(start + i * 30_000).toISOString(),
+ *           value: i + 1,
+ *         })),
+ *       })
+ *       .expect(204);
+ *   });
+ *
+ *   it('returns the latest value filtered by tag', async () => {
+ *     const response = await request(app).get('/metrics?tags=provisioning');
+ *     expect(response.body).toEqual([
+ *       expect.objectContaining({ id: 'provisioning.duration', value: 20 }),
+ *     ]);
+ *     expect((await request(app).get('/metrics?tags=other')).body).toEqual([]);
+ *   });
+ *
+ *   it.each([
+ *     ['avg', 1.5],
+ *     ['max', 2],
+ *     ['p95', 2],
+ *   ])('downsamples to one-minute buckets with %s', async (aggregation, first) => {
+ *     const response = await request(app).get('/metrics/provisioning.duration/series').query({
+ *       start: new Date(start).toISOString(),
+ *       end: new Date(start + 10 * minute).toISOString(),
+ *       aggregation,
+ *       maxPoints: 10,
+ *     });
+ *     expect(response.body.stepMs).toBe(minute);
+ *     expect(response.body.points).toHaveLength(10);
+ *     expect(response.body.points[0]).toEqual({
+ *       timestamp: new Date(start).toISOString(),
+ *       value: first,
+ *     });
+ *   });
+ *
+ *   it('only accepts points from services', async () => {
+ *     const response = await request(app)
+ *       .post('/metrics')
+ *       .set('Authorization', mockCredentials.user.header())
+ *       .send({ id: 'x', name: 'x', unit: '', points: [] });
+ *     expect(response.status).toBe(403);
+ *   });
+ *
+ *   it('returns 404 for unknown metrics', async () => {
+ *     expect((await request(app).get('/metrics/unknown')).status).toBe(404);
+ *   });
+ * });
+ */
+
+// ==================================================
+// File: package.json
+// ==================================================
+
+/**
+ * {
+ *   "name": "@internal/plugin-metrics-backend",
+ *   "version": "0.1.0",
+ *   "main": "src/index.ts",
+ *   "types": "src/index.ts",
+ *   "backstage": {
+ *     "role": "backend-plugin",
+ *     "pluginId": "metrics"
+ *   },
+ *   "files": ["dist", "migrations"],
+ *   "dependencies": {
+ *     "@backstage/backend-plugin-api": "^1.0.0",
+ *     "@backstage/errors": "^1.2.4",
+ *     "@internal/backend-utils": "^0.1.0",
+ *     "express": "^4.17.1",
+ *     "express-promise-router": "^4.1.0",
+ *     "knex": "^3.0.0",
+ *     "zod": "^3.22.4"
+ *   },
+ *   "devDependencies": {
+ *     "@backstage/backend-test-utils": "^1.0.0",
+ *     "better-sqlite3": "^11.0.0",
+ *     "supertest": "^7.0.0"
+ *   }
+ * }
+ */
+
+// ==================================================
+// Installation
+// ==================================================
+
+/**
+ * // packages/backend/src/index.ts
+ * backend.add(import('@internal/plugin-metrics-backend'));
+ *
+ * // app-config.yaml
+ * metrics:
+ *   retentionDays: 400
+ *
+ * // Recording a point from another backend plugin, e.g. after provisioning
+ * const { token } = await auth.getPluginRequestToken({
+ *   onBehalfOf: await auth.getOwnServiceCredentials(),
+ *   targetPluginId: 'metrics',
+ * });
+ * await fetch(`${await discovery.getBaseUrl('metrics')}/metrics`, {
+ *   method: 'POST',
+ *   headers: { Authorization: `Bearer ${token}`, 'Content-Type': 'application/json' },
+ *   body: JSON.stringify({
+ *     id: 'provisioning.duration',
+ *     name: 'Provisioning duration',
+ *     unit: 's',
+ *     tags: ['provisioning', 'kpi'],
+ *     points: [{ timestamp: new Date().toISOString(), value: durationSeconds }],
+ *   }),
+ * });
+ */
+
+// ==================================================
+// Directory Structure
+// ==================================================
+
+/**
+ * plugins/metrics-backend/
+ * ├── package.json
+ * ├── migrations/
+ * │   └── 20251021000000_init.js
+ * └── src/
+ *     ├── index.ts               # Default export: metricsPlugin
+ *     ├── plugin.ts              # createBackendPlugin + retention task
+ *     └── service/
+ *         ├── types.ts
+ *         ├── downsampling.ts    # Step selection, buckets, percentiles
+ *         ├── downsampling.test.ts
+ *         ├── DatabaseMetricsStore.ts
+ *         ├── events.ts          # Live point events
+ *         ├── validation.ts
+ *         ├── router.ts          # /metrics routes
+ *         └── router.test.ts
+ */
+
+// ==================================================
+// Key Points
+// ==================================================
+
+/**
+ * 1. Downsample on the server
+ *    - Clients ask for at most `maxPoints`; the backend picks the bucket size
+ *    - Charts never download raw points
+ *
+ * 2. Aggregations
+ *    - avg and max: SQL GROUP BY on `ts - (ts % step)`
+ *    - p95: `percentile_disc` on Postgres; on SQLite nearest-rank per bucket
+ *      in the backend, capped at 100k raw points per request
+ *
+ * 3. Live points
+ *    - GET /metrics/stream pushes the latest recorded value per metric
+ *    - Validation, event broker and SSE come from @internal/backend-utils
+ *
+ * 4. Write access
+ *    - POST /metrics only accepts service credentials
+ *
+ * 5. Bounded storage
+ *    - Daily scheduler task drops points older than `metrics.retentionDays`
+ */
@@ -0,0 +1,773 @@
+/**
+ * Notification Backend Plugin Example
+ *
+ * This example shows the backend behind `NotificationApiClient`
+ * (utility-apis/notification-api-client.tsx): a stored notification
+ * history per user, with read state kept on the server so it is the same
+ * on every device the user is signed in on.
+ *
+ * Features:
+ * - Knex-backed history with schema migrations and a retention cleanup task
+ * - Per-user read state; every route is scoped to the signed-in user
+ * - Cursor pagination with type and unread filters
+ * - Total and unread counts grouped by notification type
+ * - Server-sent events per user, carrying the new unread count
+ * - Other backend plugins can notify users with a service token
+ */
+
+// ==================================================
+// File: migrations/20251020000000_init.js
+// ==================================================
+
+/**
+ * // @ts-check
+ *
+ * exports.up = async function up(knex) {
+ *   await knex.schema.createTable('notifications', table => {
+ *     table.comment('Notification history, one row per recipient');
+ *     table.string('id').primary();
+ *     table.string('user_ref', 255).notNullable();
+ *     table.string('type', 16).notNullable();
+ *     table.text('message').notNullable();
+ *     table.timestamp('created_at', { useTz: true }).notNullable();
+ *     table.timestamp('read_at', { useTz: true }).nullable();
+ *     table.index(['user_ref', 'created_at', 'id'], 'notifications_user_created_idx');
+ *     table.index(['user_ref', 'read_at'], 'notifications_user_read_idx');
+ *   });
+ * };
+ *
+ * exports.down = async function down(knex) {
+ *   await knex.schema.dropTable('notifications');
+ * };
+ */
+
+// ==================================================
+// File: src/service/types.ts
+// ==================================================
+
+export type NotificationType = 'info' | 'warning' | 'error' | 'success';
+
+/** Matches Notification in the frontend, with an ISO timestamp */
+export interface Notification {
+  id: string;
+  type: NotificationType;
+  message: string;
+  timestamp: string;
+  read: boolean;
+}
+
+export interface ListNotificationsOptions {
+  cursor?: string;
+  limit: number;
+  type?: NotificationType[];
+  unreadOnly?: boolean;
+}
+
+export interface NotificationPage {
+  items: Notification[];
+  nextCursor?: string;
+}
+
+export interface NotificationSummary {
+  unread: number;
+  byType: Record<NotificationType, { total: number; unread: number }>;
+}
+
+export interface NotificationStore {
+  list(userRef: string, options: ListNotificationsOptions): Promise<NotificationPage>;
+  summary(userRef: string): Promise<NotificationSummary>;
+  /** Unread count of each user, 0 for users without notifications */
+  unreadCounts(userRefs: string[]): Promise<Map<string, number>>;
+  /** One notification per recipient, in the order of `userRefs` */
+  create(
+    userRefs: string[],
+    input: { type: NotificationType; message: string },
+  ): Promise<Notification[]>;
+  /** Returns the ids that were unread before */
+  markRead(userRef: string, ids: string[]): Promise<string[]>;
+  clear(userRef: string): Promise<void>;
+  deleteOlderThan(date: Date): Promise<number>;
+}
+
+// ==================================================
+// File: src/service/DatabaseNotificationStore.ts
+// ==================================================
+
+import { Knex } from 'knex';
+import { v4 as uuid } from 'uuid';
+import {
+  DatabaseService,
+  resolvePackagePath,
+} from '@backstage/backend-plugin-api';
+import { decodeCursor, encodeCursor } from '@internal/backend-utils';  // plugins/backend-utils.ts
+
+const migrationsDir = resolvePackagePath(
+  '@internal/plugin-notification-backend',
+  'migrations',
+);
+
+const NOTIFICATION_TYPES: NotificationType[] = ['info', 'warning', 'error', 'success'];
+
+type NotificationRow = {
+  id: string;
+  user_ref: string;
+  type: NotificationType;
+  message: string;
+  created_at: Date | string;
+  read_at: Date | string | null;
+};
+
+function toNotification(row: NotificationRow): Notification {
+  return {
+    id: row.id,
+    type: row.type,
+    message: row.message,
+    timestamp: new Date(row.created_at).toISOString(),
+    read: row.read_at !== null,
+  };
+}
+
+export class DatabaseNotificationStore implements NotificationStore {
+  static async create(options: {
+    database: DatabaseService;
+  }): Promise<DatabaseNotificationStore> {
+    const client = await options.database.getClient();
+
+    if (!options.database.migrations?.skip) {
+      await client.migrate.latest({ directory: migrationsDir });
+    }
+
+    return new DatabaseNotificationStore(client);
+  }
+
+  private constructor(private readonly db: Knex) {}
+
+  async list(
+    userRef: string,
+    options: ListNotificationsOptions,
+  ): Promise<NotificationPage> {
+    const query = this.db<NotificationRow>('notifications')
+      .where({ user_ref: userRef })
+      .orderBy([
+        { column: 'created_at', order: 'desc' },
+        { column: 'id', order: 'desc' },
+      ])
+      .limit(options.limit + 1);
+
+    if (options.type?.length) {
+      query.whereIn('type', options.type);
+    }
+    if (options.unreadOnly) {
+      query.whereNull('read_at');
+    }
+    if (options.cursor) {
+      const { v, id } = decodeCursor(options.cursor);
+      query.where(builder =>
+        builder
+          .where('created_at', '<', new Date(v))
+          .orWhere(inner => inner.where('created_at', new Date(v)).andWhere('id', '<', id)),
+      );
+    }
+
+    const rows = await query;
+    const items = rows.slice(0, options.limit).map(toNotification);
+    const last = items[items.length - 1];
+
+    // Keyset cursor on (created_at, id), newest first
+    return {
+      items,
+      nextCursor:
+        rows.length > options.limit ? encodeCursor({ v: last.timestamp, id: last.id }) : undefined,
+    };
+  }
+
+  async summary(userRef: string): Promise<NotificationSummary> {
+    const rows: Array<{ type: NotificationType; total: number | string; unread: number | string }> =
+      await this.db('notifications')
+        .where({ user_ref: userRef })
+        .select(
+          'type',
+          this.db.raw('COUNT(*) AS total'),
+          this.db.raw('SUM(CASE WHEN read_at IS NULL THEN 1 ELSE 0 END) AS unread'),
+        )
+        .groupBy('type');
+
+    const byType = Object.fromEntries(
+      NOTIFICATION_TYPES.map(type => [type, { total: 0, unread: 0 }]),
+    ) as NotificationSummary['byType'];
+    for (const row of rows) {
+      // Postgres returns bigint aggregates as strings
+      byType[row.type] = { total: Number(row.total), unread: Number(row.unread) };
+    }
+
+    return {
+      unread: Object.values(byType).reduce((sum, group) => sum + group.unread, 0),
+      byType,
+    };
+  }
+
+  async unreadCounts(userRefs: string[]): Promise<Map<string, number>> {
+    const rows: Array<{ user_ref: string; unread: number | string }> = await this.db(
+      'notifications',
+    )
+      .whereIn('user_ref', userRefs)
+      .whereNull('read_at')
+      .select('user_ref')
+      .count({ unread: '*' })
+      .groupBy('user_ref');
+
+    const counts = new Map(userRefs.map(userRef => [userRef, 0]));
+    for (const row of rows) {
+      counts.set(row.user_ref, Number(row.unread));
+    }
+    return counts;
+  }
+
+  async create(
+    userRefs: string[],
+    input: { type: NotificationType; message: string },
+  ): Promise<Notification[]> {
+    const createdAt = new Date();
+    const rows: NotificationRow[] = userRefs.map(userRef => ({
+      id: uuid(),
+      user_ref: userRef,
+      type: input.type,
+      message: input.message,
+      created_at: createdAt,
+      read_at: null,
+    }));
+    // batchInsert runs in a transaction: all recipients or none
+    await this.db.batchInsert('notifications', rows, 100);
+    return rows.map(toNotification);
+  }
+
+  async markRead(userRef: string, ids: string[]): Promise<string[]> {
+    return this.db.transaction(async tx => {
+      const unread = await tx<NotificationRow>('notifications')
+        .where({ user_ref: userRef })
+        .whereIn('id', ids)
+        .whereNull('read_at')
+        .pluck('id');
+      if (unread.length > 0) {
+        await tx<NotificationRow>('notifications')
+          .whereIn('id', unread)
+          .update({ read_at: new Date() });
+      }
+      return unread;
+    });
+  }
+
+  async clear(userRef: string): Promise<void> {
+    await this.db<NotificationRow>('notifications').where({ user_ref: userRef }).delete();
+  }
+
+  async deleteOlderThan(date: Date): Promise<number> {
+    return this.db<NotificationRow>('notifications').where('created_at', '<', date).delete();
+  }
+}
+
+// ==================================================
+// File: src/service/events.ts
+// ==================================================
+
+import { EventBroker } from '@internal/backend-utils';
+
+/** Matches NotificationEvent in the frontend (minus the client-side resync) */
+export type NotificationChangeEvent =
+  | { type: 'created'; notification: Notification; unreadCount: number }
+  | { type: 'read'; ids: string[]; unreadCount: number }
+  | { type: 'cleared'; unreadCount: number };
+
+/**
+ * Fan-out of notification changes to the signed-in user's open tabs and
+ * devices. Events are published with the user entity ref as topic, so a
+ * listener only ever sees its own user's changes.
+ */
+export type NotificationEventBroker = EventBroker<NotificationChangeEvent>;
+
+// ==================================================
+// File: src/service/validation.ts
+// ==================================================
+
+import { z } from 'zod';
+
+const notificationType = z.enum(['info', 'warning', 'error', 'success']);
+
+/**
+ * Matches NewNotification in the frontend. `recipients` is only accepted
+ * from other backend plugins; users can only notify themselves.
+ */
+export const createNotificationSchema = z
+  .object({
+    type: notificationType,
+    message: z.string().trim().min(1).max(2000),
+    recipients: z.array(z.string().startsWith('user:')).min(1).max(500).optional(),
+  })
+  .strict();
+
+export const markReadSchema = z
+  .object({
+    ids: z.array(z.string()).min(1).max(100),
+  })
+  .strict();
+
+/** Matches NotificationQuery as serialized by NotificationApiClient */
+export const listNotificationsSchema = z.object({
+  cursor: z.string().optional(),
+  limit: z.coerce.number().int().min(1).max(100).default(20),
+  type: z
+    .string()
+    .optional()
+    .transform(value => (value ? value.split(',') : undefined))
+    .pipe(z.array(notificationType).optional()),
+  unread: z
+    .enum(['true', 'false'])
+    .optional()
+    .transform(value => value === 'true'),
+});
+
+// ==================================================
+// File: src/service/router.ts
+// ==================================================
+
+import express from 'express';
+import Router from 'express-promise-router';
+import {
+  AuthService,
+  HttpAuthService,
+  LoggerService,
+} from '@backstage/backend-plugin-api';
+import { InputError } from '@backstage/errors';
+import {
+  parseRequest,
+  streamEvents,
+  validationErrorHandler,
+} from '@internal/backend-utils';
+
+export async function createRouter(options: {
+  store: NotificationStore;
+  events: NotificationEventBroker;
+  auth: AuthService;
+  httpAuth: HttpAuthService;
+  logger: LoggerService;
+}): Promise<express.Router> {
+  const { store, events, auth, httpAuth, logger } = options;
+
+  /** The signed-in user; every user route is scoped to it */
+  const currentUser = async (req: express.Request) => {
+    const credentials = await httpAuth.credentials(req, { allow: ['user'] });
+    return credentials.principal.userEntityRef;
+  };
+
+  const unreadCount = async (userRef: string) =>
+    (await store.unreadCounts([userRef])).get(userRef) ?? 0;
+
+  const router = Router();
+  router.use(express.json());
+
+  router.get('/notifications/events', async (req, res) => {
+    const userRef = await currentUser(req);
+    streamEvents<NotificationChangeEvent>(req, res, listener =>
+      events.subscribe(listener, userRef),
+    );
+  });
+
+  router.get('/notifications', async (req, res) => {
+    const userRef = await currentUser(req);
+    const query = parseRequest(listNotificationsSchema, req.query);
+    res.json(
+      await store.list(userRef, {
+        cursor: query.cursor,
+        limit: query.limit,
+        type: query.type,
+        unreadOnly: query.unread,
+      }),
+    );
+  });
+
+  router.get('/notifications/summary', async (req, res) => {
+    res.json(await store.summary(await currentUser(req)));
+  });
+
+  router.post('/notifications', async (req, res) => {
+    const credentials = await httpAuth.credentials(req, { allow: ['user', 'service'] });
+    const body = parseRequest(createNotificationSchema, req.body);
+
+    let recipients: string[];
+    if (auth.isPrincipal(credentials, 'user')) {
+      if (body.recipients) {
+        throw new InputError('Users can only send notifications to themselves');
+      }
+      recipients = [credentials.principal.userEntityRef];
+    } else if (body.recipients) {
+      recipients = body.recipients;
+    } else {
+      throw new InputError('recipients is required for service requests');
+    }
+
+    const userRefs = [...new Set(recipients)];
+    const created = await store.create(userRefs, { type: body.type, message: body.message });
+    const unreadCounts = await store.unreadCounts(userRefs);
+    userRefs.forEach((userRef, index) => {
+      events.publish(
+        {
+          type: 'created',
+          notification: created[index],
+          unreadCount: unreadCounts.get(userRef) ?? 0,
+        },
+        userRef,
+      );
+    });
+
+    logger.info(`Created ${created.length} ${body.type} notification(s)`);
+    // A user notifying themselves gets their notification back
+    res
+      .status(201)
+      .json(auth.isPrincipal(credentials, 'user') ? created[0] : { items: created });
+  });
+
+  router.post('/notifications/read', async (req, res) => {
+    const userRef = await currentUser(req);
+    const body = parseRequest(markReadSchema, req.body);
+
+    const ids = await store.markRead(userRef, body.ids);
+    if (ids.length > 0) {
+      events.publish({ type: 'read', ids, unreadCount: await unreadCount(userRef) }, userRef);
+    }
+    res.status(204).end();
+  });
+
+  router.delete('/notifications', async (req, res) => {
+    const userRef = await currentUser(req);
+    await store.clear(userRef);
+    events.publish({ type: 'cleared', unreadCount: 0 }, userRef);
+    res.status(204).end();
+  });
+
+  router.use(validationErrorHandler());
+
+  return router;
+}
+
+// ==================================================
+// File: src/plugin.ts
+// ==================================================
+
+import {
+  coreServices,
+  createBackendPlugin,
+} from '@backstage/backend-plugin-api';
+import { EventBroker } from '@internal/backend-utils';
+
+const DEFAULT_RETENTION_DAYS = 90;
+
+/**
+ * Notification backend plugin
+ *
+ * Served under `/api/notification`, which is what
+ * `discoveryApi.getBaseUrl('notification')` resolves to in the frontend.
+ *
+ * @public
+ */
+export const notificationPlugin = createBackendPlugin({
+  pluginId: 'notification',  // ← MUST MATCH the discovery ID used by NotificationApiClient
+  register(env) {
+    env.registerInit({
+      deps: {
+        config: coreServices.rootConfig,
+        logger: coreServices.logger,
+        database: coreServices.database,
+        scheduler: coreServices.scheduler,
+        auth: coreServices.auth,
+        httpAuth: coreServices.httpAuth,
+        httpRouter: coreServices.httpRouter,
+      },
+      async init({ config, logger, database, scheduler, auth, httpAuth, httpRouter }) {
+        const store = await DatabaseNotificationStore.create({ database });
+        const events = new EventBroker<NotificationChangeEvent>();
+
+        const retentionDays =
+          config.getOptionalNumber('notification.retentionDays') ?? DEFAULT_RETENTION_DAYS;
+
+        await scheduler.scheduleTask({
+          id: 'notification-retention',
+          frequency: { hours: 24 },
+          timeout: { minutes: 10 },
+          fn: async () => {
+            const cutoff = new Date(Date.now() - retentionDays * 24 * 60 * 60 * 1000);
+            const deleted = await store.deleteOlderThan(cutoff);
+            logger.info(`Deleted ${deleted} notification(s) older than ${retentionDays} days`);
+          },
+        });
+
+        httpRouter.use(await createRouter({ store, events, auth, httpAuth, logger }));
+      },
+    });
+  },
+});
+
+// ==================================================
+// File: src/index.ts
+// ==================================================
+
+export { notificationPlugin as default } from './plugin';
+
+// ==================================================
+// File: src/service/router.test.ts
+// ==================================================
+
+/**
+ * import {
+ *   mockCredentials,
+ *   mockErrorHandler,
+ *   mockServices,
+ *   TestDatabases,
+ * } from '@backstage/backend-test-utils';
+ * import express from 'express';
+ * import request from 'supertest';
+ * import { EventBroker } from '@internal/backend-utils';
+ * import { DatabaseNotificationStore } from './DatabaseNotificationStore';
+ * import type { NotificationChangeEvent, NotificationEventBroker } from './events';
+ * import { createRouter } from './router';
+ *
+ * const alice = 'user:default/alice';
+ * const bob = 'user:default/bob';
+ *
+ * describe('notification router', () => {
+ *   const databases = TestDatabases.create({ ids: ['SQLITE_3'] });
+ *   let app: express.Express;
+ *   let events: NotificationEventBroker;
+ *
+ *   beforeEach(async () => {
+ *     const knex = await databases.init('SQLITE_3');
+ *     const store = await DatabaseNotificationStore.create({
+ *       database: mockServices.database({ knex }),
+ *     });
+ *     events = new EventBroker<NotificationChangeEvent>();
+ *     app = express()
+ *       .use(
+ *         await createRouter({
+ *           store,
+ *           events,
+ *           auth: mockServices.auth(),
+ *           httpAuth: mockServices.httpAuth(),
+ *           logger: mockServices.logger.mock(),
+ *         }),
+ *       )
+ *       .use(mockErrorHandler());
+ *   });
+ *
+ *   const as = (userRef: string) => mockCredentials.user.header(userRef);
+ *
+ *   it('keeps history and read state per user', async () => {
+ *     const created = await request(app)
+ *       .post('/notifications')
+ *       .set('Authorization', as(alice))
+ *       .send({ type: 'info', message: 'Build finished' });
+ *     expect(created.status).toBe(201);
+ *
+ *     const bobs = await request(app).get('/notifications').set('Authorization', as(bob));
+ *     expect(bobs.body.items).toEqual([]);
+ *
+ *     await request(app)
+ *       .post('/notifications/read')
+ *       .set('Authorization', as(alice))
+ *       .send({ ids: [created.body.id] });
+ *
+ *     const summary = await request(app)
+ *       .get('/notifications/summary')
+ *       .set('Authorization', as(alice));
+ *     expect(summary.body.unread).toBe(0);
+ *     expect(summary.body.byType.info).toEqual({ total: 1, unread: 0 });
+ *   });
+ *
+ *   it('ignores ids that belong to another user', async () => {
+ *     const created = await request(app)
+ *       .post('/notifications')
+ *       .set('Authorization', as(alice))
+ *       .send({ type: 'warning', message: 'Quota at 90%' });
+ *
+ *     await request(app)
+ *       .post('/notifications/read')
+ *       .set('Authorization', as(bob))
+ *       .send({ ids: [created.body.id] });
+ *
+ *     const list = await request(app)
+ *       .get('/notifications?unread=true')
+ *       .set('Authorization', as(alice));
+ *     expect(list.body.items).toHaveLength(1);
+ *   });
+ *
+ *   it('filters by type and pages with a cursor', async () => {
+ *     for (const type of ['info', 'error', 'info', 'info']) {
+ *       await request(app)
+ *         .post('/notifications')
+ *         .set('Authorization', as(alice))
+ *         .send({ type, message: type });
+ *     }
+ *
+ *     const first = await request(app)
+ *       .get('/notifications?type=info&limit=2')
+ *       .set('Authorization', as(alice));
+ *     expect(first.body.items).toHaveLength(2);
+ *
+ *     const second = await request(app)
+ *       .get(`/notifications?type=info&limit=2&cursor=${first.body.nextCursor}`)
+ *       .set('Authorization', as(alice));
+ *     expect(second.body.items).toHaveLength(1);
+ *     expect(second.body.nextCursor).toBeUndefined();
+ *   });
+ *
+ *   it('publishes read state to the user with the new unread count', async () => {
+ *     const listener = jest.fn();
+ *     events.subscribe(listener, alice);
+ *
+ *     const created = await request(app)
+ *       .post('/notifications')
+ *       .set('Authorization', as(alice))
+ *       .send({ type: 'success', message: 'Deployed' });
+ *     await request(app)
+ *       .post('/notifications/read')
+ *       .set('Authorization', as(alice))
+ *       .send({ ids: [created.body.id] });
+ *
+ *     expect(listener.mock.calls.map(([event]) => [event.type, event.unreadCount])).toEqual([
+ *       ['created', 1],
+ *       ['read', 0],
+ *     ]);
+ *   });
+ *
+ *   it('lets services notify other users', async () => {
+ *     const listener = jest.fn();
+ *     events.subscribe(listener, bob);
+ *
+ *     const response = await request(app)
+ *       .post('/notifications')
+ *       .set('Authorization', mockCredentials.service.header())
+ *       .send({ type: 'info', message: 'Welcome', recipients: [alice, bob, bob] });
+ *     expect(response.status).toBe(201);
+ *     expect(response.body.items).toHaveLength(2);
+ *     expect(listener).toHaveBeenCalledWith(
+ *       expect.objectContaining({ type: 'created', unreadCount: 1 }),
+ *     );
+ *   });
+ *
+ *   it('rejects recipients from users', async () => {
+ *     const response = await request(app)
+ *       .post('/notifications')
+ *       .set('Authorization', as(alice))
+ *       .send({ type: 'info', message: 'Hi', recipients: [bob] });
+ *     expect(response.status).toBe(400);
+ *   });
+ * });
+ */
+
+// ==================================================
+// File: package.json
+// ==================================================
+
+/**
+ * {
+ *   "name": "@internal/plugin-notification-backend",
+ *   "version": "0.1.0",
+ *   "main": "src/index.ts",
+ *   "types": "src/index.ts",
+ *   "backstage": {
+ *     "role": "backend-plugin",
+ *     "pluginId": "notification"
+ *   },
+ *   "files": ["dist", "migrations"],
+ *   "dependencies": {
+ *     "@backstage/backend-plugin-api": "^1.0.0",
+ *     "@backstage/errors": "^1.2.4",
+ *     "@internal/backend-utils": "^0.1.0",
+ *     "express": "^4.17.1",
+ *     "express-promise-router": "^4.1.0",
+ *     "knex": "^3.0.0",
+ *     "uuid": "^9.0.0",
+ *     "zod": "^3.22.4"
+ *   },
+ *   "devDependencies": {
+ *     "@backstage/backend-test-utils": "^1.0.0",
+ *     "better-sqlite3": "^11.0.0",
+ *     "supertest": "^7.0.0"
+ *   }
+ * }
+ */
+
+// ==================================================
+// Installation
+// ==================================================
+
+/**
+ * // packages/backend/src/index.ts
+ * backend.add(import('@internal/plugin-notification-backend'));
+ *
+ * // app-config.yaml
+ * notification:
+ *   retentionDays: 90
+ *
+ * // Notifying a user from another backend plugin
+ * const { token } = await auth.getPluginRequestToken({
+ *   onBehalfOf: await auth.getOwnServiceCredentials(),
+ *   targetPluginId: 'notification',
+ * });
+ * await fetch(`${await discovery.getBaseUrl('notification')}/notifications`, {
+ *   method: 'POST',
+ *   headers: { Authorization: `Bearer ${token}`, 'Content-Type': 'application/json' },
+ *   body: JSON.stringify({
+ *     type: 'success',
+ *     message: 'Your environment is ready',
+ *     recipients: ['user:default/alice'],
+ *   }),
+ * });
+ */
+
+// ==================================================
+// Directory Structure
+// ==================================================
+
+/**
+ * plugins/notification-backend/
+ * ├── package.json
+ * ├── migrations/
+ * │   └── 20251020000000_init.js
+ * └── src/
+ *     ├── index.ts               # Default export: notificationPlugin
+ *     ├── plugin.ts              # createBackendPlugin + retention task
+ *     └── service/
+ *         ├── types.ts
+ *         ├── DatabaseNotificationStore.ts
+ *         ├── events.ts          # Change event types, per-user topics
+ *         ├── validation.ts
+ *         ├── router.ts          # /notifications routes
+ *         └── router.test.ts
+ */
+
+// ==================================================
+// Key Points
+// ==================================================
+
+/**
+ * 1. Scoped to the signed-in user
+ *    - `httpAuth.credentials(req, { allow: ['user'] })` on every user route
+ *    - Ids of other users' notifications are silently ignored
+ *
+ * 2. Read state lives on the server
+ *    - `read_at` per row, so every device sees the same state
+ *    - Read and clear changes are pushed to the user's other tabs/devices
+ *
+ * 3. Events carry the unread count
+ *    - Badges show `unreadCount` from the latest event, no client counting
+ *
+ * 4. Grouped by type
+ *    - GET /notifications/summary returns total and unread per type
+ *    - GET /notifications?type=error,warning filters the history
+ *
+ * 5. History is bounded
+ *    - A daily scheduler task deletes notifications older than
+ *      `notification.retentionDays`
+ *
+ * 6. Fan-out to many recipients
+ *    - One batch insert and one grouped unread count per request
+ */
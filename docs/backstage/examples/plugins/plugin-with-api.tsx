@@ -9,10 +9,12 @@
 // File: src/api/types.ts
 // ==================================================
 
+export type TaskStatus = 'pending' | 'in-progress' | 'completed';
+
 export interface TaskData {
   id: string;
   title: string;
-  status: 'pending' | 'in-progress' | 'completed';
+  status: TaskStatus;
   createdAt: Date;
   updatedAt: Date;
 }
@@ -23,15 +25,80 @@ export interface CreateTaskRequest {
 
 export interface UpdateTaskRequest {
   title?: string;
-  status?: 'pending' | 'in-progress' | 'completed';
+  status?: TaskStatus;
+}
+
+export interface MutationOptions {
+  /**
+   * The `updatedAt` of the task as last seen by the caller. The backend
+   * rejects the change with 409 if the task was modified since.
+   */
+  expectedUpdatedAt?: Date | string;
+}
+
+export interface TaskQuery {
+  /** Opaque cursor from a previous page's `nextCursor` */
+  cursor?: string;
+
+  /** Page size (server default: 25, max: 100) */
+  limit?: number;
+
+  /** Only return tasks with one of these statuses */
+  status?: TaskStatus[];
+
+  /** Case-insensitive substring match on the title */
+  search?: string;
+
+  /** Server-side sort order (default: createdAt desc) */
+  orderBy?: {
+    field: 'createdAt' | 'updatedAt';
+    order: 'asc' | 'desc';
+  };
+}
+
+/** Last parameter of read methods; `useApiQuery` passes its signal here */
+export interface CallOptions {
+  signal?: AbortSignal;
+}
+
+export interface TaskPage {
+  items: TaskData[];
+
+  /** Cursor for the next page; undefined on the last page */
+  nextCursor?: string;
+
+  /** Number of tasks matching the filters across all pages */
+  totalCount: number;
 }
 
+/**
+ * Live change events pushed by the backend.
+ *
+ * `resync` is emitted by the client after a reconnect: events may have
+ * been missed while disconnected, so consumers should refetch.
+ */
+export type TaskEvent =
+  | { type: 'created'; task: TaskData }
+  | { type: 'updated'; task: TaskData }
+  | { type: 'deleted'; id: string }
+  | { type: 'resync' };
+
 // ==================================================
 // File: src/api/TaskApi.ts
 // ==================================================
 
 import { createApiRef } from '@backstage/core-plugin-api';
-import type { TaskData, CreateTaskRequest, UpdateTaskRequest } from './types';
+import type { Observable } from '@backstage/types';
+import type {
+  TaskData,
+  TaskEvent,
+  TaskPage,
+  TaskQuery,
+  CallOptions,
+  CreateTaskRequest,
+  UpdateTaskRequest,
+  MutationOptions,
+} from './types';
 
 /**
  * API for managing tasks
@@ -39,8 +106,8 @@ import type { TaskData, CreateTaskRequest, UpdateTaskRequest } from './types';
  * @public
  */
 export interface TaskApi {
-  /** Get all tasks */
-  getTasks(): Promise<TaskData[]>;
+  /** Get one page of tasks matching the query */
+  getTasks(query?: TaskQuery, options?: CallOptions): Promise<TaskPage>;
 
   /** Get a specific task */
   getTask(id: string): Promise<TaskData>;
@@ -49,10 +116,22 @@ export interface TaskApi {
   createTask(request: CreateTaskRequest): Promise<TaskData>;
 
   /** Update an existing task */
-  updateTask(id: string, request: UpdateTaskRequest): Promise<TaskData>;
+  updateTask(
+    id: string,
+    request: UpdateTaskRequest,
+    options?: MutationOptions,
+  ): Promise<TaskData>;
 
   /** Delete a task */
-  deleteTask(id: string): Promise<void>;
+  deleteTask(id: string, options?: MutationOptions): Promise<void>;
+
+  /**
+   * Live task changes made by anyone.
+   *
+   * The connection is shared by all subscribers, opened on the first
+   * subscription and closed when the last one unsubscribes.
+   */
+  tasks$(): Observable<TaskEvent>;
 }
 
 export const taskApiRef = createApiRef<TaskApi>({
@@ -67,85 +146,97 @@ import {
   DiscoveryApi,
   FetchApi,
 } from '@backstage/core-plugin-api';
-import { TaskApi, TaskData, CreateTaskRequest, UpdateTaskRequest } from './TaskApi';
+import { BaseApiClient } from '@internal/api-client';  // utility-apis/base-api-client.ts
+import { EventStream } from '@internal/api-client';  // utility-apis/event-stream.ts
+import { BatchLoader, BatchResponse, fromBatchResponse } from '@internal/api-client';  // utility-apis/api-batching.ts
+import type { Observable } from '@backstage/types';
+import { TaskApi } from './TaskApi';
+import {
+  TaskData,
+  TaskEvent,
+  TaskPage,
+  TaskQuery,
+  CallOptions,
+  CreateTaskRequest,
+  UpdateTaskRequest,
+  MutationOptions,
+} from './types';
+
+/** Conditional request header carrying the expected `updatedAt` */
+function ifMatch(options?: MutationOptions): Record<string, string> {
+  return options?.expectedUpdatedAt
+    ? { 'If-Match': `"${new Date(options.expectedUpdatedAt).toISOString()}"` }
+    : {};
+}
 
-export class TaskApiClient implements TaskApi {
-  private readonly discoveryApi: DiscoveryApi;
-  private readonly fetchApi: FetchApi;
+export class TaskApiClient extends BaseApiClient implements TaskApi {
+  private readonly eventStream: EventStream<TaskEvent>;
+
+  /** getTask() calls made in the same tick share one batch request */
+  private readonly taskLoader = new BatchLoader<string, TaskData>(
+    async ids => {
+      const response = await this.post<BatchResponse<TaskData>>('/tasks/batch-get', {
+        body: { ids },
+        idempotent: true,
+      });
+      return fromBatchResponse(ids, response, { method: 'POST', url: '/tasks/batch-get' });
+    },
+    { maxBatchSize: 100 },  // ← MUST MATCH the backend's batchGetSchema limit
+  );
 
   constructor(options: {
     discoveryApi: DiscoveryApi;
     fetchApi: FetchApi;
   }) {
-    this.discoveryApi = options.discoveryApi;
-    this.fetchApi = options.fetchApi;
-  }
-
-  private async getBaseUrl(): Promise<string> {
-    return await this.discoveryApi.getBaseUrl('task');
+    super({ ...options, pluginId: 'task' });
+    this.eventStream = new EventStream<TaskEvent>({
+      getUrl: async () => `${await this.getBaseUrl()}/tasks/events`,
+      fetch: (input, init) => options.fetchApi.fetch(input, init),
+      resyncEvent: { type: 'resync' },
+    });
   }
 
-  async getTasks(): Promise<TaskData[]> {
-    const baseUrl = await this.getBaseUrl();
-    const response = await this.fetchApi.fetch(`${baseUrl}/tasks`);
-
-    if (!response.ok) {
-      throw new Error(`Failed to fetch tasks: ${response.statusText}`);
-    }
-
-    return await response.json();
+  async getTasks(query: TaskQuery = {}, options: CallOptions = {}): Promise<TaskPage> {
+    return this.get<TaskPage>('/tasks', {
+      query: {
+        cursor: query.cursor,
+        limit: query.limit,
+        status: query.status?.length ? query.status.join(',') : undefined,
+        search: query.search || undefined,
+        orderBy: query.orderBy?.field,
+        order: query.orderBy?.order,
+      },
+      signal: options.signal,
+    });
   }
 
   async getTask(id: string): Promise<TaskData> {
-    const baseUrl = await this.getBaseUrl();
-    const response = await this.fetchApi.fetch(`${baseUrl}/tasks/${id}`);
-
-    if (!response.ok) {
-      throw new Error(`Failed to fetch task: ${response.statusText}`);
-    }
-
-    return await response.json();
+    return this.taskLoader.load(id);
   }
 
   async createTask(request: CreateTaskRequest): Promise<TaskData> {
-    const baseUrl = await this.getBaseUrl();
-    const response = await this.fetchApi.fetch(`${baseUrl}/tasks`, {
-      method: 'POST',
-      headers: { 'Content-Type': 'application/json' },
-      body: JSON.stringify(request),
-    });
-
-    if (!response.ok) {
-      throw new Error(`Failed to create task: ${response.statusText}`);
-    }
-
-    return await response.json();
+    return this.post<TaskData>('/tasks', { body: request });
   }
 
-  async updateTask(id: string, request: UpdateTaskRequest): Promise<TaskData> {
-    const baseUrl = await this.getBaseUrl();
-    const response = await this.fetchApi.fetch(`${baseUrl}/tasks/${id}`, {
-      method: 'PATCH',
-      headers: { 'Content-Type': 'application/json' },
-      body: JSON.stringify(request),
+  async updateTask(
+    id: string,
+    request: UpdateTaskRequest,
+    options?: MutationOptions,
+  ): Promise<TaskData> {
+    return this.patch<TaskData>(`/tasks/${encodeURIComponent(id)}`, {
+      body: request,
+      headers: ifMatch(options),
     });
-
-    if (!response.ok) {
-      throw new Error(`Failed to update task: ${response.statusText}`);
-    }
-
-    return await response.json();
   }
 
-  async deleteTask(id: string): Promise<void> {
-    const baseUrl = await this.getBaseUrl();
-    const response = await this.fetchApi.fetch(`${baseUrl}/tasks/${id}`, {
-      method: 'DELETE',
+  async deleteTask(id: string, options?: MutationOptions): Promise<void> {
+    await this.delete(`/tasks/${encodeURIComponent(id)}`, {
+      headers: ifMatch(options),
     });
+  }
 
-    if (!response.ok) {
-      throw new Error(`Failed to delete task: ${response.statusText}`);
-    }
+  tasks$(): Observable<TaskEvent> {
+    return this.eventStream.events$();
   }
 }
 
@@ -155,7 +246,16 @@ export class TaskApiClient implements TaskApi {
 
 export { taskApiRef, type TaskApi } from './TaskApi';
 export { TaskApiClient } from './TaskApiClient';
-export type { TaskData, CreateTaskRequest, UpdateTaskRequest } from './types';
+export type {
+  TaskData,
+  TaskEvent,
+  TaskStatus,
+  MutationOptions,
+  TaskQuery,
+  TaskPage,
+  CreateTaskRequest,
+  UpdateTaskRequest,
+} from './types';
 
 // ==================================================
 // File: src/plugin.ts
@@ -212,7 +312,7 @@ export { taskPlugin as default } from './plugin';
 
 // Export API for use by other plugins
 export { taskApiRef, type TaskApi } from './api';
-export type { TaskData } from './api';
+export type { TaskData, TaskEvent, TaskQuery, TaskPage } from './api';
 
 // ==================================================
 // File: src/index.ts (Legacy support)
@@ -222,14 +322,99 @@ export type { TaskData } from './api';
 export { TaskListPage } from './components/TaskListPage';
 export { taskApiRef, type TaskApi, type TaskData } from './api';
 
+// ==================================================
+// File: src/components/TaskListPage/useTaskFilters.ts
+// ==================================================
+
+import { useSearchParams } from 'react-router-dom';
+import type { TaskData, TaskQuery, TaskStatus } from '../../api';
+
+const ALL_STATUSES: TaskStatus[] = ['pending', 'in-progress', 'completed'];
+
+/**
+ * Task filters backed by the URL query string, so a filtered view can be
+ * bookmarked and shared:
+ *
+ *   /tasks?status=pending,in-progress&q=deploy&sort=updatedAt:desc
+ */
+export function useTaskFilters() {
+  const [searchParams, setSearchParams] = useSearchParams();
+
+  const status = (searchParams.get('status')?.split(',') ?? []).filter(
+    (s): s is TaskStatus => ALL_STATUSES.includes(s as TaskStatus),
+  );
+  const search = searchParams.get('q') ?? '';
+  const [field, order] = (searchParams.get('sort') ?? 'createdAt:desc').split(':');
+
+  const query: Omit<TaskQuery, 'cursor' | 'limit'> = {
+    status,
+    search,
+    orderBy: {
+      field: field === 'updatedAt' ? 'updatedAt' : 'createdAt',
+      order: order === 'asc' ? 'asc' : 'desc',
+    },
+  };
+
+  const update = (key: string, value: string) => {
+    setSearchParams(
+      prev => {
+        const next = new URLSearchParams(prev);
+        if (value) {
+          next.set(key, value);
+        } else {
+          next.delete(key);
+        }
+        return next;
+      },
+      { replace: true },
+    );
+  };
+
+  return {
+    query,
+    allStatuses: ALL_STATUSES,
+    toggleStatus: (s: TaskStatus) =>
+      update(
+        'status',
+        (status.includes(s) ? status.filter(x => x !== s) : [...status, s]).join(','),
+      ),
+    setSearch: (value: string) => update('q', value),
+    setSort: (value: string) => update('sort', value),
+  };
+}
+
+/** Client-side twin of the backend's status and title filters */
+export function matchesTaskQuery(task: TaskData, query: TaskQuery): boolean {
+  if (query.status?.length && !query.status.includes(task.status)) {
+    return false;
+  }
+  return (
+    !query.search || task.title.toLowerCase().includes(query.search.toLowerCase())
+  );
+}
+
+/** Client-side twin of the backend's sort: sort field, then id */
+export function compareTasks(
+  a: TaskData,
+  b: TaskData,
+  orderBy: NonNullable<TaskQuery['orderBy']>,
+): number {
+  const diff =
+    new Date(a[orderBy.field]).getTime() - new Date(b[orderBy.field]).getTime() ||
+    a.id.localeCompare(b.id);
+  return orderBy.order === 'asc' ? diff : -diff;
+}
+
 // ==================================================
 // File: src/components/TaskListPage/TaskListPage.tsx
 // ==================================================
 
 import React from 'react';
-import { Page, Header, Content, InfoCard } from '@backstage/core-components';
-import { useApi } from '@backstage/core-plugin-api';
+import { Page, Header, Content, InfoCard, Progress } from '@backstage/core-components';
+import { useApi, errorApiRef } from '@backstage/core-plugin-api';
+import { postApiError } from '@internal/api-client';  // utility-apis/api-errors.ts
 import { taskApiRef, TaskData } from '../../api';
+import { compareTasks, matchesTaskQuery, useTaskFilters } from './useTaskFilters';
 import {
   Table,
   TableHead,
@@ -238,49 +423,183 @@ import {
   TableBody,
   Button,
   Chip,
+  Box,
+  TextField,
+  Select,
+  MenuItem,
 } from '@material-ui/core';
 
+const PAGE_SIZE = 25;
+const SEARCH_DEBOUNCE_MS = 300;
+
 export const TaskListPage = () => {
   const taskApi = useApi(taskApiRef);
+  const errorApi = useApi(errorApiRef);
+  const { query, allStatuses, toggleStatus, setSearch, setSort } = useTaskFilters();
 
   const [tasks, setTasks] = React.useState<TaskData[]>([]);
+  const [nextCursor, setNextCursor] = React.useState<string | undefined>();
+  const [totalCount, setTotalCount] = React.useState(0);
   const [loading, setLoading] = React.useState(true);
+  const sentinelRef = React.useRef<HTMLDivElement>(null);
+  const tasksRef = React.useRef(tasks);
+  tasksRef.current = tasks;
+  const nextCursorRef = React.useRef(nextCursor);
+  nextCursorRef.current = nextCursor;
+
+  // Serialized so the effects below only re-run when the filters change
+  const queryKey = JSON.stringify(query);
+  const currentQueryKey = React.useRef(queryKey);
+  currentQueryKey.current = queryKey;
+
+  const fetchPage = React.useCallback(
+    async (cursor?: string) => {
+      // Responses can arrive out of order; one for filters that have
+      // changed since must not replace the current results
+      const isCurrent = () => currentQueryKey.current === queryKey;
+      try {
+        setLoading(true);
+        const page = await taskApi.getTasks({
+          ...JSON.parse(queryKey),
+          cursor,
+          limit: PAGE_SIZE,
+        });
+        if (!isCurrent()) {
+          return;
+        }
+        setTasks(prev => (cursor ? [...prev, ...page.items] : page.items));
+        setNextCursor(page.nextCursor);
+        setTotalCount(page.totalCount);
+      } catch (error) {
+        console.error('Failed to fetch tasks:', error);
+      } finally {
+        if (isCurrent()) {
+          setLoading(false);
+        }
+      }
+    },
+    [taskApi, queryKey],
+  );
 
-  const fetchTasks = React.useCallback(async () => {
-    try {
-      setLoading(true);
-      const data = await taskApi.getTasks();
-      setTasks(data);
-    } catch (error) {
-      console.error('Failed to fetch tasks:', error);
-    } finally {
-      setLoading(false);
-    }
-  }, [taskApi]);
+  // Typing updates the URL (and refetches) only once the user pauses
+  const searchTimer = React.useRef<ReturnType<typeof setTimeout>>();
+  React.useEffect(() => () => clearTimeout(searchTimer.current), []);
+  const handleSearchChange = (value: string) => {
+    clearTimeout(searchTimer.current);
+    searchTimer.current = setTimeout(() => setSearch(value), SEARCH_DEBOUNCE_MS);
+  };
 
+  // Filters changed: start again from the first page
   React.useEffect(() => {
-    fetchTasks();
-  }, [fetchTasks]);
+    fetchPage();
+  }, [fetchPage]);
+
+  // Put a new task where the server would list it, keeping every page
+  // loaded so far. Past the last loaded row it arrives with a later page.
+  const insertCreated = React.useCallback(
+    (task: TaskData) => {
+      const current: TaskQuery = JSON.parse(queryKey);
+      if (
+        !matchesTaskQuery(task, current) ||
+        tasksRef.current.some(t => t.id === task.id)
+      ) {
+        return;
+      }
+
+      setTotalCount(prev => prev + 1);
+      setTasks(prev => {
+        const index = prev.findIndex(t => compareTasks(task, t, current.orderBy!) < 0);
+        if (index === -1) {
+          return nextCursorRef.current ? prev : [...prev, task];
+        }
+        return [...prev.slice(0, index), task, ...prev.slice(index)];
+      });
+    },
+    [queryKey],
+  );
 
-  const handleStatusChange = async (id: string, status: TaskData['status']) => {
+  // Live updates from other users
+  React.useEffect(() => {
+    const subscription = taskApi.tasks$().subscribe({
+      next: event => {
+        switch (event.type) {
+          case 'created':
+            insertCreated(event.task);
+            break;
+          case 'updated':
+            setTasks(prev =>
+              prev.map(task => (task.id === event.task.id ? event.task : task)),
+            );
+            break;
+          case 'deleted':
+            // Our own optimistic deletes have already removed the row
+            if (tasksRef.current.some(task => task.id === event.id)) {
+              setTasks(prev => prev.filter(task => task.id !== event.id));
+              setTotalCount(prev => Math.max(0, prev - 1));
+            }
+            break;
+          case 'resync':
+            fetchPage();
+            break;
+          default:
+        }
+      },
+    });
+
+    return () => subscription.unsubscribe();
+  }, [taskApi, fetchPage, insertCreated]);
+
+  // Infinite scroll: load the next page when the sentinel becomes visible
+  React.useEffect(() => {
+    const sentinel = sentinelRef.current;
+    if (!sentinel || !nextCursor || loading) {
+      return undefined;
+    }
+
+    const observer = new IntersectionObserver(entries => {
+      if (entries[0].isIntersecting) {
+        fetchPage(nextCursor);
+      }
+    });
+    observer.observe(sentinel);
+    return () => observer.disconnect();
+  }, [fetchPage, nextCursor, loading]);
+
+  // Optimistic: update the row right away, roll back if the backend refuses
+  const handleStatusChange = async (task: TaskData, status: TaskData['status']) => {
+    const replace = (next: TaskData) =>
+      setTasks(prev => prev.map(t => (t.id === task.id ? next : t)));
+
+    replace({ ...task, status });
     try {
-      await taskApi.updateTask(id, { status });
-      await fetchTasks(); // Refresh list
+      replace(
+        await taskApi.updateTask(
+          task.id,
+          { status },
+          { expectedUpdatedAt: task.updatedAt },
+        ),
+      );
     } catch (error) {
-      console.error('Failed to update task:', error);
+      replace(task);
+      postApiError(errorApi, error);
     }
   };
 
-  const handleDelete = async (id: string) => {
+  // Optimistic: remove the row right away, put it back if the backend refuses
+  const handleDelete = async (task: TaskData) => {
     if (!window.confirm('Are you sure you want to delete this task?')) {
       return;
     }
 
+    const index = tasks.findIndex(t => t.id === task.id);
+    setTasks(prev => prev.filter(t => t.id !== task.id));
+    setTotalCount(prev => prev - 1);
     try {
-      await taskApi.deleteTask(id);
-      await fetchTasks(); // Refresh list
+      await taskApi.deleteTask(task.id, { expectedUpdatedAt: task.updatedAt });
     } catch (error) {
-      console.error('Failed to delete task:', error);
+      setTasks(prev => [...prev.slice(0, index), task, ...prev.slice(index)]);
+      setTotalCount(prev => prev + 1);
+      postApiError(errorApi, error);
     }
   };
 
@@ -299,10 +618,34 @@ export const TaskListPage = () => {
     <Page themeId="tool">
       <Header title="Tasks" subtitle="Manage your tasks" />
       <Content>
-        <InfoCard title="All Tasks">
-          {loading && <p>Loading tasks...</p>}
+        <InfoCard title={`Tasks (${totalCount})`}>
+          <Box display="flex" alignItems="center" mb={2} style={{ gap: 8 }}>
+            {allStatuses.map(status => (
+              <Chip
+                key={status}
+                label={status}
+                clickable
+                color={query.status?.includes(status) ? 'primary' : 'default'}
+                onClick={() => toggleStatus(status)}
+              />
+            ))}
+            <TextField
+              placeholder="Search by title"
+              defaultValue={query.search}
+              onChange={e => handleSearchChange(e.target.value)}
+            />
+            <Select
+              value={`${query.orderBy?.field}:${query.orderBy?.order}`}
+              onChange={e => setSort(e.target.value as string)}
+            >
+              <MenuItem value="createdAt:desc">Newest first</MenuItem>
+              <MenuItem value="createdAt:asc">Oldest first</MenuItem>
+              <MenuItem value="updatedAt:desc">Recently updated</MenuItem>
+            </Select>
+          </Box>
+
           {!loading && tasks.length === 0 && <p>No tasks found.</p>}
-          {!loading && tasks.length > 0 && (
+          {tasks.length > 0 && (
             <Table>
               <TableHead>
                 <TableRow>
@@ -330,7 +673,7 @@ export const TaskListPage = () => {
                       {task.status !== 'completed' && (
                         <Button
                           size="small"
-                          onClick={() => handleStatusChange(task.id, 'completed')}
+                          onClick={() => handleStatusChange(task, 'completed')}
                         >
                           Complete
                         </Button>
@@ -338,7 +681,7 @@ export const TaskListPage = () => {
                       <Button
                         size="small"
                         color="secondary"
-                        onClick={() => handleDelete(task.id)}
+                        onClick={() => handleDelete(task)}
                       >
                         Delete
                       </Button>
@@ -348,6 +691,8 @@ export const TaskListPage = () => {
               </TableBody>
             </Table>
           )}
+          {loading && <Progress />}
+          <div ref={sentinelRef} />
         </InfoCard>
       </Content>
     </Page>
@@ -376,8 +721,11 @@ export const TaskListPage = () => {
  *     "@backstage/core-components": "^0.15.0",
  *     "@backstage/core-plugin-api": "^1.10.0",
  *     "@backstage/frontend-plugin-api": "^0.9.0",
+ *     "@backstage/types": "^1.1.1",
+ *     "@internal/api-client": "^0.1.0",
  *     "@material-ui/core": "^4.12.4",
- *     "react": "^18.0.0"
+ *     "react": "^18.0.0",
+ *     "react-router-dom": "^6.3.0"
  *   }
  * }
  */
@@ -425,6 +773,7 @@ export const TaskListPage = () => {
  * │   └── components/
  * │       └── TaskListPage/
  * │           ├── TaskListPage.tsx
+ * │           ├── useTaskFilters.ts  # Filters synced to the URL
  * │           └── index.ts
  * └── README.md
  */
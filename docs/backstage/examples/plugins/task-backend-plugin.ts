@@ -0,0 +1,721 @@
+/**
+ * Task Backend Plugin Example
+ *
+ * This example shows the backend counterpart of plugin-with-api.tsx: a
+ * `createBackendPlugin` that serves the `/tasks` REST contract that
+ * `TaskApiClient` calls on the `task` discovery ID.
+ *
+ * Features:
+ * - Knex-backed store with schema migrations
+ * - Request validation matching CreateTaskRequest / UpdateTaskRequest
+ * - Cursor pagination, status filter, title search and sorting (TaskQuery)
+ * - 404 for unknown tasks, 409 for stale updates
+ * - Server-sent events for live created/updated/deleted notifications
+ * - Runs against SQLite in tests, Postgres in production
+ */
+
+// ==================================================
+// File: migrations/20251019000000_init.js
+// ==================================================
+
+/**
+ * Migrations are plain JS files so they can run without a build step.
+ *
+ * // @ts-check
+ *
+ * exports.up = async function up(knex) {
+ *   await knex.schema.createTable('tasks', table => {
+ *     table.comment('Tasks managed by the task plugin');
+ *     table.string('id').primary();
+ *     table.string('title', 255).notNullable();
+ *     table.string('status', 32).notNullable().defaultTo('pending');
+ *     table.timestamp('created_at', { useTz: true }).notNullable();
+ *     table.timestamp('updated_at', { useTz: true }).notNullable();
+ *     table.index(['status'], 'tasks_status_idx');
+ *     table.index(['created_at', 'id'], 'tasks_created_at_idx');
+ *     table.index(['updated_at', 'id'], 'tasks_updated_at_idx');
+ *   });
+ * };
+ *
+ * exports.down = async function down(knex) {
+ *   await knex.schema.dropTable('tasks');
+ * };
+ */
+
+// ==================================================
+// File: src/service/types.ts
+// ==================================================
+
+export type TaskStatus = 'pending' | 'in-progress' | 'completed';
+
+export interface Task {
+  id: string;
+  title: string;
+  status: TaskStatus;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface ListTasksOptions {
+  cursor?: string;
+  limit: number;
+  status?: TaskStatus[];
+  search?: string;
+  orderBy: { field: 'createdAt' | 'updatedAt'; order: 'asc' | 'desc' };
+}
+
+export interface TaskPage {
+  items: Task[];
+  nextCursor?: string;
+  totalCount: number;
+}
+
+/**
+ * Optimistic concurrency: when set, the change only applies if the task's
+ * `updatedAt` still equals this value, otherwise a ConflictError is thrown.
+ */
+export interface WriteOptions {
+  expectedUpdatedAt?: string;
+}
+
+export interface TaskStore {
+  listTasks(options: ListTasksOptions): Promise<TaskPage>;
+  getTask(id: string): Promise<Task | undefined>;
+  /** Found tasks only, in no particular order */
+  getTasksByIds(ids: string[]): Promise<Task[]>;
+  createTask(input: { title: string }): Promise<Task>;
+  updateTask(
+    id: string,
+    input: { title?: string; status?: TaskStatus },
+    options?: WriteOptions,
+  ): Promise<Task | undefined>;
+  deleteTask(id: string, options?: WriteOptions): Promise<boolean>;
+}
+
+// ==================================================
+// File: src/service/DatabaseTaskStore.ts
+// ==================================================
+
+import { Knex } from 'knex';
+import { v4 as uuid } from 'uuid';
+import {
+  DatabaseService,
+  resolvePackagePath,
+} from '@backstage/backend-plugin-api';
+import { ConflictError } from '@backstage/errors';
+import { decodeCursor, encodeCursor } from '@internal/backend-utils';  // plugins/backend-utils.ts
+
+const migrationsDir = resolvePackagePath(
+  '@internal/plugin-task-backend',
+  'migrations',
+);
+
+type TaskRow = {
+  id: string;
+  title: string;
+  status: TaskStatus;
+  created_at: Date | string;
+  updated_at: Date | string;
+};
+
+const SORT_COLUMNS = {
+  createdAt: 'created_at',
+  updatedAt: 'updated_at',
+} as const;
+
+function toTask(row: TaskRow): Task {
+  return {
+    id: row.id,
+    title: row.title,
+    status: row.status,
+    createdAt: new Date(row.created_at).toISOString(),
+    updatedAt: new Date(row.updated_at).toISOString(),
+  };
+}
+
+/** Escapes LIKE wildcards so a search for "50%" matches literally */
+function escapeLike(value: string): string {
+  return value.replace(/[\\%_]/g, match => `\\${match}`);
+}
+
+export class DatabaseTaskStore implements TaskStore {
+  static async create(options: {
+    database: DatabaseService;
+  }): Promise<DatabaseTaskStore> {
+    const client = await options.database.getClient();
+
+    if (!options.database.migrations?.skip) {
+      await client.migrate.latest({ directory: migrationsDir });
+    }
+
+    return new DatabaseTaskStore(client);
+  }
+
+  private constructor(private readonly db: Knex) {}
+
+  async listTasks(options: ListTasksOptions): Promise<TaskPage> {
+    const column = SORT_COLUMNS[options.orderBy.field];
+    const direction = options.orderBy.order;
+
+    const filtered = () => {
+      const query = this.db<TaskRow>('tasks');
+      if (options.status?.length) {
+        query.whereIn('status', options.status);
+      }
+      if (options.search) {
+        query.whereRaw(`LOWER(title) LIKE ? ESCAPE '\\'`, [
+          `%${escapeLike(options.search.toLowerCase())}%`,
+        ]);
+      }
+      return query;
+    };
+
+    const [{ count }] = await filtered().count({ count: '*' });
+
+    const query = filtered()
+      .orderBy([
+        { column, order: direction },
+        { column: 'id', order: direction },
+      ])
+      .limit(options.limit + 1);
+
+    if (options.cursor) {
+      const { v, id } = decodeCursor(options.cursor);
+      const op = direction === 'asc' ? '>' : '<';
+      query.where(builder =>
+        builder
+          .where(column, op, new Date(v))
+          .orWhere(inner => inner.where(column, new Date(v)).andWhere('id', op, id)),
+      );
+    }
+
+    const rows = await query;
+    const items = rows.slice(0, options.limit).map(toTask);
+    const hasMore = rows.length > options.limit;
+
+    return {
+      items,
+      nextCursor: hasMore
+        ? encodeCursor({
+            v: items[items.length - 1][options.orderBy.field],
+            id: items[items.length - 1].id,
+          })
+        : undefined,
+      totalCount: Number(count),
+    };
+  }
+
+  async getTask(id: string): Promise<Task | undefined> {
+    const row = await this.db<TaskRow>('tasks').where({ id }).first();
+    return row ? toTask(row) : undefined;
+  }
+
+  async getTasksByIds(ids: string[]): Promise<Task[]> {
+    const rows = await this.db<TaskRow>('tasks').whereIn('id', ids);
+    return rows.map(toTask);
+  }
+
+  async createTask(input: { title: string }): Promise<Task> {
+    const now = new Date();
+    const row: TaskRow = {
+      id: uuid(),
+      title: input.title,
+      status: 'pending',
+      created_at: now,
+      updated_at: now,
+    };
+
+    await this.db<TaskRow>('tasks').insert(row);
+    return toTask(row);
+  }
+
+  async updateTask(
+    id: string,
+    input: { title?: string; status?: TaskStatus },
+    options: WriteOptions = {},
+  ): Promise<Task | undefined> {
+    const updated = await this.matching(id, options).update({
+      ...input,
+      updated_at: new Date(),
+    });
+    if (updated === 0) {
+      return await this.missingOrConflict(id);
+    }
+
+    return this.getTask(id);
+  }
+
+  async deleteTask(id: string, options: WriteOptions = {}): Promise<boolean> {
+    const deleted = await this.matching(id, options).delete();
+    if (deleted === 0) {
+      await this.missingOrConflict(id);
+      return false;
+    }
+    return true;
+  }
+
+  private matching(id: string, options: WriteOptions) {
+    const query = this.db<TaskRow>('tasks').where({ id });
+    if (options.expectedUpdatedAt) {
+      query.andWhere('updated_at', new Date(options.expectedUpdatedAt));
+    }
+    return query;
+  }
+
+  /**
+   * A conditional write touched no rows: either the task is gone (caller
+   * answers 404) or someone else changed it first (409).
+   */
+  private async missingOrConflict(id: string): Promise<undefined> {
+    const current = await this.getTask(id);
+    if (current) {
+      throw new ConflictError(
+        `Task ${id} was modified at ${current.updatedAt}; reload and try again`,
+      );
+    }
+    return undefined;
+  }
+}
+
+// ==================================================
+// File: src/service/events.ts
+// ==================================================
+
+import { EventBroker } from '@internal/backend-utils';
+
+/** Matches TaskEvent in the frontend plugin (minus the client-side resync) */
+export type TaskChangeEvent =
+  | { type: 'created'; task: Task }
+  | { type: 'updated'; task: Task }
+  | { type: 'deleted'; id: string };
+
+/** Fan-out of task changes to connected SSE clients */
+export type TaskEventBroker = EventBroker<TaskChangeEvent>;
+
+// ==================================================
+// File: src/service/validation.ts
+// ==================================================
+
+import { z } from 'zod';
+
+const taskStatus = z.enum(['pending', 'in-progress', 'completed']);
+
+/** Matches CreateTaskRequest in the frontend plugin */
+export const createTaskSchema = z
+  .object({
+    title: z.string().trim().min(1).max(255),
+  })
+  .strict();
+
+/** Matches UpdateTaskRequest in the frontend plugin */
+export const updateTaskSchema = z
+  .object({
+    title: z.string().trim().min(1).max(255).optional(),
+    status: taskStatus.optional(),
+  })
+  .strict()
+  .refine(body => Object.keys(body).length > 0, {
+    message: 'At least one of title or status is required',
+  });
+
+/** Matches the body sent by TaskApiClient's batch loader */
+export const batchGetSchema = z
+  .object({
+    ids: z.array(z.string().min(1)).min(1).max(100),
+  })
+  .strict();
+
+/** Matches TaskQuery as serialized by TaskApiClient.getTasks() */
+export const listTasksSchema = z.object({
+  cursor: z.string().optional(),
+  limit: z.coerce.number().int().min(1).max(100).default(25),
+  status: z
+    .string()
+    .optional()
+    .transform(value => (value ? value.split(',') : undefined))
+    .pipe(z.array(taskStatus).optional()),
+  search: z.string().optional(),
+  orderBy: z.enum(['createdAt', 'updatedAt']).default('createdAt'),
+  order: z.enum(['asc', 'desc']).default('desc'),
+});
+
+// ==================================================
+// File: src/service/router.ts
+// ==================================================
+
+import express from 'express';
+import Router from 'express-promise-router';
+import { LoggerService } from '@backstage/backend-plugin-api';
+import { InputError, NotFoundError } from '@backstage/errors';
+import {
+  parseRequest,
+  streamEvents,
+  validationErrorHandler,
+} from '@internal/backend-utils';
+
+/**
+ * Reads the expected `updatedAt` from an `If-Match: "<ISO timestamp>"`
+ * header, as sent by TaskApiClient for updates and deletes.
+ */
+function writeOptions(req: express.Request): WriteOptions {
+  const ifMatch = req.header('if-match')?.replace(/^W\//, '').replace(/"/g, '');
+  if (!ifMatch) {
+    return {};
+  }
+  if (Number.isNaN(Date.parse(ifMatch))) {
+    throw new InputError(`Invalid If-Match header: ${ifMatch}`);
+  }
+  return { expectedUpdatedAt: ifMatch };
+}
+
+export async function createRouter(options: {
+  store: TaskStore;
+  events: TaskEventBroker;
+  logger: LoggerService;
+}): Promise<express.Router> {
+  const { store, events, logger } = options;
+
+  const router = Router();
+  router.use(express.json());
+
+  // Registered before /tasks/:id so "events" is not treated as an id
+  router.get('/tasks/events', (req, res) => {
+    streamEvents<TaskChangeEvent>(req, res, listener => events.subscribe(listener));
+  });
+
+  router.get('/tasks', async (req, res) => {
+    const query = parseRequest(listTasksSchema, req.query);
+    const page = await store.listTasks({
+      cursor: query.cursor,
+      limit: query.limit,
+      status: query.status,
+      search: query.search,
+      orderBy: { field: query.orderBy, order: query.order },
+    });
+    res.json(page);
+  });
+
+  // Partial results: always 200, with a status per requested id
+  router.post('/tasks/batch-get', async (req, res) => {
+    const { ids } = parseRequest(batchGetSchema, req.body);
+    const found = new Map((await store.getTasksByIds(ids)).map(task => [task.id, task]));
+
+    res.json({
+      items: Array.from(new Set(ids)).map(id => {
+        const task = found.get(id);
+        return task
+          ? { key: id, status: 200, value: task }
+          : {
+              key: id,
+              status: 404,
+              error: { name: 'NotFoundError', message: `Task ${id} not found` },
+            };
+      }),
+    });
+  });
+
+  router.get('/tasks/:id', async (req, res) => {
+    const task = await store.getTask(req.params.id);
+    if (!task) {
+      throw new NotFoundError(`Task ${req.params.id} not found`);
+    }
+    res.json(task);
+  });
+
+  router.post('/tasks', async (req, res) => {
+    const body = parseRequest(createTaskSchema, req.body);
+    const task = await store.createTask(body);
+    logger.info(`Created task ${task.id}`);
+    events.publish({ type: 'created', task });
+    res.status(201).json(task);
+  });
+
+  router.patch('/tasks/:id', async (req, res) => {
+    const body = parseRequest(updateTaskSchema, req.body);
+    const task = await store.updateTask(req.params.id, body, writeOptions(req));
+    if (!task) {
+      throw new NotFoundError(`Task ${req.params.id} not found`);
+    }
+    events.publish({ type: 'updated', task });
+    res.json(task);
+  });
+
+  router.delete('/tasks/:id', async (req, res) => {
+    const deleted = await store.deleteTask(req.params.id, writeOptions(req));
+    if (!deleted) {
+      throw new NotFoundError(`Task ${req.params.id} not found`);
+    }
+    events.publish({ type: 'deleted', id: req.params.id });
+    res.status(204).end();
+  });
+
+  router.use(validationErrorHandler());
+
+  return router;
+}
+
+// ==================================================
+// File: src/plugin.ts
+// ==================================================
+
+import {
+  coreServices,
+  createBackendPlugin,
+} from '@backstage/backend-plugin-api';
+import { EventBroker } from '@internal/backend-utils';
+
+/**
+ * Task backend plugin
+ *
+ * Served under `/api/task`, which is what `discoveryApi.getBaseUrl('task')`
+ * resolves to in the frontend.
+ *
+ * @public
+ */
+export const taskPlugin = createBackendPlugin({
+  pluginId: 'task',  // ← MUST MATCH the discovery ID used by TaskApiClient
+  register(env) {
+    env.registerInit({
+      deps: {
+        logger: coreServices.logger,
+        database: coreServices.database,
+        httpRouter: coreServices.httpRouter,
+      },
+      async init({ logger, database, httpRouter }) {
+        const store = await DatabaseTaskStore.create({ database });
+
+        const events = new EventBroker<TaskChangeEvent>();
+
+        httpRouter.use(await createRouter({ store, events, logger }));
+      },
+    });
+  },
+});
+
+// ==================================================
+// File: src/index.ts
+// ==================================================
+
+export { taskPlugin as default } from './plugin';
+
+// ==================================================
+// File: src/service/router.test.ts
+// ==================================================
+
+/**
+ * Tests run against an in-memory SQLite database, so the whole
+ * frontend/backend pair can be exercised without Postgres.
+ *
+ * import { mockErrorHandler, mockServices, TestDatabases } from '@backstage/backend-test-utils';
+ * import express from 'express';
+ * import request from 'supertest';
+ * import { EventBroker } from '@internal/backend-utils';
+ * import { DatabaseTaskStore } from './DatabaseTaskStore';
+ * import type { TaskChangeEvent, TaskEventBroker } from './events';
+ * import { createRouter } from './router';
+ * import type { Task } from './types';
+ *
+ * describe('task router', () => {
+ *   const databases = TestDatabases.create({ ids: ['SQLITE_3'] });
+ *   let app: express.Express;
+ *   let events: TaskEventBroker;
+ *
+ *   beforeEach(async () => {
+ *     const knex = await databases.init('SQLITE_3');
+ *     const store = await DatabaseTaskStore.create({
+ *       database: mockServices.database({ knex }),
+ *     });
+ *     events = new EventBroker<TaskChangeEvent>();
+ *     app = express()
+ *       .use(await createRouter({ store, events, logger: mockServices.logger.mock() }))
+ *       .use(mockErrorHandler());
+ *   });
+ *
+ *   it('creates, updates and deletes a task', async () => {
+ *     const created = await request(app).post('/tasks').send({ title: 'Write docs' });
+ *     expect(created.status).toBe(201);
+ *     expect(created.body).toMatchObject({ title: 'Write docs', status: 'pending' });
+ *
+ *     const updated = await request(app)
+ *       .patch(`/tasks/${created.body.id}`)
+ *       .send({ status: 'completed' });
+ *     expect(updated.body.status).toBe('completed');
+ *
+ *     expect((await request(app).delete(`/tasks/${created.body.id}`)).status).toBe(204);
+ *     expect((await request(app).get(`/tasks/${created.body.id}`)).status).toBe(404);
+ *   });
+ *
+ *   it('publishes change events', async () => {
+ *     const listener = jest.fn();
+ *     events.subscribe(listener);
+ *
+ *     const created = await request(app).post('/tasks').send({ title: 'Live' });
+ *     await request(app).delete(`/tasks/${created.body.id}`);
+ *
+ *     expect(listener.mock.calls.map(([event]) => event.type)).toEqual(['created', 'deleted']);
+ *   });
+ *
+ *   it('returns 409 when the task changed since it was read', async () => {
+ *     const created = await request(app).post('/tasks').send({ title: 'Race' });
+ *     await request(app).patch(`/tasks/${created.body.id}`).send({ status: 'in-progress' });
+ *
+ *     const stale = await request(app)
+ *       .patch(`/tasks/${created.body.id}`)
+ *       .set('If-Match', `"${created.body.updatedAt}"`)
+ *       .send({ status: 'completed' });
+ *     expect(stale.status).toBe(409);
+ *   });
+ *
+ *   it('returns 422 with field details for invalid input', async () => {
+ *     const response = await request(app).post('/tasks').send({ title: '' });
+ *     expect(response.status).toBe(422);
+ *     expect(response.body.details).toEqual([
+ *       { field: 'title', message: expect.any(String) },
+ *     ]);
+ *   });
+ *
+ *   it('pages through filtered tasks with a cursor', async () => {
+ *     for (const title of ['a', 'b', 'c']) {
+ *       await request(app).post('/tasks').send({ title });
+ *     }
+ *
+ *     const first = await request(app).get('/tasks?limit=2&orderBy=createdAt&order=asc');
+ *     expect(first.body.items.map((t: Task) => t.title)).toEqual(['a', 'b']);
+ *     expect(first.body.totalCount).toBe(3);
+ *
+ *     const second = await request(app).get(
+ *       `/tasks?limit=2&orderBy=createdAt&order=asc&cursor=${first.body.nextCursor}`,
+ *     );
+ *     expect(second.body.items.map((t: Task) => t.title)).toEqual(['c']);
+ *     expect(second.body.nextCursor).toBeUndefined();
+ *   });
+ *
+ *   it('returns 400 for a malformed cursor', async () => {
+ *     const response = await request(app).get('/tasks?cursor=not-a-cursor');
+ *     expect(response.status).toBe(400);
+ *   });
+ *
+ *   it('matches LIKE wildcards in the search literally', async () => {
+ *     await request(app).post('/tasks').send({ title: '100% done' });
+ *     await request(app).post('/tasks').send({ title: '100 things' });
+ *
+ *     const response = await request(app).get('/tasks?search=100%25');
+ *     expect(response.body.items.map((t: Task) => t.title)).toEqual(['100% done']);
+ *   });
+ *
+ *   it('returns partial results for a batch', async () => {
+ *     const created = await request(app).post('/tasks').send({ title: 'Batched' });
+ *
+ *     const response = await request(app)
+ *       .post('/tasks/batch-get')
+ *       .send({ ids: [created.body.id, 'missing'] });
+ *
+ *     expect(response.status).toBe(200);
+ *     expect(response.body.items).toEqual([
+ *       { key: created.body.id, status: 200, value: created.body },
+ *       { key: 'missing', status: 404, error: { name: 'NotFoundError', message: 'Task missing not found' } },
+ *     ]);
+ *   });
+ * });
+ */
+
+// ==================================================
+// File: package.json
+// ==================================================
+
+/**
+ * {
+ *   "name": "@internal/plugin-task-backend",
+ *   "version": "0.1.0",
+ *   "main": "src/index.ts",
+ *   "types": "src/index.ts",
+ *   "backstage": {
+ *     "role": "backend-plugin",
+ *     "pluginId": "task"
+ *   },
+ *   "files": ["dist", "migrations"],
+ *   "dependencies": {
+ *     "@backstage/backend-plugin-api": "^1.0.0",
+ *     "@backstage/errors": "^1.2.4",
+ *     "@internal/backend-utils": "^0.1.0",
+ *     "express": "^4.17.1",
+ *     "express-promise-router": "^4.1.0",
+ *     "knex": "^3.0.0",
+ *     "uuid": "^9.0.0",
+ *     "zod": "^3.22.4"
+ *   },
+ *   "devDependencies": {
+ *     "@backstage/backend-test-utils": "^1.0.0",
+ *     "better-sqlite3": "^11.0.0",
+ *     "supertest": "^7.0.0"
+ *   }
+ * }
+ */
+
+// ==================================================
+// Installation
+// ==================================================
+
+/**
+ * // packages/backend/src/index.ts
+ * backend.add(import('@internal/plugin-task-backend'));
+ *
+ * // app-config.yaml (local development uses SQLite, no Postgres needed)
+ * backend:
+ *   database:
+ *     client: better-sqlite3
+ *     connection: ':memory:'
+ */
+
+// ==================================================
+// Directory Structure
+// ==================================================
+
+/**
+ * plugins/task-backend/
+ * ├── package.json
+ * ├── migrations/
+ * │   └── 20251019000000_init.js
+ * └── src/
+ *     ├── index.ts               # Default export: taskPlugin
+ *     ├── plugin.ts              # createBackendPlugin
+ *     └── service/
+ *         ├── types.ts           # Task and TaskStore
+ *         ├── DatabaseTaskStore.ts
+ *         ├── events.ts          # Change event types for the shared EventBroker
+ *         ├── validation.ts      # zod schemas (parseRequest is shared)
+ *         ├── router.ts          # /tasks routes
+ *         └── router.test.ts     # SQLite-backed tests
+ */
+
+// ==================================================
+// Key Points
+// ==================================================
+
+/**
+ * 1. Plugin ID = discovery ID
+ *    - Backend: createBackendPlugin({ pluginId: 'task' })
+ *    - Frontend: discoveryApi.getBaseUrl('task') → /api/task
+ *
+ * 2. Migrations run on startup
+ *    - `client.migrate.latest()` unless `backend.database.skipMigrations`
+ *    - Ship the migrations directory with the package
+ *
+ * 3. Errors map to statuses
+ *    - NotFoundError → 404, ConflictError → 409 (Backstage error handler)
+ *    - `If-Match: "<updatedAt>"` on PATCH/DELETE → 409 if the task changed
+ *    - RequestValidationError → 422 with `details` for field messages
+ *
+ * 4. Keyset pagination
+ *    - Cursor = last item's sort value + id
+ *    - Stable under concurrent inserts, unlike offset pagination
+ *
+ * 5. Server-sent events
+ *    - GET /tasks/events streams created/updated/deleted events
+ *    - EventBroker and streamEvents come from @internal/backend-utils
+ *    - Single replica only with the in-process broker
+ *
+ * 6. Batch reads with partial results
+ *    - POST /tasks/batch-get serves TaskApiClient's batched getTask() calls
+ *    - Always 200, with a status per id, so one missing task fails alone
+ */
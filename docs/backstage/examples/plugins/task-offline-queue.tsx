@@ -0,0 +1,537 @@
+/**
+ * Offline Mutation Queue Example
+ *
+ * This example extends the task plugin from plugin-with-api.tsx so that
+ * `createTask`, `updateTask` and `deleteTask` keep working while the
+ * backend is unreachable. Mutations made offline are stored in a durable
+ * queue and replayed in order once connectivity returns.
+ *
+ * Together with the optimistic updates in `TaskListPage`, the UI never
+ * blocks on the round trip:
+ * - Online: the page updates optimistically and rolls back on failure
+ * - Offline: the mutation is queued and the optimistic state is kept
+ * - Reconnect: the queue replays; conflicts are detected via `updatedAt`
+ *   (`If-Match`, answered with 409 by task-backend-plugin.ts)
+ */
+
+// ==================================================
+// File: src/api/offline/TaskMutationQueue.ts
+// ==================================================
+
+import { createApiRef, StorageApi } from '@backstage/core-plugin-api';
+import type { Observable } from '@backstage/types';
+import type {
+  CreateTaskRequest,
+  UpdateTaskRequest,
+} from '../types';
+
+export type QueuedMutation =
+  | {
+      id: string;
+      kind: 'create';
+      /** Placeholder id handed out to the UI until the create is replayed */
+      taskId: string;
+      request: CreateTaskRequest;
+      enqueuedAt: string;
+    }
+  | {
+      id: string;
+      kind: 'update';
+      taskId: string;
+      request: UpdateTaskRequest;
+      expectedUpdatedAt?: string;
+      enqueuedAt: string;
+    }
+  | {
+      id: string;
+      kind: 'delete';
+      taskId: string;
+      expectedUpdatedAt?: string;
+      enqueuedAt: string;
+    };
+
+/**
+ * Durable, ordered queue of task mutations.
+ *
+ * Backed by the StorageApi, so the queue survives reloads and is shared by
+ * all tabs of the signed-in user.
+ *
+ * @public
+ */
+export interface TaskMutationQueue {
+  list(): QueuedMutation[];
+  pending$(): Observable<QueuedMutation[]>;
+  enqueue(mutation: QueuedMutation): Promise<void>;
+  remove(id: string): Promise<void>;
+
+  /**
+   * Point later mutations of a task at its new server state: the real id
+   * after a queued create, and the `updatedAt` to expect after an update.
+   */
+  rebase(taskId: string, next: { taskId: string; expectedUpdatedAt: string }): Promise<void>;
+}
+
+export const taskMutationQueueApiRef = createApiRef<TaskMutationQueue>({
+  id: 'plugin.task.mutation-queue',
+});
+
+const QUEUE_KEY = 'mutations';
+
+export class StorageTaskMutationQueue implements TaskMutationQueue {
+  private readonly bucket: StorageApi;
+
+  constructor(storageApi: StorageApi) {
+    this.bucket = storageApi.forBucket('task-offline-queue');
+  }
+
+  list(): QueuedMutation[] {
+    return this.bucket.snapshot<QueuedMutation[]>(QUEUE_KEY).value ?? [];
+  }
+
+  pending$(): Observable<QueuedMutation[]> {
+    return this.bucket
+      .observe$<QueuedMutation[]>(QUEUE_KEY)
+      .map(snapshot => snapshot.value ?? []);
+  }
+
+  async enqueue(mutation: QueuedMutation): Promise<void> {
+    await this.bucket.set(QUEUE_KEY, [...this.list(), mutation]);
+  }
+
+  async remove(id: string): Promise<void> {
+    await this.bucket.set(QUEUE_KEY, this.list().filter(m => m.id !== id));
+  }
+
+  async rebase(
+    taskId: string,
+    next: { taskId: string; expectedUpdatedAt: string },
+  ): Promise<void> {
+    await this.bucket.set(
+      QUEUE_KEY,
+      this.list().map(m =>
+        m.taskId === taskId && m.kind !== 'create'
+          ? { ...m, taskId: next.taskId, expectedUpdatedAt: next.expectedUpdatedAt }
+          : m,
+      ),
+    );
+  }
+}
+
+// ==================================================
+// File: src/api/offline/OfflineTaskApi.ts
+// ==================================================
+
+import { ErrorApi } from '@backstage/core-plugin-api';
+import type { Observable } from '@backstage/types';
+import { ApiError, CircuitOpenError, postApiError } from '@internal/api-client';
+import type { TaskApi } from '../TaskApi';
+import type {
+  CreateTaskRequest,
+  MutationOptions,
+  UpdateTaskRequest,
+  TaskData,
+  TaskEvent,
+  TaskPage,
+  TaskQuery,
+  CallOptions,
+} from '../types';
+
+/** Gateway and throttling answers: the backend may accept the mutation later */
+const TRANSIENT_STATUSES = [408, 429, 502, 503, 504];
+
+/**
+ * True when the mutation may still succeed later: the request never got an
+ * answer, the circuit is open ("known to be down"), or a gateway or rate
+ * limit turned it away. Other typed API errors, such as a 409 or a
+ * validation error, are real rejections and are not retried.
+ */
+function isTransient(error: unknown): boolean {
+  return (
+    !(error instanceof ApiError) ||
+    error instanceof CircuitOpenError ||
+    TRANSIENT_STATUSES.includes(error.status)
+  );
+}
+
+const MIN_REPLAY_DELAY_MS = 1000;
+const MAX_REPLAY_DELAY_MS = 60_000;
+
+/**
+ * TaskApi decorator that queues mutations while offline.
+ *
+ * @public
+ */
+export class OfflineTaskApi implements TaskApi {
+  /** Last server state of every task we have seen, for optimistic results */
+  private readonly known = new Map<string, TaskData>();
+  private replaying?: Promise<void>;
+  private replayTimer?: ReturnType<typeof setTimeout>;
+  private replayAttempt = 0;
+
+  constructor(
+    private readonly delegate: TaskApi,
+    private readonly options: {
+      queue: TaskMutationQueue;
+      errorApi: ErrorApi;
+      isOnline?: () => boolean;
+    },
+  ) {
+    window.addEventListener('online', () => this.replay());
+    this.replay();
+  }
+
+  async getTasks(query?: TaskQuery, options?: CallOptions): Promise<TaskPage> {
+    const page = await this.delegate.getTasks(query, options);
+    page.items.forEach(task => this.known.set(task.id, task));
+    return page;
+  }
+
+  async getTask(id: string): Promise<TaskData> {
+    const task = await this.delegate.getTask(id);
+    this.known.set(task.id, task);
+    return task;
+  }
+
+  tasks$(): Observable<TaskEvent> {
+    return this.delegate.tasks$();
+  }
+
+  async createTask(request: CreateTaskRequest): Promise<TaskData> {
+    return this.attempt(
+      () => this.delegate.createTask(request),
+      async () => {
+        const now = new Date();
+        const placeholder: TaskData = {
+          id: `local-${crypto.randomUUID()}`,
+          title: request.title,
+          status: 'pending',
+          createdAt: now,
+          updatedAt: now,
+        };
+        await this.options.queue.enqueue({
+          id: crypto.randomUUID(),
+          kind: 'create',
+          taskId: placeholder.id,
+          request,
+          enqueuedAt: now.toISOString(),
+        });
+        // Follow-up edits of the new task are merged onto the placeholder
+        this.known.set(placeholder.id, placeholder);
+        return placeholder;
+      },
+    );
+  }
+
+  async updateTask(
+    id: string,
+    request: UpdateTaskRequest,
+    options?: MutationOptions,
+  ): Promise<TaskData> {
+    return this.attempt(
+      () => this.delegate.updateTask(id, request, options),
+      async () => {
+        const current = this.known.get(id);
+        if (!current) {
+          throw new Error(
+            `Task ${id} has not been loaded, so it cannot be changed while the backend is unreachable`,
+          );
+        }
+
+        await this.options.queue.enqueue({
+          id: crypto.randomUUID(),
+          kind: 'update',
+          taskId: id,
+          request,
+          expectedUpdatedAt: this.expectedUpdatedAt(id, options),
+          enqueuedAt: new Date().toISOString(),
+        });
+        // `updatedAt` stays at the server value so follow-up edits made
+        // offline expect the same version the queue will replay against
+        const optimistic: TaskData = { ...current, ...request };
+        this.known.set(id, optimistic);
+        return optimistic;
+      },
+    );
+  }
+
+  async deleteTask(id: string, options?: MutationOptions): Promise<void> {
+    return this.attempt(
+      () => this.delegate.deleteTask(id, options),
+      async () => {
+        await this.options.queue.enqueue({
+          id: crypto.randomUUID(),
+          kind: 'delete',
+          taskId: id,
+          expectedUpdatedAt: this.expectedUpdatedAt(id, options),
+          enqueuedAt: new Date().toISOString(),
+        });
+      },
+    );
+  }
+
+  /**
+   * Replay queued mutations in order. Stops at the first mutation that
+   * still can't reach the backend, or is turned away by a gateway or rate
+   * limit, and tries again later with backoff;
+   * drops (and reports) mutations the backend rejects, such as 409
+   * conflicts.
+   */
+  replay(): Promise<void> {
+    if (!this.replaying) {
+      clearTimeout(this.replayTimer);
+      this.replayTimer = undefined;
+
+      // The queue is shared by all tabs; the Web Lock lets only one replay it
+      this.replaying = navigator.locks
+        .request('task-offline-queue', () => this.drain())
+        .then(drained => {
+          if (drained) {
+            this.replayAttempt = 0;
+          } else {
+            this.scheduleReplay();
+          }
+        })
+        .finally(() => {
+          this.replaying = undefined;
+        });
+    }
+    return this.replaying;
+  }
+
+  /**
+   * The `online` event only fires when the browser itself was offline. If
+   * just the backend is down, nothing else would ever replay the queue.
+   */
+  private scheduleReplay(): void {
+    if (this.replayTimer) {
+      return;
+    }
+    const delay = Math.min(
+      MAX_REPLAY_DELAY_MS,
+      MIN_REPLAY_DELAY_MS * 2 ** this.replayAttempt,
+    );
+    this.replayAttempt++;
+    this.replayTimer = setTimeout(() => {
+      this.replayTimer = undefined;
+      this.replay();
+    }, delay);
+  }
+
+  /** Returns false if it stopped because the backend cannot take it yet */
+  private async drain(): Promise<boolean> {
+    const { queue, errorApi } = this.options;
+
+    // Re-read the head every time: rebase() rewrites the stored mutations
+    // that follow, e.g. with the real id of a task created offline
+    for (let mutation = queue.list()[0]; mutation; mutation = queue.list()[0]) {
+      try {
+        if (mutation.kind === 'create') {
+          const task = await this.remember(this.delegate.createTask(mutation.request));
+          await queue.rebase(mutation.taskId, {
+            taskId: task.id,
+            expectedUpdatedAt: new Date(task.updatedAt).toISOString(),
+          });
+        } else if (mutation.kind === 'update') {
+          const task = await this.remember(
+            this.delegate.updateTask(mutation.taskId, mutation.request, {
+              expectedUpdatedAt: mutation.expectedUpdatedAt,
+            }),
+          );
+          await queue.rebase(task.id, {
+            taskId: task.id,
+            expectedUpdatedAt: new Date(task.updatedAt).toISOString(),
+          });
+        } else {
+          await this.delegate.deleteTask(mutation.taskId, {
+            expectedUpdatedAt: mutation.expectedUpdatedAt,
+          });
+        }
+      } catch (error) {
+        if (isTransient(error)) {
+          return false;  // Keep this and all later mutations for the next replay
+        }
+        postApiError(errorApi, error);
+      }
+
+      await queue.remove(mutation.id);
+    }
+    return true;
+  }
+
+  private async attempt<T>(send: () => Promise<T>, enqueue: () => Promise<T>): Promise<T> {
+    // Keep order: never overtake mutations that are still queued
+    const online = this.options.isOnline?.() ?? navigator.onLine;
+    if (!online || this.options.queue.list().length > 0) {
+      return this.queueMutation(enqueue);
+    }
+
+    try {
+      const result = await send();
+      if (result && typeof result === 'object' && 'id' in result) {
+        this.known.set((result as TaskData).id, result as TaskData);
+      }
+      return result;
+    } catch (error) {
+      if (isTransient(error)) {
+        return this.queueMutation(enqueue);
+      }
+      throw error;
+    }
+  }
+
+  private async queueMutation<T>(enqueue: () => Promise<T>): Promise<T> {
+    const result = await enqueue();
+    // Offline, the `online` event replays; if only the backend is down,
+    // the timer does
+    this.scheduleReplay();
+    return result;
+  }
+
+  private async remember(promise: Promise<TaskData>): Promise<TaskData> {
+    const task = await promise;
+    this.known.set(task.id, task);
+    return task;
+  }
+
+  private expectedUpdatedAt(id: string, options?: MutationOptions): string | undefined {
+    const expected = options?.expectedUpdatedAt ?? this.known.get(id)?.updatedAt;
+    return expected ? new Date(expected).toISOString() : undefined;
+  }
+}
+
+// ==================================================
+// File: src/api/offline/index.ts
+// ==================================================
+
+export {
+  taskMutationQueueApiRef,
+  StorageTaskMutationQueue,
+  type TaskMutationQueue,
+  type QueuedMutation,
+} from './TaskMutationQueue';
+export { OfflineTaskApi } from './OfflineTaskApi';
+
+// ==================================================
+// File: src/plugin.ts
+// ==================================================
+
+import {
+  ApiBlueprint,
+  createFrontendPlugin,
+} from '@backstage/frontend-plugin-api';
+import {
+  discoveryApiRef,
+  errorApiRef,
+  fetchApiRef,
+  storageApiRef,
+} from '@backstage/core-plugin-api';
+import { taskApiRef, TaskApiClient } from './api';
+import {
+  OfflineTaskApi,
+  StorageTaskMutationQueue,
+  taskMutationQueueApiRef,
+} from './api/offline';
+
+/**
+ * The queue is its own API so components can show pending changes;
+ * the task API depends on it.
+ */
+const taskMutationQueueApi = ApiBlueprint.make({
+  name: 'task-mutation-queue',
+  params: {
+    api: taskMutationQueueApiRef,
+    deps: { storageApi: storageApiRef },
+    factory: ({ storageApi }) => new StorageTaskMutationQueue(storageApi),
+  },
+});
+
+const taskApi = ApiBlueprint.make({
+  name: 'task-api',
+  params: {
+    api: taskApiRef,
+    deps: {
+      discoveryApi: discoveryApiRef,
+      fetchApi: fetchApiRef,
+      errorApi: errorApiRef,
+      queue: taskMutationQueueApiRef,
+    },
+    factory: ({ discoveryApi, fetchApi, errorApi, queue }) =>
+      new OfflineTaskApi(new TaskApiClient({ discoveryApi, fetchApi }), {
+        queue,
+        errorApi,
+      }),
+  },
+});
+
+export const taskPlugin = createFrontendPlugin({
+  id: 'task',
+  extensions: [
+    taskMutationQueueApi,
+    taskApi,
+    // PageBlueprint.make({ ... }) as in plugin-with-api.tsx
+  ],
+});
+
+// ==================================================
+// File: src/components/PendingChangesBanner.tsx
+// ==================================================
+
+import React from 'react';
+import { useApi } from '@backstage/core-plugin-api';
+import { Alert } from '@material-ui/lab';
+import { taskMutationQueueApiRef } from '../api/offline';
+
+/**
+ * Shown above the task list while queued changes wait for the backend.
+ */
+export const PendingChangesBanner = () => {
+  const queue = useApi(taskMutationQueueApiRef);
+  const [pending, setPending] = React.useState(queue.list());
+
+  React.useEffect(() => {
+    const subscription = queue.pending$().subscribe(setPending);
+    return () => subscription.unsubscribe();
+  }, [queue]);
+
+  if (pending.length === 0) {
+    return null;
+  }
+
+  return (
+    <Alert severity="info">
+      {pending.length} change{pending.length === 1 ? '' : 's'} will be saved
+      when the connection is back.
+    </Alert>
+  );
+};
+
+// ==================================================
+// Key Points
+// ==================================================
+
+/**
+ * 1. Optimistic UI lives in the page, queueing lives in the API
+ *    - TaskListPage updates rows immediately and rolls back on errors
+ *    - OfflineTaskApi never throws "unreachable" for mutations; it queues
+ *    - Gateway errors, 408 and 429 count as unreachable, not as rejections
+ *
+ * 2. Ordering
+ *    - While anything is queued, new mutations are queued too
+ *    - Replay runs one mutation at a time, oldest first, re-reading the queue
+ *      after each so rebased ids and versions are used
+ *    - A Web Lock keeps two tabs from replaying the same queue
+ *
+ * 3. Conflict detection via updatedAt
+ *    - Each mutation carries the `updatedAt` the user last saw
+ *    - The backend answers 409 if the task changed in the meantime
+ *    - Rejected mutations are dropped and reported through the ErrorApi
+ *
+ * 4. Placeholder ids
+ *    - Tasks created offline get a `local-` id
+ *    - After the create replays, later mutations are rebased onto the real id
+ *
+ * 5. Durability
+ *    - The queue is stored through the StorageApi (localStorage by default)
+ *    - It survives reloads; replay also runs on startup and on `online`
+ *    - While the backend stays down, replay retries with backoff (1s to 60s)
+ */
@@ -0,0 +1,296 @@
+/**
+ * Request Batching Example
+ *
+ * This example coalesces per-item calls such as `taskApi.getTask(id)` into
+ * one batch request. A dashboard with 30 task widgets then sends one request
+ * instead of 30, without any change to the widgets.
+ *
+ * Features:
+ * - DataLoader-style `load(key)` that collects calls until the next tick
+ * - Duplicate keys in a batch are requested once
+ * - Batches split at `maxBatchSize`
+ * - Partial results: one failing item rejects only its own callers
+ * - Per-item errors become the same typed errors as single requests
+ *
+ * Location: packages/api-client/src/ (shared as @internal/api-client)
+ */
+
+import { ApiError, apiErrorForStatus } from './api-errors';
+
+// ==============================================
+// 1. Wire Format
+// ==============================================
+
+/**
+ * One entry per requested key, in any order. Failed items carry the status
+ * code and error a single-item request would have returned.
+ *
+ * {
+ *   "items": [
+ *     { "key": "t-1", "status": 200, "value": { "id": "t-1", ... } },
+ *     { "key": "t-2", "status": 404, "error": { "name": "NotFoundError", "message": "Task t-2 not found" } }
+ *   ]
+ * }
+ */
+export type BatchItem<T> =
+  | { key: string; status: 200; value: T }
+  | { key: string; status: number; error: { name: string; message: string } };
+
+export interface BatchResponse<T> {
+  items: BatchItem<T>[];
+}
+
+/**
+ * Orders a batch response by `keys`, turning failed items into typed
+ * ApiErrors (NotFoundError for a 404, and so on).
+ */
+export function fromBatchResponse<T>(
+  keys: string[],
+  response: BatchResponse<T>,
+  request: { method: string; url: string },
+): Array<T | ApiError> {
+  const byKey = new Map(response.items.map(item => [item.key, item]));
+
+  return keys.map(key => {
+    const item = byKey.get(key);
+    if (!item) {
+      return apiErrorForStatus(`${key} missing from batch response`, {
+        ...request,
+        status: 500,
+      });
+    }
+    if ('value' in item) {
+      return item.value;
+    }
+    return apiErrorForStatus(item.error.message, {
+      ...request,
+      status: item.status,
+      body: { error: item.error, response: { statusCode: item.status } },
+    });
+  });
+}
+
+// ==============================================
+// 2. Batch Loader
+// ==============================================
+
+export interface BatchLoaderOptions<K> {
+  /**
+   * How long to collect calls before sending (ms). The default of 0 waits
+   * for the next macrotask, which covers everything rendered in one React
+   * commit, effects included.
+   */
+  windowMs?: number;
+
+  /** Larger batches are split; match the backend's limit */
+  maxBatchSize?: number;
+
+  /** Identity for deduplication; defaults to `String(key)` */
+  keyOf?: (key: K) => string;
+}
+
+interface Caller<V> {
+  resolve(value: V): void;
+  reject(error: unknown): void;
+}
+
+interface QueuedKey<K, V> {
+  key: K;
+  callers: Caller<V>[];
+}
+
+/**
+ * Collects `load()` calls and resolves them from one call to `loadBatch`.
+ *
+ * `loadBatch` receives unique keys and must return one result per key, in
+ * the same order: the value, or an Error for that key alone.
+ *
+ * There is no cache across batches; wrap the client with createCachedApi()
+ * (see api-caching.tsx) for that.
+ */
+export class BatchLoader<K, V> {
+  private readonly windowMs: number;
+  private readonly maxBatchSize: number;
+  private readonly keyOf: (key: K) => string;
+  private queue = new Map<string, QueuedKey<K, V>>();
+  private timer?: ReturnType<typeof setTimeout>;
+
+  constructor(
+    private readonly loadBatch: (keys: K[]) => Promise<Array<V | Error>>,
+    options: BatchLoaderOptions<K> = {},
+  ) {
+    this.windowMs = options.windowMs ?? 0;
+    this.maxBatchSize = options.maxBatchSize ?? 50;
+    this.keyOf = options.keyOf ?? String;
+  }
+
+  /**
+   * Aborting rejects this call only. The batch request is shared with other
+   * callers, so it is not cancelled.
+   */
+  load(key: K, options: { signal?: AbortSignal } = {}): Promise<V> {
+    const { signal } = options;
+    if (signal?.aborted) {
+      return Promise.reject(signal.reason);
+    }
+
+    return new Promise<V>((resolve, reject) => {
+      // Rejecting an already settled promise is a no-op
+      const onAbort = () => reject(signal!.reason);
+      signal?.addEventListener('abort', onAbort, { once: true });
+      // Long-lived signals would otherwise collect one listener per call
+      const removeListener = () => signal?.removeEventListener('abort', onAbort);
+
+      const id = this.keyOf(key);
+      const queued = this.queue.get(id) ?? { key, callers: [] };
+      queued.callers.push({
+        resolve: value => {
+          removeListener();
+          resolve(value);
+        },
+        reject: error => {
+          removeListener();
+          reject(error);
+        },
+      });
+      this.queue.set(id, queued);
+
+      if (this.queue.size >= this.maxBatchSize) {
+        this.flush();
+      } else if (!this.timer) {
+        this.timer = setTimeout(() => this.flush(), this.windowMs);
+      }
+    });
+  }
+
+  private flush(): void {
+    clearTimeout(this.timer);
+    this.timer = undefined;
+    const queued = Array.from(this.queue.values());
+    this.queue = new Map();
+
+    for (let i = 0; i < queued.length; i += this.maxBatchSize) {
+      void this.dispatch(queued.slice(i, i + this.maxBatchSize));
+    }
+  }
+
+  private async dispatch(batch: QueuedKey<K, V>[]): Promise<void> {
+    let results: Array<V | Error>;
+    try {
+      results = await this.loadBatch(batch.map(queued => queued.key));
+      if (results.length !== batch.length) {
+        throw new Error(
+          `Batch function returned ${results.length} results for ${batch.length} keys`,
+        );
+      }
+    } catch (error) {
+      // The whole request failed, e.g. network error or circuit open
+      for (const { callers } of batch) {
+        callers.forEach(caller => caller.reject(error));
+      }
+      return;
+    }
+
+    batch.forEach(({ callers }, i) => {
+      const result = results[i];
+      for (const caller of callers) {
+        if (result instanceof Error) {
+          caller.reject(result);
+        } else {
+          caller.resolve(result);
+        }
+      }
+    });
+  }
+}
+
+// ==============================================
+// 3. Usage in a Client
+// ==============================================
+
+/**
+ * See TaskApiClient in plugins/plugin-with-api.tsx, backed by the
+ * `/tasks/batch-get` route in plugins/task-backend-plugin.ts:
+ *
+ * private readonly taskLoader = new BatchLoader<string, TaskData>(async ids => {
+ *   const response = await this.post<BatchResponse<TaskData>>('/tasks/batch-get', {
+ *     body: { ids },
+ *     idempotent: true,
+ *   });
+ *   return fromBatchResponse(ids, response, { method: 'POST', url: '/tasks/batch-get' });
+ * }, { maxBatchSize: 100 });
+ *
+ * async getTask(id: string): Promise<TaskData> {
+ *   return this.taskLoader.load(id);
+ * }
+ *
+ * `idempotent: true` keeps retries for the read-only POST. The public API is
+ * unchanged, so components, mocks and caching decorators need no changes.
+ */
+
+// ==============================================
+// 4. Testing
+// ==============================================
+
+/**
+ * it('sends one request for calls in the same tick', async () => {
+ *   const loadBatch = jest.fn(async (ids: string[]) =>
+ *     ids.map(id => (id === 'missing' ? new Error('not found') : { id })),
+ *   );
+ *   const loader = new BatchLoader(loadBatch);
+ *
+ *   const results = await Promise.allSettled([
+ *     loader.load('a'),
+ *     loader.load('b'),
+ *     loader.load('a'),
+ *     loader.load('missing'),
+ *   ]);
+ *
+ *   expect(loadBatch).toHaveBeenCalledTimes(1);
+ *   expect(loadBatch).toHaveBeenCalledWith(['a', 'b', 'missing']);
+ *   expect(results.map(r => r.status)).toEqual(['fulfilled', 'fulfilled', 'fulfilled', 'rejected']);
+ * });
+ *
+ * it('removes its abort listeners when the batch settles', async () => {
+ *   const controller = new AbortController();
+ *   const removeEventListener = jest.spyOn(controller.signal, 'removeEventListener');
+ *   const loader = new BatchLoader(async (ids: string[]) => ids.map(id => ({ id })));
+ *
+ *   await loader.load('a', { signal: controller.signal });
+ *
+ *   expect(removeEventListener).toHaveBeenCalledWith('abort', expect.any(Function));
+ * });
+ *
+ * it('maps per-item errors to typed errors', () => {
+ *   const [task, missing] = fromBatchResponse(
+ *     ['t-1', 't-2'],
+ *     {
+ *       items: [
+ *         { key: 't-2', status: 404, error: { name: 'NotFoundError', message: 'Task t-2 not found' } },
+ *         { key: 't-1', status: 200, value: { id: 't-1' } },
+ *       ],
+ *     },
+ *     { method: 'POST', url: '/tasks/batch-get' },
+ *   );
+ *   expect(task).toEqual({ id: 't-1' });
+ *   expect(missing).toBeInstanceOf(NotFoundError);
+ * });
+ */
+
+// ==============================================
+// Key Points
+// ==============================================
+
+/**
+ * 1. Batch inside the client
+ *    - Components keep calling `getTask(id)`
+ *    - Calls in the same tick share one request
+ *
+ * 2. Partial results
+ *    - The backend answers 200 with a status per item
+ *    - One missing task does not fail the other 29 widgets
+ *
+ * 3. Same errors as before
+ *    - Item errors become NotFoundError, ForbiddenError, ...
+ *    - A failed batch request rejects every caller with the request error
+ */
@@ -0,0 +1,452 @@
+/**
+ * Generic API Caching Example
+ *
+ * This example shows how to add caching to ANY utility API implementation
+ * with a single decorator, instead of hand-writing a Map cache per method.
+ *
+ * Features:
+ * - Opt-in per method, with per-method TTLs
+ * - Max entry count with LRU eviction
+ * - Stale-while-revalidate
+ * - In-flight request deduplication
+ * - Explicit invalidation
+ * - Per-API cache config block in app-config.yaml
+ */
+
+import { ConfigApi } from '@backstage/core-plugin-api';
+
+// ==============================================
+// 1. Cache Options
+// ==============================================
+
+/**
+ * Caching options for a single API method.
+ */
+export interface MethodCacheOptions {
+  /** How long a result is fresh, in milliseconds */
+  ttl?: number;
+
+  /**
+   * How long an expired result may still be served while it is refreshed
+   * in the background, in milliseconds. 0 disables stale-while-revalidate.
+   */
+  staleWhileRevalidate?: number;
+}
+
+/**
+ * Caching options for a whole API.
+ *
+ * Only the methods listed in `methods` are cached; everything else, such as
+ * `createTask` or `tasks$`, is passed straight through to the delegate. Use
+ * `true` to cache a method with the API-wide defaults and `false` to turn a
+ * listed method off again.
+ */
+export interface ApiCacheOptions<TApi> extends MethodCacheOptions {
+  /** Maximum number of cached results across all methods */
+  maxEntries?: number;
+
+  /** Methods to cache, with optional per-method overrides */
+  methods?: Partial<Record<keyof TApi, MethodCacheOptions | boolean>>;
+
+  /** Builds the cache key for a call. Defaults to method name + JSON args */
+  keyFn?: (method: string, args: unknown[]) => string;
+}
+
+const DEFAULT_TTL = 5 * 60 * 1000;
+const DEFAULT_MAX_ENTRIES = 100;
+
+// ==============================================
+// 2. LRU Store
+// ==============================================
+
+interface CacheEntry {
+  method: string;
+  value: unknown;
+  expires: number;
+  staleUntil: number;
+}
+
+/**
+ * Minimal LRU store.
+ *
+ * A Map iterates in insertion order, so re-inserting an entry on every read
+ * keeps the least recently used entry first. Keys are also indexed by
+ * method, since a custom `keyFn` need not start them with the method name.
+ */
+class LruStore {
+  private readonly entries = new Map<string, CacheEntry>();
+  private readonly keysByMethod = new Map<string, Set<string>>();
+
+  constructor(private readonly maxEntries: number) {}
+
+  get(key: string): CacheEntry | undefined {
+    const entry = this.entries.get(key);
+    if (entry) {
+      this.entries.delete(key);
+      this.entries.set(key, entry);
+    }
+    return entry;
+  }
+
+  set(key: string, entry: CacheEntry): void {
+    this.delete(key);
+    this.entries.set(key, entry);
+
+    let keys = this.keysByMethod.get(entry.method);
+    if (!keys) {
+      keys = new Set();
+      this.keysByMethod.set(entry.method, keys);
+    }
+    keys.add(key);
+
+    while (this.entries.size > this.maxEntries) {
+      this.delete(this.entries.keys().next().value as string);
+    }
+  }
+
+  delete(key: string): void {
+    const entry = this.entries.get(key);
+    if (!entry) {
+      return;
+    }
+    this.entries.delete(key);
+
+    const keys = this.keysByMethod.get(entry.method);
+    keys?.delete(key);
+    if (keys?.size === 0) {
+      this.keysByMethod.delete(entry.method);
+    }
+  }
+
+  deleteMethod(method: string): void {
+    for (const key of this.keysByMethod.get(method) ?? []) {
+      this.entries.delete(key);
+    }
+    this.keysByMethod.delete(method);
+  }
+
+  clear(): void {
+    this.entries.clear();
+    this.keysByMethod.clear();
+  }
+}
+
+// ==============================================
+// 3. Caching Decorator
+// ==============================================
+
+/**
+ * Cache control methods added to every cached API.
+ */
+export interface ApiCacheControl<TApi> {
+  /**
+   * Invalidate cached results.
+   *
+   * - `invalidate()` drops everything
+   * - `invalidate('getForecast')` drops all results of one method
+   * - `invalidate('getForecast', 'Berlin', 3)` drops a single result
+   */
+  invalidate<K extends keyof TApi>(method?: K, ...args: unknown[]): void;
+}
+
+export type CachedApi<TApi> = TApi & ApiCacheControl<TApi>;
+
+const defaultKeyFn = (method: string, args: unknown[]) =>
+  `${method}:${JSON.stringify(args)}`;
+
+const isPromiseLike = (value: unknown): value is PromiseLike<unknown> =>
+  typeof (value as PromiseLike<unknown> | undefined)?.then === 'function';
+
+/**
+ * Wrap an API implementation with caching.
+ *
+ * Only Promise results are cached. If an opted-in method returns anything
+ * else (a plain value or an Observable), the result is passed through
+ * unchanged and nothing is stored. The decorator keeps the delegate's
+ * method signatures, so it can be returned directly from an ApiBlueprint
+ * factory.
+ *
+ * @example
+ * ```typescript
+ * const cached = createCachedApi<WeatherApi>(new WeatherApiClient(deps), {
+ *   ttl: 5 * 60 * 1000,
+ *   maxEntries: 50,
+ *   methods: { getCurrentWeather: true, getForecast: { ttl: 30 * 60 * 1000 } },
+ * });
+ *
+ * cached.invalidate('getCurrentWeather', 'Berlin');
+ * ```
+ */
+export function createCachedApi<TApi extends object>(
+  delegate: TApi,
+  options: ApiCacheOptions<TApi> = {},
+): CachedApi<TApi> {
+  if ('invalidate' in delegate) {
+    throw new Error(
+      'createCachedApi: the delegate already has an invalidate member, which the cache control would shadow',
+    );
+  }
+
+  const store = new LruStore(options.maxEntries ?? DEFAULT_MAX_ENTRIES);
+  const inFlight = new Map<string, { method: string; promise: Promise<unknown> }>();
+  const keyFn = options.keyFn ?? defaultKeyFn;
+
+  const methodOptions = (method: string): Required<MethodCacheOptions> | undefined => {
+    const override = options.methods?.[method as keyof TApi];
+    if (override === undefined || override === false) {
+      return undefined;
+    }
+    const overrides = override === true ? {} : override;
+    return {
+      ttl: overrides.ttl ?? options.ttl ?? DEFAULT_TTL,
+      staleWhileRevalidate:
+        overrides.staleWhileRevalidate ?? options.staleWhileRevalidate ?? 0,
+    };
+  };
+
+  // Deduplicates concurrent calls for the same key and stores the result.
+  // Returns the delegate's result untouched when it is not a Promise.
+  const load = (
+    method: string,
+    key: string,
+    call: () => unknown,
+    { ttl, staleWhileRevalidate }: Required<MethodCacheOptions>,
+  ): unknown => {
+    const pending = inFlight.get(key);
+    if (pending) {
+      return pending.promise;
+    }
+
+    const result = call();
+    if (!isPromiseLike(result)) {
+      return result;
+    }
+
+    const promise: Promise<unknown> = Promise.resolve(result)
+      .then(value => {
+        // Invalidation removes the in-flight entry; a load that started
+        // before it must not write its (possibly stale) result back
+        if (inFlight.get(key)?.promise === promise) {
+          const now = Date.now();
+          store.set(key, {
+            method,
+            value,
+            expires: now + ttl,
+            staleUntil: now + ttl + staleWhileRevalidate,
+          });
+        }
+        return value;
+      })
+      .finally(() => {
+        if (inFlight.get(key)?.promise === promise) {
+          inFlight.delete(key);
+        }
+      });
+
+    inFlight.set(key, { method, promise });
+    return promise;
+  };
+
+  const deleteInFlight = (method: string) => {
+    for (const [key, pending] of Array.from(inFlight)) {
+      if (pending.method === method) {
+        inFlight.delete(key);
+      }
+    }
+  };
+
+  const invalidate = (method?: keyof TApi, ...args: unknown[]) => {
+    if (method === undefined) {
+      store.clear();
+      inFlight.clear();
+    } else if (args.length === 0) {
+      store.deleteMethod(String(method));
+      deleteInFlight(String(method));
+    } else {
+      const key = keyFn(String(method), args);
+      store.delete(key);
+      inFlight.delete(key);
+    }
+  };
+
+  return new Proxy(delegate, {
+    get(target, property, receiver) {
+      if (property === 'invalidate') {
+        return invalidate;
+      }
+
+      const value = Reflect.get(target, property, receiver);
+      if (typeof value !== 'function' || typeof property !== 'string') {
+        return value;
+      }
+
+      const cacheOptions = methodOptions(property);
+      if (!cacheOptions) {
+        return value.bind(target);
+      }
+
+      return (...args: unknown[]) => {
+        const key = keyFn(property, args);
+        const call = () => value.apply(target, args);
+        const entry = store.get(key);
+        const now = Date.now();
+
+        if (entry && entry.expires > now) {
+          return Promise.resolve(entry.value);
+        }
+
+        if (entry && entry.staleUntil > now) {
+          // Serve stale data, refresh in the background
+          Promise.resolve(load(property, key, call, cacheOptions)).catch(() => {
+            // Keep serving the stale value; the next miss will surface errors
+          });
+          return Promise.resolve(entry.value);
+        }
+
+        return load(property, key, call, cacheOptions);
+      };
+    },
+  }) as CachedApi<TApi>;
+}
+
+// ==============================================
+// 4. Reading the Per-API Cache Config Block
+// ==============================================
+
+/**
+ * Read cache options for an API from app-config.yaml.
+ *
+ * `cachedMethods` are the methods the API caches by default. The block
+ * lives under `<configKey>.cache`, for example `weather.cache`; listing a
+ * method there opts it in as well:
+ *
+ * weather:
+ *   cache:
+ *     ttl: 300000                 # Default TTL for all methods (ms)
+ *     staleWhileRevalidate: 60000 # Serve stale for up to 1 minute (ms)
+ *     maxEntries: 100
+ *     methods:
+ *       getCurrentWeather:
+ *         ttl: 60000
+ *       getForecast:
+ *         ttl: 1800000
+ *
+ * Set `enabled: false` in a method block to bypass the cache for it.
+ */
+export function readApiCacheOptions<TApi>(
+  configApi: ConfigApi,
+  configKey: string,
+  cachedMethods: Array<keyof TApi> = [],
+): ApiCacheOptions<TApi> {
+  const methods: Partial<Record<keyof TApi, MethodCacheOptions | boolean>> = {};
+  for (const method of cachedMethods) {
+    methods[method] = true;
+  }
+
+  const config = configApi.getOptionalConfig(`${configKey}.cache`);
+  if (!config) {
+    return { methods };
+  }
+
+  const methodsConfig = config.getOptionalConfig('methods');
+  for (const method of methodsConfig?.keys() ?? []) {
+    const methodConfig = methodsConfig!.getConfig(method);
+    methods[method as keyof TApi] =
+      methodConfig.getOptionalBoolean('enabled') === false
+        ? false
+        : {
+            ttl: methodConfig.getOptionalNumber('ttl'),
+            staleWhileRevalidate: methodConfig.getOptionalNumber('staleWhileRevalidate'),
+          };
+  }
+
+  return {
+    ttl: config.getOptionalNumber('ttl'),
+    staleWhileRevalidate: config.getOptionalNumber('staleWhileRevalidate'),
+    maxEntries: config.getOptionalNumber('maxEntries'),
+    methods,
+  };
+}
+
+// ==============================================
+// 5. Register a Cached API with ApiBlueprint
+// ==============================================
+
+import { ApiBlueprint } from '@backstage/frontend-plugin-api';
+import {
+  configApiRef,
+  discoveryApiRef,
+  fetchApiRef,
+} from '@backstage/core-plugin-api';
+import { taskApiRef, TaskApi, TaskApiClient } from '../plugins/plugin-with-api';
+
+/**
+ * The same decorator works for any API. Only the reads are opted in, so
+ * mutations and the tasks$ stream always hit the backend, and mutations
+ * invalidate the cached reads.
+ */
+export const cachedTaskApi = ApiBlueprint.make({
+  name: 'task-api',
+  params: {
+    api: taskApiRef,
+    deps: {
+      discoveryApi: discoveryApiRef,
+      fetchApi: fetchApiRef,
+      configApi: configApiRef,
+    },
+    factory: ({ discoveryApi, fetchApi, configApi }) => {
+      const cached = createCachedApi<TaskApi>(
+        new TaskApiClient({ discoveryApi, fetchApi }),
+        readApiCacheOptions<TaskApi>(configApi, 'task', ['getTasks', 'getTask']),
+      );
+
+      return {
+        getTasks: query => cached.getTasks(query),
+        getTask: (id: string) => cached.getTask(id),
+        createTask: async request => {
+          const task = await cached.createTask(request);
+          cached.invalidate('getTasks');
+          return task;
+        },
+        updateTask: async (id, request) => {
+          const task = await cached.updateTask(id, request);
+          cached.invalidate('getTasks');
+          cached.invalidate('getTask', id);
+          return task;
+        },
+        deleteTask: async id => {
+          await cached.deleteTask(id);
+          cached.invalidate('getTasks');
+          cached.invalidate('getTask', id);
+        },
+        tasks$: () => cached.tasks$(),
+      } satisfies TaskApi;
+    },
+  },
+});
+
+// ==============================================
+// Key Points
+// ==============================================
+
+/**
+ * 1. One decorator, any API
+ *    - No per-method cache code in API clients
+ *    - Cache policy lives in config, not in the client
+ *
+ * 2. Opt in reads only
+ *    - Methods not listed in `methods` are never cached
+ *    - Non-Promise results (Observables like `tasks$`) pass through as-is
+ *    - Invalidate related reads after a mutation succeeds
+ *
+ * 3. Stale-while-revalidate
+ *    - Expired results are served immediately while a refresh runs
+ *    - Background refresh errors are swallowed; the next miss reports them
+ *
+ * 4. Deduplication
+ *    - Concurrent calls with the same key share one request
+ *    - Invalidation drops in-flight loads, so they never write back stale data
+ *
+ * 5. LRU eviction
+ *    - `maxEntries` bounds memory across all methods of one API
+ */
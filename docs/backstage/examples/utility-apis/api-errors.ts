@@ -0,0 +1,259 @@
+/**
+ * Typed API Errors Example
+ *
+ * This example shows a typed error hierarchy for API clients. Instead of
+ * `new Error(`Failed to fetch tasks: ${response.statusText}`)`, clients
+ * throw errors that keep the status code, the parsed backend error body
+ * and the request ID, so components can react to the kind of failure and
+ * show the user what to do next.
+ *
+ * Location: packages/api-client/src/errors.ts (shared as @internal/api-client)
+ */
+
+import type { ErrorApi } from '@backstage/core-plugin-api';
+
+// ==============================================
+// 1. Backend Error Body
+// ==============================================
+
+/**
+ * Error body returned by Backstage backends (`errorHandler()` middleware),
+ * optionally extended with field-level validation details.
+ *
+ * {
+ *   "error": { "name": "InputError", "message": "title is required" },
+ *   "request": { "method": "POST", "url": "/api/task/tasks" },
+ *   "response": { "statusCode": 422 },
+ *   "details": [{ "field": "title", "message": "is required" }]
+ * }
+ */
+export interface ApiErrorBody {
+  error?: { name?: string; message?: string };
+  request?: { method?: string; url?: string };
+  response?: { statusCode?: number };
+  details?: FieldError[];
+}
+
+export interface FieldError {
+  field: string;
+  message: string;
+}
+
+// ==============================================
+// 2. Error Hierarchy
+// ==============================================
+
+export interface ApiErrorOptions {
+  status: number;
+  body?: ApiErrorBody;
+  requestId?: string;
+  method?: string;
+  url?: string;
+}
+
+/**
+ * Base class for all errors thrown by API clients.
+ *
+ * @public
+ */
+export class ApiError extends Error {
+  readonly status: number;
+  readonly body?: ApiErrorBody;
+  readonly requestId?: string;
+  readonly method?: string;
+  readonly url?: string;
+
+  constructor(message: string, options: ApiErrorOptions) {
+    super(message);
+    // A literal, not new.target.name: minifiers rename classes, and
+    // postApiError and the call metrics group by name
+    this.name = 'ApiError';
+    this.status = options.status;
+    this.body = options.body;
+    this.requestId = options.requestId;
+    this.method = options.method;
+    this.url = options.url;
+  }
+}
+
+/** 401 - the session is missing or expired */
+export class UnauthorizedError extends ApiError {
+  name = 'UnauthorizedError';
+}
+
+/** 403 - signed in, but not allowed */
+export class ForbiddenError extends ApiError {
+  name = 'ForbiddenError';
+}
+
+/** 404 - the resource does not exist */
+export class NotFoundError extends ApiError {
+  name = 'NotFoundError';
+}
+
+/** 409 - the resource changed or already exists */
+export class ConflictError extends ApiError {
+  name = 'ConflictError';
+}
+
+/** 400 / 422 - the request was rejected, usually with field details */
+export class ValidationError extends ApiError {
+  name = 'ValidationError';
+
+  get fieldErrors(): FieldError[] {
+    return this.body?.details ?? [];
+  }
+}
+
+/** 5xx - the backend failed */
+export class ServerError extends ApiError {
+  name = 'ServerError';
+}
+
+/** The circuit breaker is open; the request was never sent */
+export class CircuitOpenError extends ServerError {
+  name = 'CircuitOpenError';
+
+  constructor(readonly retryInMs: number, options: Omit<ApiErrorOptions, 'status'>) {
+    super(
+      `${options.method} ${options.url} rejected: circuit open, retry in ${Math.ceil(retryInMs / 1000)}s`,
+      { ...options, status: 503 },
+    );
+  }
+}
+
+// ==============================================
+// 3. Building Errors from Responses
+// ==============================================
+
+async function parseBody(response: Response): Promise<ApiErrorBody | undefined> {
+  try {
+    const text = await response.text();
+    return text ? JSON.parse(text) : undefined;
+  } catch {
+    // Not JSON, e.g. an HTML error page from a proxy
+    return undefined;
+  }
+}
+
+/**
+ * Create the matching typed error for a status code. Also used for the
+ * per-item errors of batch responses (see api-batching.ts).
+ */
+export function apiErrorForStatus(message: string, options: ApiErrorOptions): ApiError {
+  switch (options.status) {
+    case 400:
+    case 422:
+      return new ValidationError(message, options);
+    case 401:
+      return new UnauthorizedError(message, options);
+    case 403:
+      return new ForbiddenError(message, options);
+    case 404:
+      return new NotFoundError(message, options);
+    case 409:
+      return new ConflictError(message, options);
+    default:
+      return options.status >= 500
+        ? new ServerError(message, options)
+        : new ApiError(message, options);
+  }
+}
+
+/**
+ * Create the matching typed error for a non-2xx response.
+ */
+export async function createApiError(
+  response: Response,
+  request: { method: string; url: string },
+): Promise<ApiError> {
+  const body = await parseBody(response);
+  const message =
+    body?.error?.message ??
+    `${request.method} ${request.url} failed: ${response.status} ${response.statusText}`;
+
+  return apiErrorForStatus(message, {
+    status: response.status,
+    body,
+    requestId: response.headers.get('x-request-id') ?? undefined,
+    method: request.method,
+    url: request.url,
+  });
+}
+
+// ==============================================
+// 4. Actionable Messages
+// ==============================================
+
+/**
+ * Describe an error in terms of what the user can do about it.
+ */
+export function describeApiError(error: unknown): string {
+  if (!(error instanceof ApiError)) {
+    return error instanceof Error ? error.message : String(error);
+  }
+
+  const reference = error.requestId ? ` (request ID: ${error.requestId})` : '';
+
+  if (error instanceof UnauthorizedError) {
+    return `Your session has expired. Please sign in again.${reference}`;
+  }
+  if (error instanceof ForbiddenError) {
+    return `You don't have permission to do this. Ask an owner of this resource for access.${reference}`;
+  }
+  if (error instanceof NotFoundError) {
+    return `This item no longer exists. It may have been deleted.${reference}`;
+  }
+  if (error instanceof ConflictError) {
+    return `This item was changed by someone else. Reload and try again.${reference}`;
+  }
+  if (error instanceof ValidationError) {
+    const fields = error.fieldErrors.map(f => `${f.field}: ${f.message}`);
+    return fields.length > 0
+      ? `Please fix the following: ${fields.join('; ')}`
+      : `The request was rejected: ${error.message}`;
+  }
+  if (error instanceof CircuitOpenError) {
+    return `The service is unavailable. Retrying in ${Math.ceil(error.retryInMs / 1000)}s.`;
+  }
+  if (error instanceof ServerError) {
+    return `The service is having problems. Try again later.${reference}`;
+  }
+  return `${error.message}${reference}`;
+}
+
+/**
+ * Post an API error to the ErrorApi with an actionable message.
+ *
+ * The posted error keeps the original name (e.g. `UnauthorizedError`) so
+ * error reporters can still group by error class.
+ */
+export function postApiError(errorApi: ErrorApi, error: unknown): void {
+  const name = error instanceof Error ? error.name : 'Error';
+  errorApi.post({
+    name,
+    message: describeApiError(error),
+    stack: error instanceof Error ? error.stack : undefined,
+  });
+}
+
+// ==============================================
+// Key Points
+// ==============================================
+
+/**
+ * 1. Branch on the class, not the message
+ *    - `if (error instanceof NotFoundError)` instead of string matching
+ *
+ * 2. Keep the backend payload
+ *    - `error.body` is the parsed JSON error body
+ *    - `ValidationError.fieldErrors` drives form field messages
+ *
+ * 3. Keep the request ID
+ *    - Read from the `x-request-id` response header
+ *    - Shown in messages so users can quote it in support requests
+ *
+ * 4. Tell users what to do
+ *    - `describeApiError()` maps each class to an actionable message
+ *    - `postApiError()` sends it through the ErrorApi
+ */
@@ -10,52 +10,52 @@ import {
   FetchApi,
   ConfigApi,
 } from '@backstage/core-plugin-api';
-import { weatherApiRef, WeatherApi, WeatherData, ForecastData } from './creating-api-ref';
+import {
+  weatherApiRef,
+  WeatherApi,
+  WeatherData,
+  ForecastData,
+  CallOptions,
+} from './creating-api-ref';
 
 // ==============================================
 // 1. Basic API Implementation
 // ==============================================
 
-export class WeatherApiClient implements WeatherApi {
-  private readonly discoveryApi: DiscoveryApi;
-  private readonly fetchApi: FetchApi;
+/**
+ * Clients extend BaseApiClient (see base-api-client.ts), which handles
+ * discovery, JSON decoding, retries, timeouts and the circuit breaker.
+ */
 
+import { BaseApiClient, BaseApiClientOptions } from './base-api-client';
+
+export class WeatherApiClient extends BaseApiClient implements WeatherApi {
   constructor(options: {
     discoveryApi: DiscoveryApi;
     fetchApi: FetchApi;
-  }) {
-    this.discoveryApi = options.discoveryApi;
-    this.fetchApi = options.fetchApi;
+  } & Pick<BaseApiClientOptions, 'retry' | 'timeoutMs' | 'circuitBreaker'>) {
+    super({ ...options, pluginId: 'weather' });
   }
 
-  async getCurrentWeather(location: string): Promise<WeatherData> {
-    const baseUrl = await this.discoveryApi.getBaseUrl('weather');
-    const url = `${baseUrl}/current?location=${encodeURIComponent(location)}`;
-
-    const response = await this.fetchApi.fetch(url);
-
-    if (!response.ok) {
-      throw new Error(
-        `Failed to fetch weather: ${response.status} ${response.statusText}`
-      );
-    }
-
-    return await response.json();
+  async getCurrentWeather(
+    location: string,
+    options: CallOptions = {},
+  ): Promise<WeatherData> {
+    return this.get<WeatherData>('/current', {
+      query: { location },
+      signal: options.signal,
+    });
   }
 
-  async getForecast(location: string, days: number): Promise<ForecastData> {
-    const baseUrl = await this.discoveryApi.getBaseUrl('weather');
-    const url = `${baseUrl}/forecast?location=${encodeURIComponent(location)}&days=${days}`;
-
-    const response = await this.fetchApi.fetch(url);
-
-    if (!response.ok) {
-      throw new Error(
-        `Failed to fetch forecast: ${response.status} ${response.statusText}`
-      );
-    }
-
-    return await response.json();
+  async getForecast(
+    location: string,
+    days: number,
+    options: CallOptions = {},
+  ): Promise<ForecastData> {
+    return this.get<ForecastData>('/forecast', {
+      query: { location, days },
+      signal: options.signal,
+    });
   }
 }
 
@@ -163,42 +163,47 @@ export const WeatherWidget = () => {
 // 6. Implementation with Configuration
 // ==============================================
 
-export class ConfigurableWeatherApiClient implements WeatherApi {
-  private readonly apiKey: string;
-  private readonly baseUrl: string;
-  private readonly fetchApi: FetchApi;
+/**
+ * Calls the weather provider through the credential proxy
+ * (plugins/credential-proxy-backend-plugin.ts), which adds the API key on
+ * the server. Never read a secret from frontend config: everything the
+ * configApi can see is shipped to the browser.
+ */
+export class ConfigurableWeatherApiClient extends BaseApiClient implements WeatherApi {
+  private readonly route: string;
 
   constructor(options: {
     configApi: ConfigApi;
+    discoveryApi: DiscoveryApi;
     fetchApi: FetchApi;
   }) {
-    // Read configuration
-    this.apiKey = options.configApi.getString('weather.apiKey');
-    this.baseUrl = options.configApi.getOptionalString('weather.baseUrl')
-      ?? 'https://api.weather.com';
-    this.fetchApi = options.fetchApi;
+    super({
+      discoveryApi: options.discoveryApi,
+      fetchApi: options.fetchApi,
+      pluginId: 'credential-proxy',
+    });
+    this.route = options.configApi.getOptionalString('weather.proxyRoute') ?? 'weather';
   }
 
-  async getCurrentWeather(location: string): Promise<WeatherData> {
-    const url = `${this.baseUrl}/current?location=${encodeURIComponent(location)}&apiKey=${this.apiKey}`;
-    const response = await this.fetchApi.fetch(url);
-
-    if (!response.ok) {
-      throw new Error(`Weather API error: ${response.statusText}`);
-    }
-
-    return await response.json();
+  async getCurrentWeather(
+    location: string,
+    options: CallOptions = {},
+  ): Promise<WeatherData> {
+    return this.get<WeatherData>(`/${this.route}/current`, {
+      query: { location },
+      signal: options.signal,
+    });
   }
 
-  async getForecast(location: string, days: number): Promise<ForecastData> {
-    const url = `${this.baseUrl}/forecast?location=${encodeURIComponent(location)}&days=${days}&apiKey=${this.apiKey}`;
-    const response = await this.fetchApi.fetch(url);
-
-    if (!response.ok) {
-      throw new Error(`Weather API error: ${response.statusText}`);
-    }
-
-    return await response.json();
+  async getForecast(
+    location: string,
+    days: number,
+    options: CallOptions = {},
+  ): Promise<ForecastData> {
+    return this.get<ForecastData>(`/${this.route}/forecast`, {
+      query: { location, days },
+      signal: options.signal,
+    });
   }
 }
 
@@ -211,10 +216,11 @@ export const configurableWeatherApi = ApiBlueprint.make({
     api: weatherApiRef,
     deps: {
       configApi: configApiRef,
+      discoveryApi: discoveryApiRef,
       fetchApi: fetchApiRef,
     },
-    factory: ({ configApi, fetchApi }) => {
-      return new ConfigurableWeatherApiClient({ configApi, fetchApi });
+    factory: ({ configApi, discoveryApi, fetchApi }) => {
+      return new ConfigurableWeatherApiClient({ configApi, discoveryApi, fetchApi });
     },
   },
 });
@@ -223,63 +229,31 @@ export const configurableWeatherApi = ApiBlueprint.make({
  * Configuration in app-config.yaml:
  *
  * weather:
- *   apiKey: ${WEATHER_API_KEY}
- *   baseUrl: https://api.weather.com  # Optional, has default
+ *   proxyRoute: weather  # Optional, has default
+ *
+ * credentialProxy:       # Backend only, never sent to the browser
+ *   routes:
+ *     weather:
+ *       target: https://api.weather.com
+ *       allowedPaths: [/current, /forecast]
+ *       credentials:
+ *         type: header
+ *         header: X-Api-Key
+ *         value: ${WEATHER_API_KEY}
  */
 
 // ==============================================
 // 7. Implementation with Caching
 // ==============================================
 
-export class CachedWeatherApiClient implements WeatherApi {
-  private readonly delegate: WeatherApi;
-  private readonly cache = new Map<string, {
-    data: any;
-    expires: number;
-  }>();
-  private readonly cacheTtl: number;
-
-  constructor(delegate: WeatherApi, cacheTtl: number = 5 * 60 * 1000) {
-    this.delegate = delegate;
-    this.cacheTtl = cacheTtl;
-  }
-
-  async getCurrentWeather(location: string): Promise<WeatherData> {
-    const cacheKey = `current:${location}`;
-    const cached = this.cache.get(cacheKey);
-
-    if (cached && cached.expires > Date.now()) {
-      return cached.data;
-    }
-
-    const data = await this.delegate.getCurrentWeather(location);
-
-    this.cache.set(cacheKey, {
-      data,
-      expires: Date.now() + this.cacheTtl,
-    });
-
-    return data;
-  }
-
-  async getForecast(location: string, days: number): Promise<ForecastData> {
-    const cacheKey = `forecast:${location}:${days}`;
-    const cached = this.cache.get(cacheKey);
-
-    if (cached && cached.expires > Date.now()) {
-      return cached.data;
-    }
+/**
+ * Don't hand-roll a Map cache per method. Wrap the client with the generic
+ * caching decorator instead (see api-caching.tsx), which adds per-method
+ * TTLs, LRU eviction, stale-while-revalidate, request deduplication and
+ * explicit invalidation to any API.
+ */
 
-    const data = await this.delegate.getForecast(location, days);
-
-    this.cache.set(cacheKey, {
-      data,
-      expires: Date.now() + this.cacheTtl,
-    });
-
-    return data;
-  }
-}
+import { createCachedApi, readApiCacheOptions } from './api-caching';
 
 // Register cached version
 export const cachedWeatherApi = ApiBlueprint.make({
@@ -293,17 +267,40 @@ export const cachedWeatherApi = ApiBlueprint.make({
     },
     factory: ({ discoveryApi, fetchApi, configApi }) => {
       const baseClient = new WeatherApiClient({ discoveryApi, fetchApi });
-      const cacheTtl = configApi.getOptionalNumber('weather.cacheTtl') ?? 300000;
 
-      return new CachedWeatherApiClient(baseClient, cacheTtl);
+      return createCachedApi<WeatherApi>(
+        baseClient,
+        readApiCacheOptions<WeatherApi>(configApi, 'weather', [
+          'getCurrentWeather',
+          'getForecast',
+        ]),
+      );
     },
   },
 });
 
+/**
+ * Configuration in app-config.yaml:
+ *
+ * weather:
+ *   cache:
+ *     ttl: 300000            # Default for cached methods (ms)
+ *     maxEntries: 100
+ *     methods:
+ *       getForecast:
+ *         ttl: 1800000       # Forecasts change less often
+ */
+
 // ==============================================
 // 8. Mock Implementation for Testing
 // ==============================================
 
+/**
+ * Fine for local development and for component tests that only need some
+ * data. For client tests, replay real backend responses instead
+ * (see recorded-fetch-api.ts).
+ */
+
 export class MockWeatherApiClient implements WeatherApi {
   async getCurrentWeather(location: string): Promise<WeatherData> {
     // Return mock data
@@ -339,17 +336,52 @@ export const devWeatherApi = ApiBlueprint.make({
   },
 });
 
+// ==============================================
+// 9. Choosing the Implementation from Config
+// ==============================================
+
+/**
+ * The registrations above all use the name 'weather', so an app can only
+ * install one of them. Rather than choosing with a NODE_ENV ternary at build
+ * time, register all of them as variants of one extension and let
+ * app-config pick (see api-variants.ts).
+ */
+
+import { createApiVariants } from './api-variants';
+
+export const weatherApiVariants = createApiVariants({
+  name: 'weather',
+  api: weatherApiRef,
+  configKey: 'weather.implementation',
+  defaultVariant: 'cached',
+  deps: {
+    discoveryApi: discoveryApiRef,
+    fetchApi: fetchApiRef,
+  },
+  variants: {
+    mock: () => new MockWeatherApiClient(),
+    direct: ({ configApi, discoveryApi, fetchApi }) =>
+      new ConfigurableWeatherApiClient({ configApi, discoveryApi, fetchApi }),
+    cached: ({ discoveryApi, fetchApi, configApi }) =>
+      createCachedApi<WeatherApi>(
+        new WeatherApiClient({ discoveryApi, fetchApi }),
+        readApiCacheOptions<WeatherApi>(configApi, 'weather', [
+          'getCurrentWeather',
+          'getForecast',
+        ]),
+      ),
+  },
+});
+
 /**
- * Conditional registration based on environment:
- *
  * import { createFrontendModule } from '@backstage/frontend-plugin-api';
  *
  * export const weatherApiModule = createFrontendModule({
  *   pluginId: 'weather',
- *   extensions: [
- *     process.env.NODE_ENV === 'development'
- *       ? devWeatherApi
- *       : cachedWeatherApi
- *   ],
+ *   extensions: [weatherApiVariants],
  * });
+ *
+ * # app-config.yaml - mock | direct | cached, default cached
+ * weather:
+ *   implementation: mock
  */
@@ -0,0 +1,444 @@
+/**
+ * API Instrumentation Example
+ *
+ * This example instruments every call on a utility API in one place, at
+ * registration, instead of ad-hoc `useApiOptional(analyticsApiRef)` calls in
+ * components (see section 4 of consuming-api.tsx).
+ *
+ * Features:
+ * - Opt-in per API: `createInstrumentedApi()` instead of `ApiBlueprint.make()`
+ * - Method name, duration, outcome and error class for every async call
+ * - Events to the AnalyticsApi and to an in-memory metrics buffer
+ * - A developer page listing the slowest and most failing API methods
+ */
+
+import {
+  ApiRef,
+  TypesToApiRefs,
+  createApiRef,
+} from '@backstage/core-plugin-api';
+import {
+  AnalyticsApi,
+  AnalyticsContextValue,
+  analyticsApiRef,
+} from '@backstage/frontend-plugin-api';
+import { apiAnalyticsContext, wrapApiMethods } from './api-method-proxy';
+
+// ==============================================
+// 1. Call Records
+// ==============================================
+
+export interface ApiCallRecord {
+  apiId: string;
+  method: string;
+  durationMs: number;
+  /** Aborted calls, e.g. from useApiQuery, are not failures */
+  outcome: 'success' | 'failure' | 'aborted';
+  /** `error.name`, e.g. 'NotFoundError' or 'CircuitOpenError' */
+  errorClass?: string;
+  timestamp: number;
+}
+
+export interface ApiMethodStats {
+  apiId: string;
+  method: string;
+  calls: number;
+  failures: number;
+  failureRate: number;
+  p50Ms: number;
+  p95Ms: number;
+  maxMs: number;
+  /** Failures per error class */
+  errors: Record<string, number>;
+}
+
+// ==============================================
+// 2. Metrics Buffer
+// ==============================================
+
+function percentile(sorted: number[], p: number): number {
+  return sorted[Math.min(sorted.length - 1, Math.floor(sorted.length * p))];
+}
+
+/**
+ * Keeps the most recent calls in memory, for the developer page. Nothing is
+ * persisted; reloading the app starts from scratch.
+ *
+ * A ring buffer: once full, each call overwrites the oldest one.
+ */
+export class ApiCallMetricsBuffer {
+  private readonly records: Array<ApiCallRecord | undefined>;
+  private next = 0;
+
+  constructor(options: { capacity?: number } = {}) {
+    this.records = new Array(options.capacity ?? 2000).fill(undefined);
+  }
+
+  record(record: ApiCallRecord): void {
+    this.records[this.next] = record;
+    this.next = (this.next + 1) % this.records.length;
+  }
+
+  /** Per-method statistics over the buffered calls, aborted calls excluded */
+  summary(): ApiMethodStats[] {
+    const byMethod = new Map<string, ApiCallRecord[]>();
+    for (const record of this.records) {
+      if (!record || record.outcome === 'aborted') {
+        continue;
+      }
+      const key = `${record.apiId}.${record.method}`;
+      const records = byMethod.get(key);
+      if (records) {
+        records.push(record);
+      } else {
+        byMethod.set(key, [record]);
+      }
+    }
+
+    return Array.from(byMethod.values()).map(records => {
+      const durations = records.map(r => r.durationMs).sort((a, b) => a - b);
+      const failed = records.filter(r => r.outcome === 'failure');
+      const errors: Record<string, number> = {};
+      for (const { errorClass = 'Unknown' } of failed) {
+        errors[errorClass] = (errors[errorClass] ?? 0) + 1;
+      }
+
+      return {
+        apiId: records[0].apiId,
+        method: records[0].method,
+        calls: records.length,
+        failures: failed.length,
+        failureRate: failed.length / records.length,
+        p50Ms: percentile(durations, 0.5),
+        p95Ms: percentile(durations, 0.95),
+        maxMs: durations[durations.length - 1],
+        errors,
+      };
+    });
+  }
+
+  clear(): void {
+    this.records.fill(undefined);
+    this.next = 0;
+  }
+}
+
+export const apiCallMetricsApiRef = createApiRef<ApiCallMetricsBuffer>({
+  id: 'plugin.api-call-metrics.api',
+});
+
+// ==============================================
+// 3. Instrumenting an API
+// ==============================================
+
+export interface InstrumentationTargets {
+  analyticsApi: AnalyticsApi;
+  metrics: ApiCallMetricsBuffer;
+  /** Usually `apiAnalyticsContext(node)` of the API extension */
+  context: AnalyticsContextValue;
+}
+
+function describeOutcome(error: unknown): Pick<ApiCallRecord, 'outcome' | 'errorClass'> {
+  const errorClass = error instanceof Error ? error.name : typeof error;
+  return {
+    outcome: errorClass === 'AbortError' ? 'aborted' : 'failure',
+    errorClass,
+  };
+}
+
+/**
+ * Wraps every method of `api` that returns a Promise. Synchronous methods,
+ * such as those returning an Observable, are passed through untouched.
+ * Results and errors are returned unchanged.
+ */
+export function instrumentApi<T extends object>(
+  api: T,
+  apiRef: ApiRef<T>,
+  { analyticsApi, metrics, context }: InstrumentationTargets,
+): T {
+  const report = (record: ApiCallRecord) => {
+    metrics.record(record);
+    analyticsApi.captureEvent({
+      action: 'api-call',
+      subject: `${record.apiId}.${record.method}`,
+      value: Math.round(record.durationMs),
+      attributes: {
+        apiId: record.apiId,
+        method: record.method,
+        outcome: record.outcome,
+        ...(record.errorClass && { errorClass: record.errorClass }),
+      },
+      context,
+    });
+  };
+
+  return wrapApiMethods(api, (method, name) => (...args) => {
+    const result = method(...args);
+    if (!(result instanceof Promise)) {
+      return result;
+    }
+
+    const start = performance.now();
+    const base = { apiId: apiRef.id, method: name, timestamp: Date.now() };
+    return result.then(
+      data => {
+        report({ ...base, durationMs: performance.now() - start, outcome: 'success' });
+        return data;
+      },
+      error => {
+        report({
+          ...base,
+          durationMs: performance.now() - start,
+          ...describeOutcome(error),
+        });
+        throw error;
+      },
+    );
+  });
+}
+
+// ==============================================
+// 4. Opting In at Registration
+// ==============================================
+
+import {
+  ApiBlueprint,
+  createFrontendModule,
+} from '@backstage/frontend-plugin-api';
+
+/**
+ * Drop-in replacement for `ApiBlueprint.make()` that instruments the
+ * created API. Removing instrumentation is the reverse one-line change.
+ *
+ * Events are attributed to this API extension; the calling component is
+ * not known at this level.
+ */
+export function createInstrumentedApi<
+  TApi extends object,
+  TDeps extends { [name in string]: unknown },
+>(options: {
+  name: string;
+  api: ApiRef<TApi>;
+  deps: TypesToApiRefs<TDeps>;
+  factory(deps: TDeps): TApi;
+}) {
+  return ApiBlueprint.makeWithOverrides({
+    name: options.name,
+    factory(originalFactory, { node }) {
+      return originalFactory({
+        api: options.api,
+        deps: {
+          ...options.deps,
+          analyticsApi: analyticsApiRef,
+          apiCallMetrics: apiCallMetricsApiRef,
+        },
+        factory: deps =>
+          instrumentApi(options.factory(deps as TDeps), options.api, {
+            analyticsApi: deps.analyticsApi,
+            metrics: deps.apiCallMetrics,
+            context: apiAnalyticsContext(node),
+          }),
+      });
+    },
+  });
+}
+
+export const apiCallMetricsApi = ApiBlueprint.make({
+  name: 'api-call-metrics',
+  params: {
+    api: apiCallMetricsApiRef,
+    deps: {},
+    factory: () => new ApiCallMetricsBuffer(),
+  },
+});
+
+/**
+ * // Before
+ * export const weatherApi = ApiBlueprint.make({
+ *   name: 'weather',
+ *   params: { api: weatherApiRef, deps: { discoveryApi: discoveryApiRef, fetchApi: fetchApiRef },
+ *             factory: ({ discoveryApi, fetchApi }) => new WeatherApiClient({ discoveryApi, fetchApi }) },
+ * });
+ */
+
+import { discoveryApiRef, fetchApiRef } from '@backstage/core-plugin-api';
+import { weatherApiRef } from './creating-api-ref';
+import { WeatherApiClient } from './api-implementation';
+
+// After
+export const instrumentedWeatherApi = createInstrumentedApi({
+  name: 'weather',
+  api: weatherApiRef,
+  deps: { discoveryApi: discoveryApiRef, fetchApi: fetchApiRef },
+  factory: ({ discoveryApi, fetchApi }) =>
+    new WeatherApiClient({ discoveryApi, fetchApi }),
+});
+
+// ==============================================
+// 5. Developer Page
+// ==============================================
+
+import React from 'react';
+import { useApi } from '@backstage/core-plugin-api';
+import {
+  Content,
+  Header,
+  Page,
+  Table,
+  TableColumn,
+} from '@backstage/core-components';
+import { Button, Grid } from '@material-ui/core';
+
+const statsColumns: TableColumn<ApiMethodStats>[] = [
+  { title: 'API', field: 'apiId' },
+  { title: 'Method', field: 'method' },
+  { title: 'Calls', field: 'calls', type: 'numeric' },
+  { title: 'p50 (ms)', render: row => Math.round(row.p50Ms), type: 'numeric' },
+  { title: 'p95 (ms)', render: row => Math.round(row.p95Ms), type: 'numeric' },
+  { title: 'Max (ms)', render: row => Math.round(row.maxMs), type: 'numeric' },
+  {
+    title: 'Failures',
+    type: 'numeric',
+    render: row => `${row.failures} (${Math.round(row.failureRate * 100)} %)`,
+  },
+  {
+    title: 'Errors',
+    render: row =>
+      Object.entries(row.errors)
+        .map(([errorClass, count]) => `${errorClass} × ${count}`)
+        .join(', '),
+  },
+];
+
+export const ApiCallsPage = () => {
+  const metrics = useApi(apiCallMetricsApiRef);
+  const [stats, setStats] = React.useState(() => metrics.summary());
+
+  // Calls can be frequent; a refresh every two seconds is plenty here
+  React.useEffect(() => {
+    const interval = setInterval(() => setStats(metrics.summary()), 2000);
+    return () => clearInterval(interval);
+  }, [metrics]);
+
+  const slowest = [...stats].sort((a, b) => b.p95Ms - a.p95Ms).slice(0, 10);
+  const failing = stats
+    .filter(s => s.failures > 0)
+    .sort((a, b) => b.failures - a.failures)
+    .slice(0, 10);
+
+  return (
+    <Page themeId="tool">
+      <Header title="API calls" subtitle="Instrumented utility API calls since page load" />
+      <Content>
+        <Button
+          variant="outlined"
+          onClick={() => {
+            metrics.clear();
+            setStats([]);
+          }}
+        >
+          Reset
+        </Button>
+        <Grid container>
+          <Grid item xs={12}>
+            <Table
+              title="Slowest methods (p95)"
+              options={{ search: false, paging: false }}
+              columns={statsColumns}
+              data={slowest}
+            />
+          </Grid>
+          <Grid item xs={12}>
+            <Table
+              title="Most failing methods"
+              options={{ search: false, paging: false }}
+              columns={statsColumns}
+              data={failing}
+              emptyContent={<p>No failed calls</p>}
+            />
+          </Grid>
+        </Grid>
+      </Content>
+    </Page>
+  );
+};
+
+import { PageBlueprint } from '@backstage/frontend-plugin-api';
+
+export const apiCallsPage = PageBlueprint.make({
+  name: 'api-calls',
+  params: {
+    defaultPath: '/devtools/api-calls',
+    loader: async () => <ApiCallsPage />,
+  },
+});
+
+export const apiInstrumentationModule = createFrontendModule({
+  pluginId: 'app',
+  extensions: [apiCallMetricsApi, apiCallsPage],
+});
+
+/**
+ * // App.tsx
+ * const app = createApp({
+ *   features: [apiInstrumentationModule, weatherModule],
+ * });
+ *
+ * # app-config.production.yaml - keep the metrics, hide the page
+ * app:
+ *   extensions:
+ *     - page:app/api-calls: false
+ */
+
+// ==============================================
+// 6. Testing
+// ==============================================
+
+/**
+ * import { mockApis } from '@backstage/test-utils';
+ * import { NotFoundError } from './api-errors';
+ *
+ * it('records outcome and error class', async () => {
+ *   const analyticsApi = mockApis.analytics();
+ *   const metrics = new ApiCallMetricsBuffer();
+ *   const api = instrumentApi(
+ *     {
+ *       getCurrentWeather: jest.fn().mockRejectedValue(new NotFoundError('No such place', { status: 404 })),
+ *       getForecast: jest.fn().mockResolvedValue({ location: 'Oslo', forecast: [] }),
+ *     },
+ *     weatherApiRef,
+ *     { analyticsApi, metrics, context: { pluginId: 'weather', extensionId: 'api:weather' } },
+ *   );
+ *
+ *   await api.getForecast('Oslo', 3);
+ *   await expect(api.getCurrentWeather('Atlantis')).rejects.toBeInstanceOf(NotFoundError);
+ *
+ *   expect(metrics.summary()).toEqual(
+ *     expect.arrayContaining([
+ *       expect.objectContaining({ method: 'getForecast', calls: 1, failures: 0 }),
+ *       expect.objectContaining({ method: 'getCurrentWeather', errors: { NotFoundError: 1 } }),
+ *     ]),
+ *   );
+ *   expect(analyticsApi.getEvents()).toHaveLength(2);
+ * });
+ */
+
+// ==============================================
+// Key Points
+// ==============================================
+
+/**
+ * 1. Instrument once, at registration
+ *    - Components stay free of tracking code
+ *    - Every consumer of the API is covered, including other plugins
+ *
+ * 2. Same data, two destinations
+ *    - Analytics for fleet-wide dashboards
+ *    - The in-memory buffer for the developer page in the running app
+ *
+ * 3. Cancellations are not failures
+ *    - Aborted calls are recorded as `aborted` and left out of the stats
+ *
+ * 4. Transparent
+ *    - Results, errors and synchronous methods pass through unchanged
+ */
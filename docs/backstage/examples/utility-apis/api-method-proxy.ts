@@ -0,0 +1,81 @@
+/**
+ * API Method Proxy Example
+ *
+ * This example shows the one method-wrapping proxy that decorators such as
+ * `instrumentApi()` (api-instrumentation.tsx) and `withDeprecationWarnings()`
+ * (api-versioning.ts) build on, plus the analytics context they report
+ * under.
+ *
+ * Features:
+ * - Wraps every method of an API object, other properties pass through
+ * - One wrapper per method, so `api.method === api.method`
+ * - Analytics context of the extension that registered the API
+ *
+ * Location: packages/api-client/src/ (shared as @internal/api-client)
+ */
+
+import { AnalyticsContextValue, AppNode } from '@backstage/frontend-plugin-api';
+
+// ==============================================
+// 1. Wrapping Methods
+// ==============================================
+
+export type ApiMethod = (...args: unknown[]) => unknown;
+
+/**
+ * Returns a proxy of `api` whose methods are replaced by `wrap(method, name)`.
+ *
+ * `method` is already bound to `api`. Each wrapper is created on first
+ * access and reused, so wrapped methods are stable in effect dependencies.
+ */
+export function wrapApiMethods<T extends object>(
+  api: T,
+  wrap: (method: ApiMethod, name: string) => ApiMethod,
+): T {
+  const wrapped = new Map<string, ApiMethod>();
+
+  return new Proxy(api, {
+    get(target, property, receiver) {
+      const value: unknown = Reflect.get(target, property, receiver);
+      if (typeof value !== 'function' || typeof property !== 'string') {
+        return value;
+      }
+      let method = wrapped.get(property);
+      if (!method) {
+        method = wrap((...args) => value.apply(target, args), property);
+        wrapped.set(property, method);
+      }
+      return method;
+    },
+  });
+}
+
+// ==============================================
+// 2. Analytics Context
+// ==============================================
+
+/**
+ * Events captured outside of React have no `useAnalytics()` to fill in the
+ * context. Decorators report under the API extension that registered them
+ * instead, e.g. `{ pluginId: 'weather', extensionId: 'api:weather' }`.
+ */
+export function apiAnalyticsContext(node: AppNode): AnalyticsContextValue {
+  return {
+    pluginId: node.spec.plugin?.id ?? 'app',
+    extensionId: node.spec.id,
+  };
+}
+
+// ==============================================
+// Key Points
+// ==============================================
+
+/**
+ * 1. One proxy
+ *    - Decorators only say what happens around a call
+ *    - Methods are typed `(...args: unknown[]) => unknown`, not `Function`
+ *
+ * 2. Real analytics context
+ *    - Taken from the extension node in `ApiBlueprint.makeWithOverrides()`
+ *    - Extensions installed by the app itself report `pluginId: 'app'`
+ */
@@ -0,0 +1,536 @@
+/**
+ * API Query Hooks Example
+ *
+ * This example replaces hand-rolled data fetching effects (loading and
+ * error state, `setInterval`, a `mounted` flag) with two generic hooks keyed
+ * on an API ref and a method name:
+ *
+ *   const { data, error, loading } = useApiQuery(weatherApiRef, 'getCurrentWeather', ['Berlin']);
+ *   const { mutate } = useApiMutation(taskApiRef, 'createTask');
+ *
+ * Features:
+ * - Shared cache: components asking for the same call share one result
+ * - Deduplication of concurrent requests
+ * - Refetch interval, paused while the browser tab is hidden
+ * - Cancellation: an AbortSignal is passed to the API method and on to
+ *   fetchApi, and aborted when no component needs the result anymore
+ * - Mutations invalidate and refetch related queries
+ */
+
+import React from 'react';
+import { ApiRef, createApiRef, useApi } from '@backstage/core-plugin-api';
+import { CallOptions } from './creating-api-ref';
+
+// ==============================================
+// 1. Types
+// ==============================================
+
+type AsyncMethod = (...args: any[]) => Promise<unknown>;
+
+/** Names of the methods of `TApi` that return a Promise */
+export type AsyncMethodName<TApi> = {
+  [K in keyof TApi]: TApi[K] extends AsyncMethod ? K : never;
+}[keyof TApi] &
+  string;
+
+export type MethodArgs<TApi, M extends AsyncMethodName<TApi>> =
+  TApi[M] extends (...args: infer A) => Promise<unknown> ? A : never;
+
+export type MethodResult<TApi, M extends AsyncMethodName<TApi>> =
+  TApi[M] extends (...args: any[]) => Promise<infer R> ? R : never;
+
+/**
+ * The parameters of a method before its trailing `options?: CallOptions`,
+ * or never if it has none. All of them are required, so the options always
+ * go in the same position.
+ */
+type ArgsBeforeCallOptions<F> = F extends (...args: infer P) => Promise<unknown>
+  ? Required<P> extends [...infer A, CallOptions]
+    ? A
+    : never
+  : never;
+
+/** Names of the async methods of `TApi` whose last parameter is `CallOptions` */
+export type QueryMethodName<TApi> = {
+  [K in keyof TApi]: [ArgsBeforeCallOptions<TApi[K]>] extends [never] ? never : K;
+}[keyof TApi] &
+  AsyncMethodName<TApi>;
+
+export type QueryArgs<TApi, M extends QueryMethodName<TApi>> = ArgsBeforeCallOptions<TApi[M]>;
+
+type QueryMethod<TApi, M extends QueryMethodName<TApi>> = (
+  ...args: [...QueryArgs<TApi, M>, CallOptions]
+) => Promise<MethodResult<TApi, M>>;
+
+export interface QueryState<T = unknown> {
+  data?: T;
+  /** The last error; `data` is kept, so stale data can still be shown */
+  error?: Error;
+  /** A request is in flight, including background refetches */
+  fetching: boolean;
+  /** When `data` was fetched; 0 if never, or if it was invalidated */
+  updatedAt: number;
+}
+
+/**
+ * Selects cached queries: every query of an API, of one method, or one
+ * exact call.
+ */
+export interface QueryFilter<TApi = any> {
+  api: ApiRef<TApi>;
+  method?: AsyncMethodName<TApi>;
+  args?: unknown[];
+}
+
+interface Query {
+  apiId: string;
+  method: string;
+  args: unknown[];
+  run(signal: AbortSignal): Promise<unknown>;
+}
+
+// ==============================================
+// 2. Query Client
+// ==============================================
+
+interface QueryEntry {
+  query: Query;
+  state: QueryState;
+  listeners: Set<() => void>;
+  controller?: AbortController;
+  promise?: Promise<void>;
+  gcTimer?: ReturnType<typeof setTimeout>;
+}
+
+const EMPTY_STATE: QueryState = { fetching: false, updatedAt: 0 };
+
+/**
+ * Holds the query cache for the whole app. Registered as a utility API, so
+ * every component shares the same cache and tests can provide a fresh one.
+ */
+export class ApiQueryClient {
+  private readonly entries = new Map<string, QueryEntry>();
+  private readonly gcTimeMs: number;
+
+  constructor(options: { gcTimeMs?: number } = {}) {
+    // Unused results are kept for a while, so navigating back is instant
+    this.gcTimeMs = options.gcTimeMs ?? 5 * 60 * 1000;
+  }
+
+  static keyOf(apiId: string, method: string, args: unknown[]): string {
+    return `${apiId}:${method}:${JSON.stringify(args)}`;
+  }
+
+  getState(key: string): QueryState {
+    return this.entries.get(key)?.state ?? EMPTY_STATE;
+  }
+
+  /**
+   * Watch a query. When the last watcher leaves, a request in flight is
+   * aborted and the result is garbage collected after `gcTimeMs`.
+   */
+  subscribe(query: Query, listener: () => void): () => void {
+    const key = ApiQueryClient.keyOf(query.apiId, query.method, query.args);
+    const entry = this.entryFor(query);
+    clearTimeout(entry.gcTimer);
+    entry.listeners.add(listener);
+
+    return () => {
+      entry.listeners.delete(listener);
+      if (entry.listeners.size === 0) {
+        this.abort(entry);
+        entry.gcTimer = setTimeout(() => this.entries.delete(key), this.gcTimeMs);
+      }
+    };
+  }
+
+  /** Run the query, or join the request that is already in flight */
+  fetch(query: Query): Promise<void> {
+    const entry = this.entryFor(query);
+    entry.query = query;
+    return entry.promise ?? this.start(entry);
+  }
+
+  /**
+   * Mark matching queries as stale. Watched queries are refetched right
+   * away; a request already in flight may predate the change, so it is
+   * replaced.
+   */
+  invalidate(filter: QueryFilter): void {
+    const argsKey = filter.args && JSON.stringify(filter.args);
+
+    for (const entry of this.entries.values()) {
+      const { apiId, method, args } = entry.query;
+      if (
+        apiId !== filter.api.id ||
+        (filter.method && method !== filter.method) ||
+        (argsKey !== undefined && JSON.stringify(args) !== argsKey)
+      ) {
+        continue;
+      }
+
+      this.update(entry, { updatedAt: 0 });
+      if (entry.listeners.size > 0) {
+        this.abort(entry);
+        this.start(entry);
+      }
+    }
+  }
+
+  private entryFor(query: Query): QueryEntry {
+    const key = ApiQueryClient.keyOf(query.apiId, query.method, query.args);
+    let entry = this.entries.get(key);
+    if (!entry) {
+      entry = { query, state: EMPTY_STATE, listeners: new Set() };
+      this.entries.set(key, entry);
+    }
+    return entry;
+  }
+
+  /**
+   * Abort the request in flight and forget it, so the next `fetch()` starts
+   * a new request instead of joining the aborted one.
+   */
+  private abort(entry: QueryEntry) {
+    if (!entry.controller) {
+      return;
+    }
+    entry.controller.abort();
+    entry.controller = undefined;
+    entry.promise = undefined;
+    this.update(entry, { fetching: false });
+  }
+
+  private start(entry: QueryEntry): Promise<void> {
+    const controller = new AbortController();
+    // Results of a replaced or aborted request are dropped
+    const current = () => entry.controller === controller;
+
+    entry.controller = controller;
+    this.update(entry, { fetching: true });
+
+    entry.promise = entry.query
+      .run(controller.signal)
+      .then(
+        data => {
+          if (current()) {
+            this.update(entry, {
+              data,
+              error: undefined,
+              fetching: false,
+              updatedAt: Date.now(),
+            });
+          }
+        },
+        error => {
+          if (current()) {
+            this.update(
+              entry,
+              controller.signal.aborted
+                ? { fetching: false }
+                : { error: error as Error, fetching: false },
+            );
+          }
+        },
+      )
+      .finally(() => {
+        if (current()) {
+          entry.controller = undefined;
+          entry.promise = undefined;
+        }
+      });
+
+    return entry.promise;
+  }
+
+  private update(entry: QueryEntry, patch: Partial<QueryState>) {
+    // A new object on every change, as useSyncExternalStore requires
+    entry.state = { ...entry.state, ...patch };
+    entry.listeners.forEach(listener => listener());
+  }
+}
+
+// ==============================================
+// 3. Registering the Client
+// ==============================================
+
+import {
+  ApiBlueprint,
+  createFrontendModule,
+} from '@backstage/frontend-plugin-api';
+
+export const apiQueryClientApiRef = createApiRef<ApiQueryClient>({
+  id: 'plugin.api-query.client',
+});
+
+export const apiQueryClientApi = ApiBlueprint.make({
+  name: 'api-query-client',
+  params: {
+    api: apiQueryClientApiRef,
+    deps: {},
+    factory: () => new ApiQueryClient(),
+  },
+});
+
+export const apiQueryModule = createFrontendModule({
+  pluginId: 'app',
+  extensions: [apiQueryClientApi],
+});
+
+// ==============================================
+// 4. useApiQuery
+// ==============================================
+
+export interface UseApiQueryOptions {
+  /** Set to false to skip the request, e.g. until a form field is filled in */
+  enabled?: boolean;
+
+  /** Cached data younger than this is not refetched on mount; default 0 */
+  staleTimeMs?: number;
+
+  /** Refetch periodically while the tab is visible */
+  refetchIntervalMs?: number;
+}
+
+export interface ApiQueryResult<T> {
+  data?: T;
+  error?: Error;
+  /** No data yet and a request in flight */
+  loading: boolean;
+  /** Any request in flight, including background refetches */
+  fetching: boolean;
+  refetch(): Promise<void>;
+}
+
+/**
+ * Returns `value` as it was when `key` last changed, so inline arrays and
+ * objects that are equal by key keep their identity between renders.
+ */
+function useValueByKey<T>(value: T, key: string): T {
+  const [current, setCurrent] = React.useState({ key, value });
+  if (current.key !== key) {
+    // Updating state during render is React's pattern for derived state
+    setCurrent({ key, value });
+    return value;
+  }
+  return current.value;
+}
+
+/**
+ * Call `method` on the API behind `apiRef` and keep the result up to date.
+ *
+ * Only methods whose last parameter is `options?: CallOptions` (see
+ * creating-api-ref.ts) can be queried. `args` are the parameters before
+ * it; the hook calls `api[method](...args, { signal })`, and the method
+ * passes the signal on to fetchApi.
+ *
+ * `args` are compared by value (JSON), so inline arrays and objects are fine.
+ */
+export function useApiQuery<TApi, M extends QueryMethodName<TApi>>(
+  apiRef: ApiRef<TApi>,
+  method: M,
+  args: QueryArgs<TApi, M>,
+  options: UseApiQueryOptions = {},
+): ApiQueryResult<MethodResult<TApi, M>> {
+  const api = useApi(apiRef);
+  const client = useApi(apiQueryClientApiRef);
+  const { enabled = true, staleTimeMs = 0, refetchIntervalMs } = options;
+  const key = ApiQueryClient.keyOf(apiRef.id, method, args);
+  const stableArgs = useValueByKey(args, key);
+
+  const query = React.useMemo((): Query => {
+    // QueryMethodName guarantees the shape; TypeScript can't see it through TApi[M]
+    const queryMethod = api[method] as QueryMethod<TApi, M>;
+    return {
+      apiId: apiRef.id,
+      method,
+      args: stableArgs,
+      run: signal => queryMethod.call(api, ...stableArgs, { signal }),
+    };
+  }, [api, apiRef.id, method, stableArgs]);
+
+  const subscribe = React.useCallback(
+    (listener: () => void) => client.subscribe(query, listener),
+    [client, query],
+  );
+  const state = React.useSyncExternalStore(subscribe, () => client.getState(key));
+
+  const refetch = React.useCallback(() => client.fetch(query), [client, query]);
+
+  // Fetch on mount and whenever the inputs change, unless the cache is fresh
+  React.useEffect(() => {
+    if (enabled && Date.now() - client.getState(key).updatedAt >= staleTimeMs) {
+      refetch();
+    }
+  }, [client, key, enabled, staleTimeMs, refetch]);
+
+  React.useEffect(() => {
+    if (!enabled || !refetchIntervalMs) {
+      return undefined;
+    }
+
+    // Skip ticks close to the last fetch, so several components polling the
+    // same query don't multiply the requests
+    const refetchIfOld = (minAgeMs: number) => {
+      if (
+        document.visibilityState === 'visible' &&
+        Date.now() - client.getState(key).updatedAt >= minAgeMs
+      ) {
+        refetch();
+      }
+    };
+
+    const interval = setInterval(() => refetchIfOld(refetchIntervalMs / 2), refetchIntervalMs);
+    // Catch up as soon as the tab is visible again
+    const onVisibilityChange = () => refetchIfOld(refetchIntervalMs);
+    document.addEventListener('visibilitychange', onVisibilityChange);
+
+    return () => {
+      clearInterval(interval);
+      document.removeEventListener('visibilitychange', onVisibilityChange);
+    };
+  }, [client, key, enabled, refetchIntervalMs, refetch]);
+
+  return {
+    data: state.data as MethodResult<TApi, M> | undefined,
+    error: state.error,
+    loading: state.fetching && state.data === undefined,
+    fetching: state.fetching,
+    refetch,
+  };
+}
+
+// ==============================================
+// 5. useApiMutation
+// ==============================================
+
+export interface UseApiMutationOptions<TApi, M extends AsyncMethodName<TApi>> {
+  /**
+   * Queries to invalidate after a successful call. Defaults to every query
+   * of the same API, which is right for most CRUD APIs.
+   */
+  invalidates?:
+    | QueryFilter[]
+    | ((result: MethodResult<TApi, M>, args: MethodArgs<TApi, M>) => QueryFilter[]);
+}
+
+export interface ApiMutationResult<TApi, M extends AsyncMethodName<TApi>> {
+  /** Resolves with the result; rejects with the error after recording it */
+  mutate(...args: MethodArgs<TApi, M>): Promise<MethodResult<TApi, M>>;
+  data?: MethodResult<TApi, M>;
+  error?: Error;
+  pending: boolean;
+  reset(): void;
+}
+
+/**
+ * Call a method that changes data, then refresh the queries it affects.
+ *
+ * Mutations are never aborted on unmount: the change should still reach
+ * the backend when the user navigates away.
+ */
+export function useApiMutation<TApi, M extends AsyncMethodName<TApi>>(
+  apiRef: ApiRef<TApi>,
+  method: M,
+  options: UseApiMutationOptions<TApi, M> = {},
+): ApiMutationResult<TApi, M> {
+  const api = useApi(apiRef);
+  const client = useApi(apiQueryClientApiRef);
+  const [state, setState] = React.useState<{
+    data?: MethodResult<TApi, M>;
+    error?: Error;
+    pending: boolean;
+  }>({ pending: false });
+
+  const optionsRef = React.useRef(options);
+  optionsRef.current = options;
+
+  const mutate = React.useCallback(
+    async (...args: MethodArgs<TApi, M>) => {
+      setState(prev => ({ ...prev, error: undefined, pending: true }));
+      try {
+        // AsyncMethodName guarantees the shape; TypeScript can't see it through TApi[M]
+        const mutation = api[method] as (
+          ...params: MethodArgs<TApi, M>
+        ) => Promise<MethodResult<TApi, M>>;
+        const result = await mutation.apply(api, args);
+
+        const { invalidates = [{ api: apiRef }] } = optionsRef.current;
+        const filters =
+          typeof invalidates === 'function' ? invalidates(result, args) : invalidates;
+        filters.forEach(filter => client.invalidate(filter));
+
+        setState({ data: result, pending: false });
+        return result;
+      } catch (error) {
+        setState(prev => ({ ...prev, error: error as Error, pending: false }));
+        throw error;
+      }
+    },
+    [api, client, apiRef, method],
+  );
+
+  const reset = React.useCallback(() => setState({ pending: false }), []);
+
+  return { mutate, ...state, reset };
+}
+
+// ==============================================
+// 6. Testing Components That Use the Hooks
+// ==============================================
+
+/**
+ * Give every test its own client, so cached results don't leak between
+ * tests.
+ *
+ * import { render, screen } from '@testing-library/react';
+ * import { TestApiProvider } from '@backstage/test-utils';
+ *
+ * it('shows the temperature', async () => {
+ *   const weatherApi = {
+ *     getCurrentWeather: jest.fn().mockResolvedValue({ temperature: 72 }),
+ *     getForecast: jest.fn(),
+ *   };
+ *
+ *   render(
+ *     <TestApiProvider
+ *       apis={[
+ *         [weatherApiRef, weatherApi],
+ *         [apiQueryClientApiRef, new ApiQueryClient()],
+ *       ]}
+ *     >
+ *       <WeatherWithHook />
+ *     </TestApiProvider>,
+ *   );
+ *
+ *   expect(await screen.findByText(/72°F/)).toBeInTheDocument();
+ *   expect(weatherApi.getCurrentWeather).toHaveBeenCalledWith(
+ *     'San Francisco',
+ *     { signal: expect.any(AbortSignal) },
+ *   );
+ * });
+ */
+
+// ==============================================
+// Key Points
+// ==============================================
+
+/**
+ * 1. The cache is a utility API
+ *    - One `ApiQueryClient` per app, replaceable in tests
+ *    - Keyed on API ref id, method name and arguments
+ *
+ * 2. Requests are shared and cancelled
+ *    - Queried methods take `CallOptions` last, so the signal has a fixed,
+ *      typed position
+ *    - Concurrent identical queries share one request
+ *    - The signal reaches fetchApi; it is aborted when no component is
+ *      watching anymore, or when an invalidation replaces the request
+ *
+ * 3. Polling is polite
+ *    - No requests from hidden tabs, one catch-up when the tab returns
+ *
+ * 4. Mutations keep queries honest
+ *    - By default every query of the mutated API is refetched
+ *    - `invalidates` narrows that to a method or an exact call
+ */
@@ -0,0 +1,216 @@
+/**
+ * Config-Driven API Variants Example
+ *
+ * This example shows how to register several named implementations of one
+ * API and pick one at runtime from app-config, instead of a
+ * `process.env.NODE_ENV` ternary that is baked into the bundle. One build
+ * can then serve a demo portal with mock data, a staging portal that calls
+ * the provider through the credential proxy, and a cached production portal.
+ *
+ *   weather:
+ *     implementation: mock | direct | cached
+ *
+ * Features:
+ * - Works for any API ref with any set of named factories
+ * - Invalid values fail config validation at startup, listing the choices
+ * - The same check when the app starts, for config injected at deploy time
+ */
+
+import {
+  ApiRef,
+  ConfigApi,
+  TypesToApiRefs,
+  configApiRef,
+} from '@backstage/core-plugin-api';
+import { ApiBlueprint } from '@backstage/frontend-plugin-api';
+
+// ==============================================
+// 1. Selecting a Variant
+// ==============================================
+
+export class InvalidApiVariantError extends Error {
+  constructor(configKey: string, value: string, variants: readonly string[]) {
+    super(
+      `Invalid ${configKey} "${value}" in app-config; expected one of: ${variants.join(', ')}`,
+    );
+    this.name = 'InvalidApiVariantError';
+  }
+}
+
+/** Reads `configKey`, falling back to `defaultVariant` when it is unset */
+export function selectApiVariant<TVariant extends string>(
+  configApi: ConfigApi,
+  options: {
+    configKey: string;
+    variants: readonly TVariant[];
+    defaultVariant: TVariant;
+  },
+): TVariant {
+  const value = configApi.getOptionalString(options.configKey) ?? options.defaultVariant;
+  if (!options.variants.includes(value as TVariant)) {
+    throw new InvalidApiVariantError(options.configKey, value, options.variants);
+  }
+  return value as TVariant;
+}
+
+// ==============================================
+// 2. Registering the Variants
+// ==============================================
+
+/**
+ * Registers one extension for `api` whose factory builds the variant named
+ * in app-config.
+ *
+ * The configured variant is checked when the app creates the extension, at
+ * startup, not when the API is first used. `deps` is the union of what the
+ * variants need; every variant receives all of them, plus `configApi`.
+ */
+export function createApiVariants<
+  TApi,
+  TDeps extends { [name in string]: unknown },
+  TVariant extends string,
+>(options: {
+  /** Extension name, as for ApiBlueprint */
+  name: string;
+  api: ApiRef<TApi>;
+  /** e.g. 'weather.implementation' */
+  configKey: string;
+  defaultVariant: NoInfer<TVariant>;
+  deps: TypesToApiRefs<TDeps>;
+  variants: Record<TVariant, (deps: TDeps & { configApi: ConfigApi }) => TApi>;
+}) {
+  const selection = {
+    configKey: options.configKey,
+    variants: Object.keys(options.variants) as TVariant[],
+    defaultVariant: options.defaultVariant,
+  };
+
+  return ApiBlueprint.makeWithOverrides({
+    name: options.name,
+    factory(originalFactory, { apis }) {
+      // Extension factories run as the app starts; API factories only on
+      // first use, which may be long after a bad deploy went out
+      const configApi = apis.get(configApiRef);
+      if (configApi) {
+        selectApiVariant(configApi, selection);
+      }
+
+      return originalFactory({
+        api: options.api,
+        deps: { ...options.deps, configApi: configApiRef },
+        factory: deps => {
+          const variant = selectApiVariant(deps.configApi, selection);
+          return options.variants[variant](deps as TDeps & { configApi: ConfigApi });
+        },
+      });
+    },
+  });
+}
+
+// ==============================================
+// 3. Validating at Startup
+// ==============================================
+
+/**
+ * `createApiVariants()` already rejects an invalid value when the app
+ * starts. Declaring the key in the plugin's config schema catches it one
+ * step earlier: `yarn start`, `yarn build` and the backend serving the app
+ * validate app-config against it:
+ *
+ *   Config validation failed, Config must be equal to one of the allowed
+ *   values { allowedValues=["mock","direct","cached"] } at /weather/implementation
+ *
+ * // plugins/weather/config.d.ts
+ * export interface Config {
+ *   weather?: {
+ *     /**
+ *      * Which WeatherApi implementation the app uses. Defaults to cached.
+ *      * @visibility frontend
+ *      *\/
+ *     implementation?: 'mock' | 'direct' | 'cached';
+ *   };
+ * }
+ *
+ * // plugins/weather/package.json
+ * {
+ *   "files": ["dist", "config.d.ts"],
+ *   "configSchema": "config.d.ts"
+ * }
+ *
+ * `@visibility frontend` is required: without it the value never reaches
+ * the browser and every portal silently gets the default.
+ */
+
+// ==============================================
+// 4. Usage
+// ==============================================
+
+/**
+ * See section 9 of api-implementation.tsx for the weather API:
+ *
+ * export const weatherApiVariants = createApiVariants({
+ *   name: 'weather',
+ *   api: weatherApiRef,
+ *   configKey: 'weather.implementation',
+ *   defaultVariant: 'cached',
+ *   deps: { discoveryApi: discoveryApiRef, fetchApi: fetchApiRef },
+ *   variants: {
+ *     mock: () => new MockWeatherApiClient(),
+ *     direct: ({ configApi, discoveryApi, fetchApi }) => new ConfigurableWeatherApiClient({ configApi, discoveryApi, fetchApi }),
+ *     cached: ({ discoveryApi, fetchApi, configApi }) => createCachedApi(...),
+ *   },
+ * });
+ *
+ * # app-config.demo.yaml
+ * weather:
+ *   implementation: mock
+ *
+ * # app-config.production.yaml
+ * weather:
+ *   implementation: cached
+ */
+
+// ==============================================
+// 5. Testing
+// ==============================================
+
+/**
+ * import { mockApis } from '@backstage/test-utils';
+ *
+ * describe('selectApiVariant', () => {
+ *   const options = {
+ *     configKey: 'weather.implementation',
+ *     variants: ['mock', 'direct', 'cached'] as const,
+ *     defaultVariant: 'cached' as const,
+ *   };
+ *
+ *   it('falls back to the default', () => {
+ *     expect(selectApiVariant(mockApis.config(), options)).toBe('cached');
+ *   });
+ *
+ *   it('names the valid choices', () => {
+ *     const configApi = mockApis.config({ data: { weather: { implementation: 'mok' } } });
+ *     expect(() => selectApiVariant(configApi, options)).toThrow(
+ *       'Invalid weather.implementation "mok" in app-config; expected one of: mock, direct, cached',
+ *     );
+ *   });
+ * });
+ */
+
+// ==============================================
+// Key Points
+// ==============================================
+
+/**
+ * 1. Build once, configure per portal
+ *    - The variant is read from app-config at runtime, not from NODE_ENV
+ *
+ * 2. One extension per API
+ *    - The variants share an extension name, so there is nothing to
+ *      conditionally install and no duplicate registrations
+ *
+ * 3. Fail early and clearly
+ *    - The config schema rejects typos at build and serve time
+ *    - The extension factory repeats the check at app startup, with the
+ *      list of valid variants
+ */
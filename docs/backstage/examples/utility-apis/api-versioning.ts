@@ -0,0 +1,440 @@
+/**
+ * API Versioning Example
+ *
+ * This example shows how to ship a breaking change to a utility API without
+ * upgrading every consumer at once. The new contract gets a new ref
+ * (`plugin.weather.api.v2`); the old ref keeps working through a facade that
+ * adapts the v2 implementation to the v1 contract.
+ *
+ * Features:
+ * - One implementation, two contracts
+ * - `createApiFacade()` registers an adapter through `ApiBlueprint`
+ * - A one-time deprecation warning per method, reported to the analytics
+ *   and error APIs, so you can see who still calls v1 before removing it
+ */
+
+import {
+  ApiRef,
+  DiscoveryApi,
+  ErrorApi,
+  FetchApi,
+  createApiRef,
+} from '@backstage/core-plugin-api';
+import {
+  AnalyticsApi,
+  AnalyticsContextValue,
+} from '@backstage/frontend-plugin-api';
+import { BaseApiClient } from './base-api-client';
+import { apiAnalyticsContext, wrapApiMethods } from './api-method-proxy';
+import { WeatherApi, weatherApiRef } from './creating-api-ref';
+
+// ==============================================
+// 1. The v2 Contract
+// ==============================================
+
+/**
+ * What changed from v1:
+ * - Locations can be coordinates, not just city names
+ * - Units are explicit instead of always imperial
+ * - Requests can be cancelled
+ */
+
+export type WeatherLocation =
+  | { city: string }
+  | { latitude: number; longitude: number };
+
+export type WeatherUnits = 'metric' | 'imperial';
+
+export interface WeatherRequestOptions {
+  units?: WeatherUnits;
+  signal?: AbortSignal;
+}
+
+export interface Measurement {
+  value: number;
+  /** e.g. '°C', 'mph' */
+  unit: string;
+}
+
+export interface WeatherConditions {
+  /** Stable identifier, e.g. 'partly-cloudy' */
+  code: string;
+  description: string;
+}
+
+export interface ResolvedLocation {
+  name: string;
+  latitude: number;
+  longitude: number;
+}
+
+export interface CurrentWeather {
+  location: ResolvedLocation;
+  observedAt: string;
+  temperature: Measurement;
+  humidity: number;
+  wind: { speed: Measurement; directionDegrees: number };
+  conditions: WeatherConditions;
+}
+
+export interface Forecast {
+  location: ResolvedLocation;
+  days: Array<{
+    date: string;
+    high: Measurement;
+    low: Measurement;
+    conditions: WeatherConditions;
+  }>;
+}
+
+export interface WeatherApiV2 {
+  getCurrentWeather(
+    location: WeatherLocation,
+    options?: WeatherRequestOptions,
+  ): Promise<CurrentWeather>;
+  getForecast(
+    location: WeatherLocation,
+    options: WeatherRequestOptions & { days: number },
+  ): Promise<Forecast>;
+}
+
+export const weatherApiV2Ref = createApiRef<WeatherApiV2>({
+  id: 'plugin.weather.api.v2',
+});
+
+// ==============================================
+// 2. The v2 Implementation
+// ==============================================
+
+function locationQuery(location: WeatherLocation) {
+  return 'city' in location
+    ? { city: location.city }
+    : { lat: location.latitude, lon: location.longitude };
+}
+
+export class WeatherApiV2Client extends BaseApiClient implements WeatherApiV2 {
+  constructor(options: { discoveryApi: DiscoveryApi; fetchApi: FetchApi }) {
+    super({ ...options, pluginId: 'weather' });
+  }
+
+  async getCurrentWeather(
+    location: WeatherLocation,
+    options: WeatherRequestOptions = {},
+  ): Promise<CurrentWeather> {
+    return this.get<CurrentWeather>('/v2/current', {
+      query: { ...locationQuery(location), units: options.units ?? 'metric' },
+      signal: options.signal,
+    });
+  }
+
+  async getForecast(
+    location: WeatherLocation,
+    options: WeatherRequestOptions & { days: number },
+  ): Promise<Forecast> {
+    return this.get<Forecast>('/v2/forecast', {
+      query: {
+        ...locationQuery(location),
+        days: options.days,
+        units: options.units ?? 'metric',
+      },
+      signal: options.signal,
+    });
+  }
+}
+
+import {
+  ApiBlueprint,
+  analyticsApiRef,
+  createFrontendModule,
+} from '@backstage/frontend-plugin-api';
+import {
+  discoveryApiRef,
+  errorApiRef,
+  fetchApiRef,
+} from '@backstage/core-plugin-api';
+
+export const weatherApiV2 = ApiBlueprint.make({
+  name: 'weather-v2',
+  params: {
+    api: weatherApiV2Ref,
+    deps: {
+      discoveryApi: discoveryApiRef,
+      fetchApi: fetchApiRef,
+    },
+    factory: ({ discoveryApi, fetchApi }) =>
+      new WeatherApiV2Client({ discoveryApi, fetchApi }),
+  },
+});
+
+// ==============================================
+// 3. Deprecation Warnings
+// ==============================================
+
+export interface ApiDeprecation {
+  /** The ref consumers should move to */
+  replacement: ApiRef<unknown>;
+  /** Migration hint, e.g. 'Pass { city } and { units: "imperial" }' */
+  message?: string;
+  /** Release or date after which the old ref goes away */
+  removal?: string;
+}
+
+/** Posted to the ErrorApi the first time each deprecated method is called */
+export class DeprecatedApiCallError extends Error {
+  constructor(
+    readonly apiId: string,
+    readonly method: string,
+    readonly deprecation: ApiDeprecation,
+  ) {
+    super(
+      [
+        `${apiId}.${method}() is deprecated, use ${deprecation.replacement.id} instead.`,
+        deprecation.message,
+        deprecation.removal && `It will be removed in ${deprecation.removal}.`,
+      ]
+        .filter(Boolean)
+        .join(' '),
+    );
+    this.name = 'DeprecatedApiCallError';
+  }
+}
+
+/**
+ * Wraps every method of `api` so that its first call reports a deprecation
+ * warning. Later calls of the same method go straight through.
+ *
+ * The error is posted as hidden: end users can't act on it, but
+ * `errorApi.error$()` subscribers (error reporting, the browser console in
+ * development) still receive it. The analytics event makes the remaining
+ * v1 usage countable per method.
+ */
+export function withDeprecationWarnings<T extends object>(
+  api: T,
+  options: {
+    apiRef: ApiRef<T>;
+    deprecation: ApiDeprecation;
+    analyticsApi: AnalyticsApi;
+    errorApi: ErrorApi;
+    /** Usually `apiAnalyticsContext(node)` of the facade extension */
+    context: AnalyticsContextValue;
+  },
+): T {
+  const { apiRef, deprecation, analyticsApi, errorApi, context } = options;
+
+  const warn = (method: string) => {
+    analyticsApi.captureEvent({
+      action: 'deprecated-api-call',
+      subject: `${apiRef.id}.${method}`,
+      attributes: {
+        apiId: apiRef.id,
+        method,
+        replacement: deprecation.replacement.id,
+      },
+      context,
+    });
+    errorApi.post(new DeprecatedApiCallError(apiRef.id, method, deprecation), {
+      hidden: true,
+    });
+  };
+
+  return wrapApiMethods(api, (method, name) => {
+    let warned = false;
+    return (...args) => {
+      if (!warned) {
+        warned = true;
+        warn(name);
+      }
+      return method(...args);
+    };
+  });
+}
+
+// ==============================================
+// 4. Registering a Facade
+// ==============================================
+
+/**
+ * Registers `api` (the old contract) as an adapter over `implementation`
+ * (the new contract). Consumers of the old ref keep working unchanged and
+ * every method warns once per page load.
+ *
+ * Use the old registration's extension name, so the facade replaces the v1
+ * implementation instead of conflicting with it.
+ */
+export function createApiFacade<TOld extends object, TNew>(options: {
+  name: string;
+  api: ApiRef<TOld>;
+  implementation: ApiRef<TNew>;
+  adapt(implementation: TNew): TOld;
+  deprecation?: Omit<ApiDeprecation, 'replacement'>;
+}) {
+  return ApiBlueprint.makeWithOverrides({
+    name: options.name,
+    factory(originalFactory, { node }) {
+      return originalFactory({
+        api: options.api,
+        deps: {
+          implementation: options.implementation,
+          analyticsApi: analyticsApiRef,
+          errorApi: errorApiRef,
+        },
+        factory: ({ implementation, analyticsApi, errorApi }) =>
+          withDeprecationWarnings(options.adapt(implementation), {
+            apiRef: options.api,
+            deprecation: { ...options.deprecation, replacement: options.implementation },
+            analyticsApi,
+            errorApi,
+            context: apiAnalyticsContext(node),
+          }),
+      });
+    },
+  });
+}
+
+// ==============================================
+// 5. The Weather v1 Facade
+// ==============================================
+
+/** v1 always returned imperial units for a city name */
+export function weatherV1FromV2(v2: WeatherApiV2): WeatherApi {
+  return {
+    async getCurrentWeather(location, options) {
+      const current = await v2.getCurrentWeather(
+        { city: location },
+        { units: 'imperial', signal: options?.signal },
+      );
+      return {
+        temperature: current.temperature.value,
+        conditions: current.conditions.description,
+        humidity: current.humidity,
+        windSpeed: current.wind.speed.value,
+      };
+    },
+
+    async getForecast(location, days, options) {
+      const forecast = await v2.getForecast(
+        { city: location },
+        { days, units: 'imperial', signal: options?.signal },
+      );
+      return {
+        location: forecast.location.name,
+        forecast: forecast.days.map(day => ({
+          date: day.date,
+          temperature: { high: day.high.value, low: day.low.value },
+          conditions: day.conditions.description,
+        })),
+      };
+    },
+  };
+}
+
+export const weatherApiV1Facade = createApiFacade({
+  name: 'weather', // Same name as `weatherApi` in api-implementation.tsx
+  api: weatherApiRef,
+  implementation: weatherApiV2Ref,
+  adapt: weatherV1FromV2,
+  deprecation: {
+    message: 'Pass { city } and { units: "imperial" } to keep the v1 results.',
+    removal: 'weather plugin 3.0',
+  },
+});
+
+export const weatherApiModule = createFrontendModule({
+  pluginId: 'weather',
+  extensions: [weatherApiV2, weatherApiV1Facade],
+});
+
+// ==============================================
+// 6. Migrating Consumers
+// ==============================================
+
+/**
+ * // Before - still works, warns once per method
+ * const weatherApi = useApi(weatherApiRef);
+ * const weather = await weatherApi.getCurrentWeather('Berlin');
+ * weather.temperature; // °F
+ *
+ * // After
+ * const weatherApi = useApi(weatherApiV2Ref);
+ * const weather = await weatherApi.getCurrentWeather({ city: 'Berlin' });
+ * weather.temperature; // { value: 21, unit: '°C' }
+ *
+ * Once analytics shows no more `deprecated-api-call` events for
+ * `plugin.weather.api`, delete `weatherApiV1Facade` and the v1 ref.
+ */
+
+// ==============================================
+// 7. Testing the Facade
+// ==============================================
+
+/**
+ * import { mockApis } from '@backstage/test-utils';
+ *
+ * describe('weatherApiV1Facade', () => {
+ *   const v2: jest.Mocked<WeatherApiV2> = {
+ *     getCurrentWeather: jest.fn().mockResolvedValue({
+ *       location: { name: 'Austin', latitude: 30.27, longitude: -97.74 },
+ *       observedAt: '2025-10-27T12:00:00Z',
+ *       temperature: { value: 72, unit: '°F' },
+ *       humidity: 45,
+ *       wind: { speed: { value: 5, unit: 'mph' }, directionDegrees: 90 },
+ *       conditions: { code: 'sunny', description: 'Sunny' },
+ *     }),
+ *     getForecast: jest.fn(),
+ *   };
+ *
+ *   it('adapts v2 and warns once per method', async () => {
+ *     const analyticsApi = mockApis.analytics();
+ *     const errorApi = { post: jest.fn(), error$: jest.fn() };
+ *     const v1 = withDeprecationWarnings(weatherV1FromV2(v2), {
+ *       apiRef: weatherApiRef,
+ *       deprecation: { replacement: weatherApiV2Ref },
+ *       analyticsApi,
+ *       errorApi,
+ *       context: { pluginId: 'weather', extensionId: 'api:weather' },
+ *     });
+ *
+ *     await expect(v1.getCurrentWeather('Austin')).resolves.toEqual({
+ *       temperature: 72, conditions: 'Sunny', humidity: 45, windSpeed: 5,
+ *     });
+ *     await v1.getCurrentWeather('Austin');
+ *
+ *     expect(v2.getCurrentWeather).toHaveBeenCalledWith(
+ *       { city: 'Austin' },
+ *       { units: 'imperial', signal: undefined },
+ *     );
+ *     expect(errorApi.post).toHaveBeenCalledTimes(1);
+ *     expect(errorApi.post.mock.calls[0][0].message).toContain(
+ *       'plugin.weather.api.getCurrentWeather() is deprecated, use plugin.weather.api.v2',
+ *     );
+ *     expect(analyticsApi.getEvents()).toEqual([
+ *       expect.objectContaining({
+ *         action: 'deprecated-api-call',
+ *         context: { pluginId: 'weather', extensionId: 'api:weather' },
+ *       }),
+ *     ]);
+ *   });
+ * });
+ */
+
+// ==============================================
+// Key Points
+// ==============================================
+
+/**
+ * 1. New contract, new ref
+ *    - `plugin.weather.api.v2` next to `plugin.weather.api`, never a silent
+ *      change to an existing ref
+ *
+ * 2. One implementation
+ *    - The v1 facade is a pure adapter over v2, so there is no second client
+ *      to maintain or keep consistent
+ *
+ * 3. Replace, don't add
+ *    - The facade reuses the v1 extension name, so apps that install the
+ *      module get v2 and the facade without config changes
+ *
+ * 4. Measure before removing
+ *    - One warning per method and page load keeps the noise down while the
+ *      analytics events show exactly which v1 methods are still used
+ */
@@ -0,0 +1,523 @@
+/**
+ * Resilient API Client Base Example
+ *
+ * This example shows a reusable base class for API clients that talk to a
+ * plugin backend. It replaces the `discoveryApi.getBaseUrl` +
+ * `fetchApi.fetch` + `if (!response.ok) throw ...` code that every client
+ * otherwise repeats, so all portal plugins behave the same way when the
+ * backend is degraded.
+ *
+ * Features:
+ * - Base URL resolution via discoveryApi (or a fixed base URL)
+ * - JSON request encoding and response decoding
+ * - Exponential-backoff retries for idempotent methods
+ * - Honors `Retry-After` on 429 and 503 responses
+ * - Per-request timeout
+ * - Circuit breaker that fails fast while the backend is down
+ *
+ * Location: packages/api-client/src/ (shared as @internal/api-client)
+ */
+
+import { DiscoveryApi, FetchApi } from '@backstage/core-plugin-api';
+import { CircuitOpenError, createApiError } from './api-errors';
+
+// ==============================================
+// 1. Options
+// ==============================================
+
+export interface RetryOptions {
+  /** Maximum number of retries after the first attempt */
+  maxRetries?: number;
+
+  /** Delay before the first retry, doubled on each further retry (ms) */
+  initialDelayMs?: number;
+
+  /**
+   * Upper bound for a single backoff delay (ms). A `Retry-After` longer
+   * than this ends the retries instead of waiting.
+   */
+  maxDelayMs?: number;
+}
+
+export interface CircuitBreakerOptions {
+  /** Consecutive failures before the circuit opens */
+  failureThreshold?: number;
+
+  /** How long the circuit stays open before a trial request (ms) */
+  resetTimeoutMs?: number;
+}
+
+export type BaseApiClientOptions = {
+  fetchApi: FetchApi;
+  retry?: RetryOptions;
+  timeoutMs?: number;
+  circuitBreaker?: CircuitBreakerOptions;
+} & (
+  | {
+      /** Resolve the base URL through discovery, e.g. 'task' */
+      discoveryApi: DiscoveryApi;
+      pluginId: string;
+    }
+  | {
+      /** Fixed base URL, e.g. read from app-config.yaml */
+      baseUrl: string;
+    }
+);
+
+export interface RequestOptions {
+  /** Query parameters; undefined values are skipped */
+  query?: Record<string, string | number | boolean | undefined>;
+
+  /** Request body, encoded as JSON */
+  body?: unknown;
+
+  headers?: Record<string, string>;
+
+  /** Caller cancellation, combined with the client timeout */
+  signal?: AbortSignal;
+
+  /** Retry a POST that only reads, such as a batch lookup */
+  idempotent?: boolean;
+}
+
+const IDEMPOTENT_METHODS = ['GET', 'HEAD', 'OPTIONS', 'PUT', 'DELETE'];
+const RETRYABLE_STATUSES = [408, 429, 502, 503, 504];
+
+const DEFAULT_RETRY: Required<RetryOptions> = {
+  maxRetries: 3,
+  initialDelayMs: 500,
+  maxDelayMs: 10_000,
+};
+const DEFAULT_TIMEOUT_MS = 30_000;
+
+// ==============================================
+// 2. Circuit Breaker
+// ==============================================
+
+/**
+ * Classic three-state circuit breaker.
+ *
+ * - closed: requests flow, failures are counted
+ * - open: requests fail immediately until `resetTimeoutMs` has passed
+ * - half-open: one trial request decides between closed and open; other
+ *   requests fail fast while it is in flight
+ *
+ * Callers report one outcome per logical request (after its retries). A
+ * caller that got the trial slot calls `release()` if its request ends
+ * without an outcome, e.g. on cancellation.
+ */
+export class CircuitBreaker {
+  private state: 'closed' | 'open' | 'half-open' = 'closed';
+  private failures = 0;
+  private openedAt = 0;
+  private trialInFlight = false;
+  private readonly failureThreshold: number;
+  private readonly resetTimeoutMs: number;
+
+  constructor(options: CircuitBreakerOptions = {}) {
+    this.failureThreshold = options.failureThreshold ?? 5;
+    this.resetTimeoutMs = options.resetTimeoutMs ?? 30_000;
+  }
+
+  /**
+   * `rejected` while the circuit is open or its trial request runs, `trial`
+   * if the caller's request is the half-open trial, `allowed` otherwise.
+   */
+  canRequest(): 'allowed' | 'trial' | 'rejected' {
+    if (this.state === 'open') {
+      if (Date.now() - this.openedAt < this.resetTimeoutMs) {
+        return 'rejected';
+      }
+      this.state = 'half-open';
+    }
+    if (this.state === 'half-open') {
+      if (this.trialInFlight) {
+        return 'rejected';
+      }
+      this.trialInFlight = true;
+      return 'trial';
+    }
+    return 'allowed';
+  }
+
+  /** Milliseconds until the next trial request is allowed */
+  retryInMs(): number {
+    return Math.max(0, this.openedAt + this.resetTimeoutMs - Date.now());
+  }
+
+  recordSuccess(): void {
+    this.state = 'closed';
+    this.failures = 0;
+    this.trialInFlight = false;
+  }
+
+  recordFailure(): void {
+    this.failures++;
+    this.trialInFlight = false;
+    if (this.state === 'half-open' || this.failures >= this.failureThreshold) {
+      this.state = 'open';
+      this.openedAt = Date.now();
+    }
+  }
+
+  /**
+   * Frees the trial slot. Only for the caller that got `trial` from
+   * `canRequest()` and ended without an outcome; any other request could
+   * free the slot while the trial still runs.
+   */
+  release(): void {
+    this.trialInFlight = false;
+  }
+}
+
+// ==============================================
+// 3. Helpers
+// ==============================================
+
+/**
+ * Parse a `Retry-After` header, which is either a number of seconds or an
+ * HTTP date. Returns undefined if the header is missing or invalid.
+ */
+export function parseRetryAfter(header: string | null): number | undefined {
+  if (!header) {
+    return undefined;
+  }
+
+  const seconds = Number(header);
+  if (!Number.isNaN(seconds)) {
+    return Math.max(0, seconds * 1000);
+  }
+
+  const date = Date.parse(header);
+  return Number.isNaN(date) ? undefined : Math.max(0, date - Date.now());
+}
+
+function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(signal.reason);
+      return;
+    }
+
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(signal!.reason);
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+}
+
+/**
+ * Abort when either the caller cancels or the timeout expires.
+ */
+function withTimeout(timeoutMs: number, signal?: AbortSignal) {
+  const controller = new AbortController();
+  const timer = setTimeout(
+    () => controller.abort(new Error(`Request timed out after ${timeoutMs}ms`)),
+    timeoutMs,
+  );
+
+  const onAbort = () => controller.abort(signal!.reason);
+  if (signal?.aborted) {
+    onAbort();
+  } else {
+    signal?.addEventListener('abort', onAbort, { once: true });
+  }
+
+  return {
+    signal: controller.signal,
+    clear: () => {
+      clearTimeout(timer);
+      signal?.removeEventListener('abort', onAbort);
+    },
+  };
+}
+
+// ==============================================
+// 4. Base Client
+// ==============================================
+
+/**
+ * Base class for API clients.
+ *
+ * Subclasses only describe their endpoints:
+ *
+ * @example
+ * ```typescript
+ * export class WeatherApiClient extends BaseApiClient implements WeatherApi {
+ *   constructor(options: { discoveryApi: DiscoveryApi; fetchApi: FetchApi }) {
+ *     super({ ...options, pluginId: 'weather' });
+ *   }
+ *
+ *   getCurrentWeather(location: string): Promise<WeatherData> {
+ *     return this.get('/current', { query: { location } });
+ *   }
+ * }
+ * ```
+ */
+export abstract class BaseApiClient {
+  private readonly options: BaseApiClientOptions;
+  private readonly retry: Required<RetryOptions>;
+  private readonly timeoutMs: number;
+  private readonly circuitBreaker: CircuitBreaker;
+
+  protected constructor(options: BaseApiClientOptions) {
+    this.options = options;
+    this.retry = {
+      maxRetries: options.retry?.maxRetries ?? DEFAULT_RETRY.maxRetries,
+      initialDelayMs: options.retry?.initialDelayMs ?? DEFAULT_RETRY.initialDelayMs,
+      maxDelayMs: options.retry?.maxDelayMs ?? DEFAULT_RETRY.maxDelayMs,
+    };
+    this.timeoutMs = options.timeoutMs ?? DEFAULT_TIMEOUT_MS;
+    this.circuitBreaker = new CircuitBreaker(options.circuitBreaker);
+  }
+
+  protected get<T>(path: string, options?: RequestOptions): Promise<T> {
+    return this.request<T>('GET', path, options);
+  }
+
+  protected post<T>(path: string, options?: RequestOptions): Promise<T> {
+    return this.request<T>('POST', path, options);
+  }
+
+  protected put<T>(path: string, options?: RequestOptions): Promise<T> {
+    return this.request<T>('PUT', path, options);
+  }
+
+  protected patch<T>(path: string, options?: RequestOptions): Promise<T> {
+    return this.request<T>('PATCH', path, options);
+  }
+
+  protected delete<T = void>(path: string, options?: RequestOptions): Promise<T> {
+    return this.request<T>('DELETE', path, options);
+  }
+
+  protected async getBaseUrl(): Promise<string> {
+    if ('baseUrl' in this.options) {
+      return this.options.baseUrl;
+    }
+    return await this.options.discoveryApi.getBaseUrl(this.options.pluginId);
+  }
+
+  /**
+   * Send a request and decode the JSON response.
+   *
+   * Idempotent methods are retried on network errors and retryable
+   * statuses; POST and PATCH are sent exactly once unless marked
+   * `idempotent`. The circuit breaker sees one outcome per call, not one
+   * per attempt.
+   */
+  protected async request<T>(
+    method: string,
+    path: string,
+    options: RequestOptions = {},
+  ): Promise<T> {
+    const admission = this.circuitBreaker.canRequest();
+    if (admission === 'rejected') {
+      throw new CircuitOpenError(this.circuitBreaker.retryInMs(), {
+        method,
+        url: path,
+      });
+    }
+
+    let outcomeRecorded = false;
+    try {
+      const url = await this.buildUrl(path, options.query);
+      const idempotent = options.idempotent ?? IDEMPOTENT_METHODS.includes(method);
+      const maxRetries = idempotent ? this.retry.maxRetries : 0;
+
+      for (let attempt = 0; ; attempt++) {
+        let response: Response;
+        try {
+          response = await this.send(method, url, options);
+        } catch (error) {
+          // Caller cancellation is not a backend failure
+          if (options.signal?.aborted) {
+            throw error;
+          }
+          if (attempt >= maxRetries) {
+            this.circuitBreaker.recordFailure();
+            outcomeRecorded = true;
+            throw error;
+          }
+          await sleep(this.backoff(attempt), options.signal);
+          continue;
+        }
+
+        if (attempt < maxRetries && RETRYABLE_STATUSES.includes(response.status)) {
+          const retryAfter = parseRetryAfter(response.headers.get('Retry-After'));
+          // A Retry-After beyond the cap would outlast the timeout; give up
+          if (retryAfter === undefined || retryAfter <= this.retry.maxDelayMs) {
+            await sleep(retryAfter ?? this.backoff(attempt), options.signal);
+            continue;
+          }
+        }
+
+        // Any response below 500, including a 4xx, shows the backend is up
+        if (response.status >= 500) {
+          this.circuitBreaker.recordFailure();
+        } else {
+          this.circuitBreaker.recordSuccess();
+        }
+        outcomeRecorded = true;
+
+        if (response.ok) {
+          return await this.decode<T>(response);
+        }
+        throw await this.toError(method, path, response);
+      }
+    } finally {
+      if (admission === 'trial' && !outcomeRecorded) {
+        this.circuitBreaker.release();
+      }
+    }
+  }
+
+  /**
+   * Turn a non-2xx response into a typed ApiError (see api-errors.ts).
+   * Override to customize.
+   */
+  protected async toError(
+    method: string,
+    path: string,
+    response: Response,
+  ): Promise<Error> {
+    return await createApiError(response, { method, url: path });
+  }
+
+  private async send(method: string, url: string, options: RequestOptions) {
+    const { signal, clear } = withTimeout(this.timeoutMs, options.signal);
+    const headers: Record<string, string> = {
+      Accept: 'application/json',
+      ...options.headers,
+    };
+    if (options.body !== undefined) {
+      headers['Content-Type'] = 'application/json';
+    }
+
+    try {
+      return await this.options.fetchApi.fetch(url, {
+        method,
+        headers,
+        body: options.body !== undefined ? JSON.stringify(options.body) : undefined,
+        signal,
+      });
+    } finally {
+      clear();
+    }
+  }
+
+  private async buildUrl(path: string, query?: RequestOptions['query']) {
+    const url = `${await this.getBaseUrl()}${path}`;
+    const params = new URLSearchParams();
+    for (const [key, value] of Object.entries(query ?? {})) {
+      if (value !== undefined) {
+        params.append(key, String(value));
+      }
+    }
+    const queryString = params.toString();
+    return queryString ? `${url}?${queryString}` : url;
+  }
+
+  private async decode<T>(response: Response): Promise<T> {
+    if (response.status === 204) {
+      return undefined as T;
+    }
+    const text = await response.text();
+    return (text ? JSON.parse(text) : undefined) as T;
+  }
+
+  /** Exponential backoff with full jitter */
+  private backoff(attempt: number): number {
+    const ceiling = Math.min(
+      this.retry.maxDelayMs,
+      this.retry.initialDelayMs * 2 ** attempt,
+    );
+    return Math.random() * ceiling;
+  }
+}
+
+// ==============================================
+// 5. Configuring Resilience per Plugin
+// ==============================================
+
+/**
+ * Read shared resilience settings from app-config.yaml so every client
+ * of a plugin uses the same limits.
+ *
+ * task:
+ *   client:
+ *     timeoutMs: 10000
+ *     retry:
+ *       maxRetries: 2
+ *       initialDelayMs: 250
+ *     circuitBreaker:
+ *       failureThreshold: 5
+ *       resetTimeoutMs: 30000
+ */
+
+import { ConfigApi } from '@backstage/core-plugin-api';
+
+/**
+ * Drops unset keys, so spreading the result over defaults never replaces a
+ * default with an explicit `undefined`.
+ */
+function definedOnly<T extends object>(value: T): Partial<T> {
+  return Object.fromEntries(
+    Object.entries(value).filter(([, v]) => v !== undefined),
+  ) as Partial<T>;
+}
+
+export function readClientOptions(
+  configApi: ConfigApi,
+  configKey: string,
+): Pick<BaseApiClientOptions, 'retry' | 'timeoutMs' | 'circuitBreaker'> {
+  const config = configApi.getOptionalConfig(`${configKey}.client`);
+  return definedOnly({
+    timeoutMs: config?.getOptionalNumber('timeoutMs'),
+    retry: definedOnly({
+      maxRetries: config?.getOptionalNumber('retry.maxRetries'),
+      initialDelayMs: config?.getOptionalNumber('retry.initialDelayMs'),
+      maxDelayMs: config?.getOptionalNumber('retry.maxDelayMs'),
+    }),
+    circuitBreaker: definedOnly({
+      failureThreshold: config?.getOptionalNumber('circuitBreaker.failureThreshold'),
+      resetTimeoutMs: config?.getOptionalNumber('circuitBreaker.resetTimeoutMs'),
+    }),
+  });
+}
+
+// ==============================================
+// Key Points
+// ==============================================
+
+/**
+ * 1. Subclasses describe endpoints, not HTTP plumbing
+ *    - `this.get('/tasks')` instead of discovery + fetch + status checks
+ *
+ * 2. Only idempotent methods are retried
+ *    - GET, HEAD, OPTIONS, PUT and DELETE
+ *    - POST and PATCH could create duplicates, so they are never retried
+ *
+ * 3. Retry-After wins over backoff
+ *    - 429 and 503 responses usually tell you when to come back
+ *    - A Retry-After above `maxDelayMs` fails the request instead of waiting
+ *
+ * 4. Circuit breaker
+ *    - After `failureThreshold` consecutive failed calls, calls fail fast
+ *    - A call counts once, however many retries it took
+ *    - One trial request after `resetTimeoutMs` closes or re-opens it
+ *    - 4xx responses show the backend is up and count as successes
+ *
+ * 5. Timeouts and cancellation
+ *    - Every attempt is bounded by `timeoutMs`
+ *    - Pass `signal` to cancel a request and its pending retries
+ *
+ * 6. Typed errors
+ *    - Non-2xx responses become ApiError subclasses (api-errors.ts)
+ *    - An open circuit throws CircuitOpenError without sending a request
+ */
@@ -0,0 +1,763 @@
+/**
+ * CatalogEnhancementApi Implementation Example
+ *
+ * This example implements the `CatalogEnhancementApiV2` contract from
+ * creating-api-ref.ts. DORA metrics come from the catalog enhancement
+ * backend (plugins/catalog-enhancement-backend-plugin.ts); related entities
+ * come from walking catalog relations in the browser. The v1
+ * `CatalogEnhancementApi` is kept as a facade (see api-versioning.ts).
+ *
+ * Features:
+ * - Deployment frequency, change failure rate, MTTR and lead time per entity
+ * - 7, 30 and 90 day windows
+ * - A health score on enriched entities
+ * - Relation traversal with a depth limit, relation allowlist, cycle
+ *   detection and a readable path to every related entity
+ * - Entity page cards for the metrics and the relation graph
+ */
+
+import { DiscoveryApi, FetchApi } from '@backstage/core-plugin-api';
+import { CatalogApi } from '@backstage/catalog-client';
+import {
+  Entity,
+  parseEntityRef,
+  stringifyEntityRef,
+} from '@backstage/catalog-model';
+import { BaseApiClient } from './base-api-client';
+import { NotFoundError } from './api-errors';
+import {
+  CatalogEnhancementApi,
+  CatalogEnhancementApiV2,
+  EnrichedEntityV2,
+  EntityMetricsV2,
+  MetricsWindowOptions,
+  RelatedEntity,
+  RelationEdge,
+  RelationGraph,
+  RelationTraversalOptions,
+  TraversableRelation,
+} from './creating-api-ref';
+
+// ==============================================
+// 1. Wire Format
+// ==============================================
+
+/** `updatedAt` arrives as an ISO string; `healthScore` rides along */
+type EntityMetricsJson = Omit<EntityMetricsV2, 'updatedAt'> & {
+  updatedAt: string;
+  healthScore: number | null;
+};
+
+// ==============================================
+// 2. Relation Traversal
+// ==============================================
+
+/** Set by the scaffolder on every entity it registers */
+export const SOURCE_TEMPLATE_ANNOTATION = 'backstage.io/source-template';
+
+export const DEFAULT_RELATIONS: TraversableRelation[] = [
+  'ownedBy',
+  'dependsOn',
+  'partOf',
+  'providesApi',
+];
+
+const MAX_DEPTH = 4;
+
+const RELATION_PHRASES: Record<TraversableRelation, string> = {
+  ownedBy: 'is owned by',
+  dependsOn: 'depends on',
+  partOf: 'is part of',
+  providesApi: 'provides',
+  scaffoldedFrom: 'was created from',
+};
+
+/**
+ * Relations of `entity` the walk may follow. An annotation that is not an
+ * entity ref is reported through `skip` instead of failing the whole walk.
+ */
+function outgoingEdges(
+  entity: Entity,
+  relations: Set<TraversableRelation>,
+  skip: (message: string) => void,
+): RelationEdge[] {
+  const from = stringifyEntityRef(entity);
+  const edges = (entity.relations ?? [])
+    .filter(relation => relations.has(relation.type as TraversableRelation))
+    .map(relation => ({
+      from,
+      to: relation.targetRef,
+      type: relation.type as TraversableRelation,
+    }));
+
+  const template = entity.metadata.annotations?.[SOURCE_TEMPLATE_ANNOTATION];
+  if (template && relations.has('scaffoldedFrom')) {
+    try {
+      edges.push({
+        from,
+        to: stringifyEntityRef(parseEntityRef(template, { defaultKind: 'template' })),
+        type: 'scaffoldedFrom',
+      });
+    } catch {
+      skip(`${from} has an invalid ${SOURCE_TEMPLATE_ANNOTATION} annotation "${template}"`);
+    }
+  }
+  return edges;
+}
+
+/** "xr-payments-db is part of payments, which is owned by platform" */
+export function explainPath(path: RelationEdge[]): string {
+  const nameOf = (ref: string) => parseEntityRef(ref).name;
+  return path
+    .map((edge, index) =>
+      index === 0
+        ? `${nameOf(edge.from)} ${RELATION_PHRASES[edge.type]} ${nameOf(edge.to)}`
+        : `which ${RELATION_PHRASES[edge.type]} ${nameOf(edge.to)}`,
+    )
+    .join(', ');
+}
+
+/**
+ * Breadth-first walk over catalog relations, one batched catalog request
+ * per level.
+ *
+ * Every entity is expanded at most once, so cycles (A dependsOn B dependsOn
+ * A) end the walk instead of looping. Because the walk is breadth-first, the
+ * first path that reaches an entity is a shortest one; later edges to it are
+ * kept in `edges` so the graph still shows the cycle.
+ */
+export async function traverseRelations(
+  options: RelationTraversalOptions & {
+    root: Entity;
+    /** Same order as `refs`, undefined for refs that don't exist */
+    loadEntities(refs: string[]): Promise<Array<Entity | undefined>>;
+  },
+): Promise<RelationGraph> {
+  const maxDepth = Math.min(Math.max(options.maxDepth ?? 1, 1), MAX_DEPTH);
+  const maxEntities = options.maxEntities ?? 100;
+  const relations = new Set(options.relations ?? DEFAULT_RELATIONS);
+
+  // Path to every ref reached so far; doubles as the visited set
+  const paths = new Map<string, RelationEdge[]>([
+    [stringifyEntityRef(options.root), []],
+  ]);
+  const nodes: RelatedEntity[] = [];
+  const edges: RelationEdge[] = [];
+  const skipped: string[] = [];
+  let frontier = [options.root];
+  let truncated = false;
+
+  for (let depth = 1; depth <= maxDepth && frontier.length > 0 && !truncated; depth++) {
+    const refs: string[] = [];
+
+    for (const edge of frontier.flatMap(entity =>
+      outgoingEdges(entity, relations, message => skipped.push(message)),
+    )) {
+      edges.push(edge);
+      if (paths.has(edge.to)) {
+        continue;
+      }
+      if (paths.size > maxEntities) {
+        truncated = true;
+        break;
+      }
+      paths.set(edge.to, [...paths.get(edge.from)!, edge]);
+      refs.push(edge.to);
+    }
+
+    const entities = refs.length ? await options.loadEntities(refs) : [];
+    frontier = [];
+    entities.forEach((entity, index) => {
+      // Relations can point at entities that no longer exist
+      if (!entity) {
+        return;
+      }
+      const path = paths.get(refs[index])!;
+      nodes.push({ entity, depth, path, explanation: explainPath(path) });
+      frontier.push(entity);
+    });
+  }
+
+  const reached = new Set([
+    stringifyEntityRef(options.root),
+    ...nodes.map(node => stringifyEntityRef(node.entity)),
+  ]);
+
+  return {
+    root: options.root,
+    nodes,
+    edges: edges.filter(edge => reached.has(edge.to)),
+    truncated,
+    skipped,
+  };
+}
+
+/**
+ * // traverseRelations.test.ts - no catalog needed, just a lookup table
+ *
+ * const entity = (name: string, relations: Array<[string, string]>): Entity => ({
+ *   apiVersion: 'backstage.io/v1alpha1',
+ *   kind: 'Component',
+ *   metadata: { name },
+ *   relations: relations.map(([type, targetRef]) => ({ type, targetRef })),
+ * });
+ *
+ * const catalog: Record<string, Entity> = {
+ *   'component:default/a': entity('a', [['dependsOn', 'component:default/b']]),
+ *   'component:default/b': entity('b', [['dependsOn', 'component:default/a'],
+ *                                       ['ownedBy', 'component:default/c']]),
+ *   'component:default/c': entity('c', []),
+ * };
+ * const loadEntities = jest.fn(async (refs: string[]) => refs.map(ref => catalog[ref]));
+ *
+ * it('stops at cycles and explains paths', async () => {
+ *   const graph = await traverseRelations({
+ *     root: catalog['component:default/a'],
+ *     maxDepth: 4,
+ *     loadEntities,
+ *   });
+ *
+ *   expect(graph.nodes.map(n => [n.entity.metadata.name, n.depth])).toEqual([['b', 1], ['c', 2]]);
+ *   expect(graph.nodes[1].explanation).toBe('a depends on b, which is owned by c');
+ *   expect(graph.edges).toContainEqual(
+ *     { from: 'component:default/b', to: 'component:default/a', type: 'dependsOn' },
+ *   );
+ *   expect(loadEntities).toHaveBeenCalledTimes(2); // one batch per level
+ * });
+ *
+ * it('skips malformed source-template annotations and keeps walking', async () => {
+ *   const root = entity('xr', [['ownedBy', 'component:default/c']]);
+ *   root.metadata.annotations = { 'backstage.io/source-template': 'template:' };
+ *
+ *   const graph = await traverseRelations({
+ *     root,
+ *     relations: ['scaffoldedFrom', 'ownedBy'],
+ *     loadEntities,
+ *   });
+ *
+ *   expect(graph.nodes.map(n => n.entity.metadata.name)).toEqual(['c']);
+ *   expect(graph.skipped).toEqual([
+ *     expect.stringContaining('invalid backstage.io/source-template annotation'),
+ *   ]);
+ * });
+ */
+
+// ==============================================
+// 3. API Client
+// ==============================================
+
+export class CatalogEnhancementApiClient
+  extends BaseApiClient
+  implements CatalogEnhancementApiV2
+{
+  private readonly catalogApi: CatalogApi;
+
+  constructor(options: {
+    discoveryApi: DiscoveryApi;
+    fetchApi: FetchApi;
+    catalogApi: CatalogApi;
+  }) {
+    super({ ...options, pluginId: 'catalog-enhancement' });
+    this.catalogApi = options.catalogApi;
+  }
+
+  async enrichEntity(entity: Entity): Promise<EnrichedEntityV2> {
+    const { healthScore, updatedAt } = await this.fetchMetrics(entity, 30);
+    return {
+      entity,
+      relatedCount: entity.relations?.length ?? 0,
+      lastUpdated: new Date(updatedAt),
+      healthScore,
+    };
+  }
+
+  async getRelatedEntities(
+    entityRef: string,
+    options?: RelationTraversalOptions,
+  ): Promise<Entity[]> {
+    const graph = await this.getRelationGraph(entityRef, options);
+    return graph.nodes.map(node => node.entity);
+  }
+
+  async getRelationGraph(
+    entityRef: string,
+    options: RelationTraversalOptions = {},
+  ): Promise<RelationGraph> {
+    const root = await this.catalogApi.getEntityByRef(entityRef);
+    if (!root) {
+      throw new NotFoundError(`No entity ${entityRef} in the catalog`, {
+        status: 404,
+      });
+    }
+    return traverseRelations({
+      ...options,
+      root,
+      loadEntities: async refs =>
+        (await this.catalogApi.getEntitiesByRefs({ entityRefs: refs })).items,
+    });
+  }
+
+  async calculateMetrics(
+    entity: Entity,
+    options: MetricsWindowOptions = {},
+  ): Promise<EntityMetricsV2> {
+    const { healthScore: _, ...metrics } = await this.fetchMetrics(
+      entity,
+      options.windowDays ?? 30,
+    );
+    return { ...metrics, updatedAt: new Date(metrics.updatedAt) };
+  }
+
+  private fetchMetrics(entity: Entity, windowDays: number) {
+    return this.get<EntityMetricsJson>('/metrics', {
+      query: { entityRef: stringifyEntityRef(entity), window: windowDays },
+    });
+  }
+}
+
+// ==============================================
+// 4. The v1 Facade
+// ==============================================
+
+/** v1 had no notion of missing data and reported it as 0 */
+export function catalogEnhancementV1FromV2(
+  v2: CatalogEnhancementApiV2,
+): CatalogEnhancementApi {
+  return {
+    async enrichEntity(entity) {
+      const enriched = await v2.enrichEntity(entity);
+      return { ...enriched, healthScore: enriched.healthScore ?? 0 };
+    },
+
+    getRelatedEntities: entityRef => v2.getRelatedEntities(entityRef),
+
+    async calculateMetrics(entity) {
+      const metrics = await v2.calculateMetrics(entity);
+      return {
+        deploymentFrequency: metrics.deploymentFrequency ?? 0,
+        changeFailureRate: metrics.changeFailureRate ?? 0,
+        meanTimeToRestore: metrics.meanTimeToRestore ?? 0,
+        leadTime: metrics.leadTime ?? 0,
+      };
+    },
+  };
+}
+
+// ==============================================
+// 5. Registering the API
+// ==============================================
+
+import { ApiBlueprint } from '@backstage/frontend-plugin-api';
+import { discoveryApiRef, fetchApiRef } from '@backstage/core-plugin-api';
+import { catalogApiRef } from '@backstage/plugin-catalog-react';
+import { catalogEnhancementApiRef, catalogEnhancementApiV2Ref } from './creating-api-ref';
+import { createApiFacade } from './api-versioning';
+
+export const catalogEnhancementApiV2 = ApiBlueprint.make({
+  name: 'catalog-enhancement-v2',
+  params: {
+    api: catalogEnhancementApiV2Ref,
+    deps: {
+      discoveryApi: discoveryApiRef,
+      fetchApi: fetchApiRef,
+      catalogApi: catalogApiRef,
+    },
+    factory: ({ discoveryApi, fetchApi, catalogApi }) =>
+      new CatalogEnhancementApiClient({ discoveryApi, fetchApi, catalogApi }),
+  },
+});
+
+export const catalogEnhancementApiV1Facade = createApiFacade({
+  name: 'catalog-enhancement', // Same name as the v1 registration
+  api: catalogEnhancementApiRef,
+  implementation: catalogEnhancementApiV2Ref,
+  adapt: catalogEnhancementV1FromV2,
+  deprecation: {
+    message: 'Metrics and the health score are null without data; v1 reports 0.',
+    removal: 'catalog-enhancement plugin 2.0',
+  },
+});
+
+// ==============================================
+// 6. DORA Metrics Card
+// ==============================================
+
+import React from 'react';
+import { useApi } from '@backstage/core-plugin-api';
+import {
+  InfoCard,
+  Progress,
+  ResponseErrorPanel,
+  StructuredMetadataTable,
+} from '@backstage/core-components';
+import { useEntity } from '@backstage/plugin-catalog-react';
+import { Chip, MenuItem, Select } from '@material-ui/core';
+import { DoraLevel } from './creating-api-ref';
+
+const LEVEL_COLORS: Record<DoraLevel, string> = {
+  elite: '#2e7d32',
+  high: '#1565c0',
+  medium: '#ef6c00',
+  low: '#c62828',
+};
+
+const WINDOWS = [7, 30, 90] as const;
+
+function formatHours(hours: number): string {
+  return hours < 48 ? `${hours.toFixed(1)} h` : `${(hours / 24).toFixed(1)} d`;
+}
+
+const MetricValue = ({ value, level }: { value?: string; level: DoraLevel | null }) =>
+  value === undefined ? (
+    <>No data</>
+  ) : (
+    <>
+      {value}{' '}
+      {level && (
+        <Chip
+          size="small"
+          label={level}
+          style={{ backgroundColor: LEVEL_COLORS[level], color: '#fff' }}
+        />
+      )}
+    </>
+  );
+
+/** DORA metrics of the current entity */
+export const EntityDoraCard = () => {
+  const { entity } = useEntity();
+  const catalogEnhancementApi = useApi(catalogEnhancementApiV2Ref);
+  const [windowDays, setWindowDays] = React.useState<7 | 30 | 90>(30);
+  const [metrics, setMetrics] = React.useState<EntityMetricsV2>();
+  const [error, setError] = React.useState<Error>();
+
+  React.useEffect(() => {
+    let cancelled = false;
+    setMetrics(undefined);
+    setError(undefined);
+
+    catalogEnhancementApi.calculateMetrics(entity, { windowDays }).then(
+      result => !cancelled && setMetrics(result),
+      err => !cancelled && setError(err),
+    );
+
+    return () => {
+      cancelled = true;
+    };
+  }, [catalogEnhancementApi, entity, windowDays]);
+
+  return (
+    <InfoCard
+      title="DORA metrics"
+      subheader={metrics && `Updated ${metrics.updatedAt.toLocaleString()}`}
+      action={
+        <Select
+          value={windowDays}
+          onChange={e => setWindowDays(e.target.value as 7 | 30 | 90)}
+        >
+          {WINDOWS.map(days => (
+            <MenuItem key={days} value={days}>
+              Last {days} days
+            </MenuItem>
+          ))}
+        </Select>
+      }
+    >
+      {error && <ResponseErrorPanel error={error} />}
+      {!error && !metrics && <Progress />}
+      {metrics && (
+        <StructuredMetadataTable
+          metadata={{
+            'Deployment frequency': (
+              <MetricValue
+                value={
+                  metrics.deploymentFrequency === null
+                    ? undefined
+                    : `${(metrics.deploymentFrequency * 7).toFixed(1)} / week`
+                }
+                level={metrics.levels.deploymentFrequency}
+              />
+            ),
+            'Lead time for changes': (
+              <MetricValue
+                value={metrics.leadTime === null ? undefined : formatHours(metrics.leadTime)}
+                level={metrics.levels.leadTime}
+              />
+            ),
+            'Change failure rate': (
+              <MetricValue
+                value={
+                  metrics.changeFailureRate === null
+                    ? undefined
+                    : `${Math.round(metrics.changeFailureRate * 100)} %`
+                }
+                level={metrics.levels.changeFailureRate}
+              />
+            ),
+            'Time to restore': (
+              <MetricValue
+                value={
+                  metrics.meanTimeToRestore === null
+                    ? undefined
+                    : formatHours(metrics.meanTimeToRestore)
+                }
+                level={metrics.levels.meanTimeToRestore}
+              />
+            ),
+          }}
+        />
+      )}
+    </InfoCard>
+  );
+};
+
+// ==============================================
+// 7. Relation Graph Card
+// ==============================================
+
+import {
+  DependencyGraph,
+  DependencyGraphTypes,
+} from '@backstage/core-components';
+import { EntityRefLink } from '@backstage/plugin-catalog-react';
+import {
+  Box,
+  Checkbox,
+  FormControlLabel,
+  Typography,
+} from '@material-ui/core';
+
+type GraphNodeData = {
+  id: string;
+  kind: string;
+  title: string;
+  root: boolean;
+  selected: boolean;
+  onSelect(): void;
+};
+
+const GraphNode = ({ node }: DependencyGraphTypes.RenderNodeProps<GraphNodeData>) => {
+  const width = Math.max(node.title.length, node.kind.length) * 8 + 24;
+  const fill = node.selected ? '#1565c0' : node.root ? '#37474f' : '#eceff1';
+  const color = node.selected || node.root ? '#fff' : '#263238';
+
+  return (
+    <g onClick={node.onSelect} style={{ cursor: 'pointer' }}>
+      <rect width={width} height={44} rx={8} fill={fill} />
+      <text x={width / 2} y={17} textAnchor="middle" fontSize={11} fill={color}>
+        {node.kind}
+      </text>
+      <text x={width / 2} y={34} textAnchor="middle" fontWeight="bold" fill={color}>
+        {node.title}
+      </text>
+    </g>
+  );
+};
+
+const ALL_RELATIONS: TraversableRelation[] = [...DEFAULT_RELATIONS, 'scaffoldedFrom'];
+
+export interface EntityRelationGraphCardProps {
+  /** Initial depth; the user can change it */
+  maxDepth?: number;
+  /** Initially enabled relation types; the user can toggle them */
+  relations?: TraversableRelation[];
+}
+
+/**
+ * Relation graph around the current entity. Clicking an entity explains how
+ * it is connected to the current one.
+ */
+export const EntityRelationGraphCard = (props: EntityRelationGraphCardProps) => {
+  const { entity } = useEntity();
+  const catalogEnhancementApi = useApi(catalogEnhancementApiV2Ref);
+  const [maxDepth, setMaxDepth] = React.useState(props.maxDepth ?? 2);
+  const [relations, setRelations] = React.useState(props.relations ?? DEFAULT_RELATIONS);
+  const [graph, setGraph] = React.useState<RelationGraph>();
+  const [error, setError] = React.useState<Error>();
+  const [selectedRef, setSelectedRef] = React.useState<string>();
+
+  const entityRef = stringifyEntityRef(entity);
+
+  React.useEffect(() => {
+    let cancelled = false;
+    setGraph(undefined);
+    setError(undefined);
+
+    catalogEnhancementApi.getRelationGraph(entityRef, { maxDepth, relations }).then(
+      result => !cancelled && setGraph(result),
+      err => !cancelled && setError(err),
+    );
+
+    return () => {
+      cancelled = true;
+    };
+  }, [catalogEnhancementApi, entityRef, maxDepth, relations]);
+
+  const toggleRelation = (relation: TraversableRelation) =>
+    setRelations(prev =>
+      prev.includes(relation) ? prev.filter(r => r !== relation) : [...prev, relation],
+    );
+
+  const selected = graph?.nodes.find(
+    node => stringifyEntityRef(node.entity) === selectedRef,
+  );
+
+  const nodes: GraphNodeData[] = graph
+    ? [graph.root, ...graph.nodes.map(node => node.entity)].map(e => {
+        const id = stringifyEntityRef(e);
+        return {
+          id,
+          kind: e.kind,
+          title: e.metadata.title ?? e.metadata.name,
+          root: id === entityRef,
+          selected: id === selectedRef,
+          onSelect: () => setSelectedRef(id),
+        };
+      })
+    : [];
+
+  return (
+    <InfoCard
+      title="Relations"
+      subheader={graph?.truncated && 'Showing the first 100 entities'}
+      action={
+        <Select value={maxDepth} onChange={e => setMaxDepth(e.target.value as number)}>
+          {[1, 2, 3, 4].map(depth => (
+            <MenuItem key={depth} value={depth}>
+              {depth} {depth === 1 ? 'hop' : 'hops'}
+            </MenuItem>
+          ))}
+        </Select>
+      }
+    >
+      <Box display="flex" flexWrap="wrap">
+        {ALL_RELATIONS.map(relation => (
+          <FormControlLabel
+            key={relation}
+            label={relation}
+            control={
+              <Checkbox
+                size="small"
+                checked={relations.includes(relation)}
+                onChange={() => toggleRelation(relation)}
+              />
+            }
+          />
+        ))}
+      </Box>
+      {error && <ResponseErrorPanel error={error} />}
+      {!error && !graph && <Progress />}
+      {graph && (
+        <DependencyGraph
+          nodes={nodes}
+          edges={graph.edges.map(edge => ({
+            from: edge.from,
+            to: edge.to,
+            label: edge.type,
+          }))}
+          renderNode={GraphNode}
+          direction={DependencyGraphTypes.Direction.LEFT_RIGHT}
+          labelPosition={DependencyGraphTypes.LabelPosition.RIGHT}
+          showArrowHeads
+          zoom="enable-on-click"
+          fit="contain"
+        />
+      )}
+      {selected && (
+        <Typography variant="body2">
+          <EntityRefLink entityRef={selected.entity} />: {selected.explanation}
+        </Typography>
+      )}
+      {graph?.skipped.map(message => (
+        <Typography key={message} variant="caption" color="textSecondary" display="block">
+          Skipped: {message}
+        </Typography>
+      ))}
+    </InfoCard>
+  );
+};
+
+// ==============================================
+// 8. Adding the Cards to Entity Pages
+// ==============================================
+
+import { createFrontendModule } from '@backstage/frontend-plugin-api';
+import { EntityCardBlueprint } from '@backstage/plugin-catalog-react/alpha';
+
+export const entityDoraCard = EntityCardBlueprint.make({
+  name: 'dora',
+  params: {
+    // Only components are deployed
+    filter: 'kind:component',
+    loader: async () => <EntityDoraCard />,
+  },
+});
+
+/**
+ * How a provisioned XR connects: the Template it was created from, its
+ * owning Group and its System (and that System's owner at depth 2).
+ */
+export const entityRelationGraphCard = EntityCardBlueprint.make({
+  name: 'xr-relations',
+  params: {
+    filter: 'kind:component spec.type:crossplane-xr',
+    loader: async () => (
+      <EntityRelationGraphCard
+        maxDepth={2}
+        relations={['scaffoldedFrom', 'ownedBy', 'partOf']}
+      />
+    ),
+  },
+});
+
+export const catalogEnhancementModule = createFrontendModule({
+  pluginId: 'catalog',
+  extensions: [
+    catalogEnhancementApiV2,
+    catalogEnhancementApiV1Facade,
+    entityDoraCard,
+    entityRelationGraphCard,
+  ],
+});
+
+/**
+ * // packages/app/src/App.tsx
+ * const app = createApp({
+ *   features: [catalogPlugin, catalogEnhancementModule],
+ * });
+ *
+ * // app-config.yaml - move the card or turn it off per installation
+ * app:
+ *   extensions:
+ *     - entity-card:catalog/dora:
+ *         config:
+ *           filter: kind:component spec.type:service
+ */
+
+// ==============================================
+// Key Points
+// ==============================================
+
+/**
+ * 1. The backend owns the numbers
+ *    - Events are ingested and aggregated server-side
+ *    - The client only picks the entity and the window
+ *
+ * 2. Missing data is not a zero
+ *    - Each metric and level can be null; the card shows "No data"
+ *    - That is a breaking change, so it ships on a v2 ref; the v1 facade
+ *      keeps reporting 0 for existing consumers
+ *
+ * 3. Health score
+ *    - `enrichEntity()` carries the backend's 30 day score, or null
+ *
+ * 4. Bounded relation traversal
+ *    - Depth capped at 4, relation types allowlisted, 100 entities at most
+ *    - One `getEntitiesByRefs` call per level, not per entity
+ *    - Visited set stops cycles; edges that close them are still drawn
+ *    - Each entity explains how it was reached
+ *    - A malformed source-template annotation is skipped and listed, not fatal
+ *
+ * 5. Cards are extensions
+ *    - `EntityCardBlueprint` with a filter, configurable from app-config
+ */
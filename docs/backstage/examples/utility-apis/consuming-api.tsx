@@ -12,7 +12,7 @@ import {
   configApiRef,
   analyticsApiRef,
 } from '@backstage/core-plugin-api';
-import { weatherApiRef } from './creating-api-ref';
+import { notificationApiV2Ref, weatherApiRef } from './creating-api-ref';
 
 // ==============================================
 // 1. Basic API Usage
@@ -33,11 +33,19 @@ export const BasicWeatherComponent = () => {
 // 2. API Usage with Error Handling
 // ==============================================
 
+import {
+  describeApiError,
+  postApiError,
+  NotFoundError,
+  UnauthorizedError,
+} from './api-errors';
+
 export const WeatherWithErrorHandling = () => {
   const weatherApi = useApi(weatherApiRef);
   const errorApi = useApi(errorApiRef);
 
   const [weather, setWeather] = React.useState(null);
+  const [error, setError] = React.useState<Error | null>(null);
   const [loading, setLoading] = React.useState(true);
 
   React.useEffect(() => {
@@ -50,10 +58,15 @@ export const WeatherWithErrorHandling = () => {
           setLoading(false);
         }
       })
-      .catch(error => {
+      .catch(err => {
         if (mounted) {
-          errorApi.post(error);  // Send to error handler
+          setError(err);
           setLoading(false);
+
+          // A missing location is expected; everything else is reported
+          if (!(err instanceof NotFoundError)) {
+            postApiError(errorApi, err);  // Send to error handler
+          }
         }
       });
 
@@ -63,6 +76,10 @@ export const WeatherWithErrorHandling = () => {
   }, [weatherApi, errorApi]);
 
   if (loading) return <div>Loading...</div>;
+  if (error instanceof UnauthorizedError) {
+    return <div>{describeApiError(error)} <a href="/">Sign in</a></div>;
+  }
+  if (error) return <div>{describeApiError(error)}</div>;
   if (!weather) return <div>Failed to load weather</div>;
 
   return <div>Temperature: {weather.temperature}°F</div>;
@@ -110,6 +127,11 @@ export const UserDashboard = () => {
 // 4. Optional API Usage
 // ==============================================
 
+/**
+ * For UI interactions only. Tracking of API calls belongs at registration,
+ * see createInstrumentedApi() in api-instrumentation.tsx.
+ */
+
 export const OptionalAnalyticsComponent = () => {
   // Use useApiOptional for APIs that might not be registered
   const analyticsApi = useApiOptional(analyticsApiRef);
@@ -134,74 +156,64 @@ export const OptionalAnalyticsComponent = () => {
 };
 
 // ==============================================
-// 5. Custom Hook for API
+// 5. Query and Mutation Hooks
 // ==============================================
 
 /**
- * Create reusable hooks for common API patterns.
+ * useApiQuery and useApiMutation (see api-query.ts) replace hand-rolled
+ * loading/error state, refresh timers and `mounted` flags.
  */
 
-interface UseWeatherOptions {
-  location: string;
-  refreshInterval?: number;
-}
-
-export function useWeather({ location, refreshInterval }: UseWeatherOptions) {
-  const weatherApi = useApi(weatherApiRef);
-  const errorApi = useApi(errorApiRef);
-
-  const [weather, setWeather] = React.useState(null);
-  const [loading, setLoading] = React.useState(true);
-  const [error, setError] = React.useState(null);
-
-  const fetchWeather = React.useCallback(async () => {
-    try {
-      setLoading(true);
-      const data = await weatherApi.getCurrentWeather(location);
-      setWeather(data);
-      setError(null);
-    } catch (err) {
-      setError(err);
-      errorApi.post(err);
-    } finally {
-      setLoading(false);
-    }
-  }, [weatherApi, errorApi, location]);
+import { useApiMutation, useApiQuery } from './api-query';
 
-  // Initial fetch
-  React.useEffect(() => {
-    fetchWeather();
-  }, [fetchWeather]);
-
-  // Auto-refresh
-  React.useEffect(() => {
-    if (!refreshInterval) return;
-
-    const interval = setInterval(fetchWeather, refreshInterval);
-    return () => clearInterval(interval);
-  }, [fetchWeather, refreshInterval]);
-
-  return { weather, loading, error, refetch: fetchWeather };
-}
-
-// Usage:
 export const WeatherWithHook = () => {
-  const { weather, loading, error, refetch } = useWeather({
-    location: 'San Francisco',
-    refreshInterval: 60000, // Refresh every minute
-  });
+  const { data: weather, loading, error, fetching, refetch } = useApiQuery(
+    weatherApiRef,
+    'getCurrentWeather',
+    ['San Francisco'],
+    { refetchIntervalMs: 60000 }, // Refresh every minute while visible
+  );
 
   if (loading) return <div>Loading...</div>;
-  if (error) return <div>Error: {error.message}</div>;
+  if (!weather) return <div>{error ? describeApiError(error) : 'No data'}</div>;
 
   return (
     <div>
       <p>Temperature: {weather.temperature}°F</p>
-      <button onClick={refetch}>Refresh</button>
+      {error && <p>Showing old data: {describeApiError(error)}</p>}
+      <button onClick={refetch} disabled={fetching}>Refresh</button>
     </div>
   );
 };
 
+export const UnreadNotificationList = () => {
+  const errorApi = useApi(errorApiRef);
+  const { data } = useApiQuery(notificationApiV2Ref, 'getNotifications', [
+    { unreadOnly: true, limit: 5 },
+  ]);
+  // Refetches every notificationApi query afterwards, so this list and
+  // any unread counts on the page update together
+  const markAsRead = useApiMutation(notificationApiV2Ref, 'markAsRead');
+
+  return (
+    <ul>
+      {data?.items.map(notification => (
+        <li key={notification.id}>
+          {notification.message}{' '}
+          <button
+            disabled={markAsRead.pending}
+            onClick={() =>
+              markAsRead.mutate(notification.id).catch(e => postApiError(errorApi, e))
+            }
+          >
+            Mark as read
+          </button>
+        </li>
+      ))}
+    </ul>
+  );
+};
+
 // ==============================================
 // 6. Async API Initialization
 // ==============================================
@@ -215,7 +227,7 @@ import { databaseApiRef } from './creating-api-ref';
 export const DatabaseComponent = () => {
   const databaseApi = useApi(databaseApiRef);
   const [initialized, setInitialized] = React.useState(false);
-  const [data, setData] = React.useState([]);
+  const [data, setData] = React.useState<Array<{ id: string; title: string }>>([]);
 
   React.useEffect(() => {
     let mounted = true;
@@ -227,7 +239,9 @@ export const DatabaseComponent = () => {
 
       if (mounted) {
         setInitialized(true);
-        const results = await databaseApi.query('SELECT * FROM items');
+        const results = await databaseApi.query<{ id: string; title: string }>(
+          'SELECT id, title FROM drafts ORDER BY updated_at DESC',
+        );
         setData(results);
       }
     }
@@ -244,7 +258,7 @@ export const DatabaseComponent = () => {
   return (
     <ul>
       {data.map(item => (
-        <li key={item.id}>{item.name}</li>
+        <li key={item.id}>{item.title}</li>
       ))}
     </ul>
   );
@@ -256,39 +270,133 @@ export const DatabaseComponent = () => {
 
 /**
  * For APIs that provide real-time updates via Observables.
+ *
+ * The Observable only delivers changes; the history itself is paged from
+ * the backend, so nothing is lost on reload.
  */
 
-import { notificationApiRef } from './creating-api-ref';
+import {
+  Notification,
+  NotificationSummary,
+  NotificationType,
+} from './creating-api-ref';
+
+const NOTIFICATION_TYPES: NotificationType[] = ['info', 'warning', 'error', 'success'];
 
 export const NotificationCenter = () => {
-  const notificationApi = useApi(notificationApiRef);
-  const [notifications, setNotifications] = React.useState([]);
+  const notificationApi = useApi(notificationApiV2Ref);
+  const errorApi = useApi(errorApiRef);
+  const [notifications, setNotifications] = React.useState<Notification[]>([]);
+  const [nextCursor, setNextCursor] = React.useState<string | undefined>();
+  const [summary, setSummary] = React.useState<NotificationSummary>();
+  const [typeFilter, setTypeFilter] = React.useState<NotificationType>();
+  const [unreadOnly, setUnreadOnly] = React.useState(false);
+
+  // The history lives in the backend; this loads one page of it
+  const loadPage = React.useCallback(
+    async (cursor?: string) => {
+      try {
+        const page = await notificationApi.getNotifications({
+          cursor,
+          limit: 20,
+          type: typeFilter ? [typeFilter] : undefined,
+          unreadOnly,
+        });
+        setNotifications(prev => (cursor ? [...prev, ...page.items] : page.items));
+        setNextCursor(page.nextCursor);
+      } catch (error) {
+        postApiError(errorApi, error);
+      }
+    },
+    [notificationApi, errorApi, typeFilter, unreadOnly],
+  );
+
+  const refresh = React.useCallback(() => {
+    loadPage();
+    notificationApi.getSummary().then(setSummary, () => {});
+  }, [notificationApi, loadPage]);
+
+  React.useEffect(() => {
+    refresh();
+  }, [refresh]);
 
   React.useEffect(() => {
-    // Subscribe to notification stream
+    // Subscribe to changes, including those made on other devices
     const subscription = notificationApi.notifications$().subscribe({
-      next: notification => {
-        setNotifications(prev => [notification, ...prev].slice(0, 10));
+      next: event => {
+        switch (event.type) {
+          case 'created':
+            // Refetch so the new item respects the filters and group counts
+            refresh();
+            break;
+          case 'read':
+            setNotifications(prev =>
+              prev.map(n => (event.ids.includes(n.id) ? { ...n, read: true } : n)),
+            );
+            notificationApi.getSummary().then(setSummary, () => {});
+            break;
+          case 'cleared':
+          case 'resync':
+            refresh();
+            break;
+          default:
+        }
       },
       error: err => console.error('Notification error:', err),
     });
 
     // Cleanup subscription
     return () => subscription.unsubscribe();
-  }, [notificationApi]);
+  }, [notificationApi, refresh]);
+
+  const handleMarkAsRead = async (id: string) => {
+    try {
+      await notificationApi.markAsRead(id);
+    } catch (error) {
+      postApiError(errorApi, error);
+    }
+  };
 
-  const handleMarkAsRead = (id: string) => {
-    notificationApi.markAsRead(id);
+  const handleClearAll = async () => {
+    try {
+      await notificationApi.clearAll();
+    } catch (error) {
+      postApiError(errorApi, error);
+    }
   };
 
   return (
     <div>
-      <h3>Notifications</h3>
+      <h3>Notifications ({summary?.unread ?? 0} unread)</h3>
+      <div>
+        <button onClick={() => setTypeFilter(undefined)} disabled={!typeFilter}>
+          All
+        </button>
+        {NOTIFICATION_TYPES.map(type => (
+          <button
+            key={type}
+            onClick={() => setTypeFilter(type)}
+            disabled={typeFilter === type}
+          >
+            {type} ({summary?.byType[type].unread ?? 0}/{summary?.byType[type].total ?? 0})
+          </button>
+        ))}
+        <label>
+          <input
+            type="checkbox"
+            checked={unreadOnly}
+            onChange={e => setUnreadOnly(e.target.checked)}
+          />
+          Unread only
+        </label>
+        <button onClick={handleClearAll}>Clear all</button>
+      </div>
       {notifications.length === 0 && <p>No notifications</p>}
       <ul>
         {notifications.map(notif => (
           <li key={notif.id} style={{ opacity: notif.read ? 0.5 : 1 }}>
-            <strong>{notif.type}:</strong> {notif.message}
+            <strong>{notif.type}:</strong> {notif.message}{' '}
+            <small>{notif.timestamp.toLocaleString()}</small>
             {!notif.read && (
               <button onClick={() => handleMarkAsRead(notif.id)}>
                 Mark as read
@@ -297,6 +405,7 @@ export const NotificationCenter = () => {
           </li>
         ))}
       </ul>
+      {nextCursor && <button onClick={() => loadPage(nextCursor)}>Load more</button>}
     </div>
   );
 };
@@ -385,7 +494,7 @@ export const WeatherClassComponent = withApis({
  * 2. Always handle errors
  * 3. Clean up effects (return cleanup function)
  * 4. Use useCallback for functions passed to effects
- * 5. Create custom hooks for reusable patterns
+ * 5. Use useApiQuery / useApiMutation instead of hand-rolled effects
  * 6. Use optional APIs when appropriate
  * 7. Mock APIs in tests
  * 8. Avoid calling APIs on every render
@@ -12,8 +12,16 @@ import { createApiRef } from '@backstage/core-plugin-api';
 // ==============================================
 
 export interface WeatherApi {
-  getCurrentWeather(location: string): Promise<WeatherData>;
-  getForecast(location: string, days: number): Promise<ForecastData>;
+  getCurrentWeather(location: string, options?: CallOptions): Promise<WeatherData>;
+  getForecast(location: string, days: number, options?: CallOptions): Promise<ForecastData>;
+}
+
+/**
+ * Last parameter of methods that can be cancelled. `useApiQuery` (see
+ * api-query.ts) passes its signal here.
+ */
+export interface CallOptions {
+  signal?: AbortSignal;
 }
 
 export interface WeatherData {
@@ -48,11 +56,22 @@ export const weatherApiRef = createApiRef<WeatherApi>({
 import {
   OAuthApi,
   OpenIdConnectApi,
+  ProfileInfo,
   ProfileInfoApi,
   BackstageIdentityApi,
+  BackstageUserIdentity,
   SessionApi,
 } from '@backstage/core-plugin-api';
 
+export interface AuthSessionInfo {
+  providerId: string;
+  profile: ProfileInfo;
+  identity: BackstageUserIdentity;
+  scopes: string[];
+  /** When the IdP access token expires */
+  expiresAt?: Date;
+}
+
 export interface CustomAuthApi
   extends OAuthApi,
           OpenIdConnectApi,
@@ -60,8 +79,12 @@ export interface CustomAuthApi
           BackstageIdentityApi,
           SessionApi {
   // Add custom methods
+  /** Gets new tokens from the IdP now, even if the current ones are valid */
   refreshToken(): Promise<void>;
+  /** Revokes the tokens at the IdP and ends this provider's session */
   revokeToken(): Promise<void>;
+  /** Undefined when not signed in with this provider */
+  getSessionInfo(): Promise<AuthSessionInfo | undefined>;
 }
 
 export const customAuthApiRef = createApiRef<CustomAuthApi>({
@@ -100,8 +123,12 @@ export const cacheApiRef = createApiRef<CacheApi>({
  */
 
 export interface MetricsApi {
+  /** Latest value of every metric matching the filters */
   readonly getMetrics: (filters?: MetricFilters) => Promise<Metric[]>;
   readonly getMetric: (id: string) => Promise<Metric>;
+  /** Downsampled time series for one metric */
+  readonly getSeries: (query: MetricSeriesQuery) => Promise<MetricSeries>;
+  /** Live points as they are recorded */
   readonly subscribeToMetrics: (callback: (metrics: Metric[]) => void) => () => void;
 }
 
@@ -110,6 +137,7 @@ export interface Metric {
   name: string;
   value: number;
   unit: string;
+  tags: string[];
   timestamp: Date;
 }
 
@@ -119,6 +147,26 @@ export interface MetricFilters {
   endDate?: Date;
 }
 
+export type MetricAggregation = 'avg' | 'max' | 'p95';
+
+export interface MetricSeriesQuery {
+  id: string;
+  startDate: Date;
+  endDate?: Date;
+  aggregation?: MetricAggregation;
+  /** Upper bound on returned points; the backend picks the bucket size */
+  maxPoints?: number;
+}
+
+export interface MetricSeries {
+  id: string;
+  name: string;
+  unit: string;
+  aggregation: MetricAggregation;
+  stepMs: number;
+  points: Array<{ timestamp: Date; value: number }>;
+}
+
 export const metricsApiRef = createApiRef<MetricsApi>({
   id: 'plugin.metrics.api',
 });
@@ -133,6 +181,10 @@ export const metricsApiRef = createApiRef<MetricsApi>({
 
 import { Observable } from '@backstage/types';
 
+/**
+ * The original in-memory contract. Still served, as a facade over v2 (see
+ * notification-api-client.tsx), until its consumers have moved.
+ */
 export interface NotificationApi {
   notify(message: Notification): void;
   notifications$(): Observable<Notification>;
@@ -140,16 +192,79 @@ export interface NotificationApi {
   clearAll(): Promise<void>;
 }
 
+export const notificationApiRef = createApiRef<NotificationApi>({
+  id: 'plugin.notification.api',
+});
+
+/**
+ * The backend-backed contract. What changed from v1:
+ * - `notify()` returns a promise of the stored notification and rejects
+ *   when the backend does
+ * - `notifications$()` emits `NotificationEvent`, with the new
+ *   notification on `created` events
+ * - History, counts and unread badges
+ */
+export interface NotificationApiV2 {
+  /** Send a notification to the signed-in user */
+  notify(message: NewNotification): Promise<Notification>;
+
+  /** Stored history, newest first */
+  getNotifications(query?: NotificationQuery, options?: CallOptions): Promise<NotificationPage>;
+
+  /** Total and unread counts, grouped by type */
+  getSummary(): Promise<NotificationSummary>;
+
+  /** Live changes, including read state changed on other devices */
+  notifications$(): Observable<NotificationEvent>;
+
+  /** Current unread count, for badges */
+  unreadCount$(): Observable<number>;
+
+  markAsRead(id: string): Promise<void>;
+  clearAll(): Promise<void>;
+}
+
+export type NotificationType = 'info' | 'warning' | 'error' | 'success';
+
 export interface Notification {
   id: string;
-  type: 'info' | 'warning' | 'error' | 'success';
+  type: NotificationType;
   message: string;
   timestamp: Date;
   read: boolean;
 }
 
-export const notificationApiRef = createApiRef<NotificationApi>({
-  id: 'plugin.notification.api',
+export type NewNotification = Pick<Notification, 'type' | 'message'>;
+
+export interface NotificationQuery {
+  cursor?: string;
+  limit?: number;
+  type?: NotificationType[];
+  unreadOnly?: boolean;
+}
+
+export interface NotificationPage {
+  items: Notification[];
+  nextCursor?: string;
+}
+
+export interface NotificationSummary {
+  unread: number;
+  byType: Record<NotificationType, { total: number; unread: number }>;
+}
+
+/**
+ * `unreadCount` is the user's unread count after the change, so badges
+ * never have to count themselves. `resync` follows a reconnect.
+ */
+export type NotificationEvent =
+  | { type: 'created'; notification: Notification; unreadCount: number }
+  | { type: 'read'; ids: string[]; unreadCount: number }
+  | { type: 'cleared'; unreadCount: number }
+  | { type: 'resync' };
+
+export const notificationApiV2Ref = createApiRef<NotificationApiV2>({
+  id: 'plugin.notification.api.v2',
 });
 
 // ==============================================
@@ -166,6 +281,8 @@ export interface DatabaseApi {
   query<T>(sql: string, params?: any[]): Promise<T[]>;
   execute(sql: string, params?: any[]): Promise<number>;
   transaction<T>(callback: (tx: Transaction) => Promise<T>): Promise<T>;
+  exportDatabase(): Promise<Uint8Array>;
+  importDatabase(data: Uint8Array): Promise<void>;
 }
 
 export interface Transaction {
@@ -185,6 +302,13 @@ export const databaseApiRef = createApiRef<DatabaseApi>({
  * APIs specific to a plugin's domain.
  */
 
+import { Entity } from '@backstage/catalog-model';
+
+/**
+ * The original contract, with plain numbers. Still served, as a facade over
+ * v2 (see catalog-enhancement-api-client.tsx), until its consumers have
+ * moved.
+ */
 export interface CatalogEnhancementApi {
   enrichEntity(entity: Entity): Promise<EnrichedEntity>;
   getRelatedEntities(entityRef: string): Promise<Entity[]>;
@@ -209,6 +333,121 @@ export const catalogEnhancementApiRef = createApiRef<CatalogEnhancementApi>({
   id: 'plugin.catalog-enhancement.api',
 });
 
+/**
+ * DORA metrics from the backend and relation traversal. What changed from
+ * v1:
+ * - Metrics and the health score are null when there is no data, instead
+ *   of a number
+ * - Metrics windows, performance levels and relation graphs
+ */
+export interface CatalogEnhancementApiV2 {
+  enrichEntity(entity: Entity): Promise<EnrichedEntityV2>;
+
+  /** Entities reachable from `entityRef`, nearest first, without the root */
+  getRelatedEntities(
+    entityRef: string,
+    options?: RelationTraversalOptions,
+  ): Promise<Entity[]>;
+
+  /** The same traversal, with edges and how each entity was reached */
+  getRelationGraph(
+    entityRef: string,
+    options?: RelationTraversalOptions,
+  ): Promise<RelationGraph>;
+
+  calculateMetrics(entity: Entity, options?: MetricsWindowOptions): Promise<EntityMetricsV2>;
+}
+
+/**
+ * Catalog relation types the traversal follows. `scaffoldedFrom` is not a
+ * catalog relation; it is derived from the `backstage.io/source-template`
+ * annotation that the scaffolder sets on everything it creates.
+ */
+export type TraversableRelation =
+  | 'ownedBy'
+  | 'dependsOn'
+  | 'partOf'
+  | 'providesApi'
+  | 'scaffoldedFrom';
+
+export interface RelationTraversalOptions {
+  /** Hops from the root; default 1, at most 4 */
+  maxDepth?: number;
+  /** Relation types to follow; default ownedBy, dependsOn, partOf, providesApi */
+  relations?: TraversableRelation[];
+  /** Stop after this many entities; default 100 */
+  maxEntities?: number;
+}
+
+export interface RelationEdge {
+  /** Entity refs, e.g. `component:default/payments-db` */
+  from: string;
+  to: string;
+  type: TraversableRelation;
+}
+
+export interface RelatedEntity {
+  entity: Entity;
+  depth: number;
+  /** Edges from the root to this entity along a shortest path */
+  path: RelationEdge[];
+  /** The path in words, e.g. "payments-db is part of payments, which is owned by platform" */
+  explanation: string;
+}
+
+export interface RelationGraph {
+  root: Entity;
+  /** Reached entities, without the root */
+  nodes: RelatedEntity[];
+  /** Every followed edge, including those that close a cycle */
+  edges: RelationEdge[];
+  /** True when `maxEntities` cut the traversal short */
+  truncated: boolean;
+  /** Relations that could not be followed, e.g. a malformed annotation */
+  skipped: string[];
+}
+
+export interface EnrichedEntityV2 {
+  entity: Entity;
+  relatedCount: number;
+  lastUpdated: Date;
+  /** 0-100 from the DORA performance levels; null without any events */
+  healthScore: number | null;
+}
+
+export interface MetricsWindowOptions {
+  /** Rolling window ending now; default 30 */
+  windowDays?: 7 | 30 | 90;
+}
+
+export type DoraLevel = 'elite' | 'high' | 'medium' | 'low';
+
+/**
+ * DORA metrics over a rolling window. Each metric is null when the window
+ * has no events to compute it from.
+ */
+export interface EntityMetricsV2 {
+  windowDays: number;
+  /** Successful deployments per day */
+  deploymentFrequency: number | null;
+  /** Share of deployments that failed or caused an incident, 0-1 */
+  changeFailureRate: number | null;
+  /** Mean hours from incident opened to resolved */
+  meanTimeToRestore: number | null;
+  /** Median hours from first commit to successful deployment */
+  leadTime: number | null;
+  levels: Record<
+    'deploymentFrequency' | 'changeFailureRate' | 'meanTimeToRestore' | 'leadTime',
+    DoraLevel | null
+  >;
+  /** When events were last ingested */
+  updatedAt: Date;
+}
+
+export const catalogEnhancementApiV2Ref = createApiRef<CatalogEnhancementApiV2>({
+  id: 'plugin.catalog-enhancement.api.v2',
+});
+
 // ==============================================
 // Best Practices for API Refs
 // ==============================================
@@ -226,6 +465,8 @@ export const catalogEnhancementApiRef = createApiRef<CatalogEnhancementApi>({
  * 3. Consider versioning for breaking changes:
  *    - 'plugin.weather.api.v1'
  *    - 'plugin.weather.api.v2'
+ *    - Serve the old ref from the new implementation with a facade
+ *      (see api-versioning.ts)
  *
  * 4. Group related types:
  *    - Keep API ref and related types together
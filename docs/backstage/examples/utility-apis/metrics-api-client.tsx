@@ -0,0 +1,400 @@
+/**
+ * MetricsApi Implementation Example
+ *
+ * This example implements the read-only `MetricsApi` contract from
+ * creating-api-ref.ts against the metrics backend
+ * (plugins/metrics-backend-plugin.ts), and adds a chart widget that can be
+ * placed on any dashboard page that accepts widgets.
+ *
+ * Features:
+ * - Latest values filtered by tags and date range
+ * - Downsampled time series with avg / max / p95 aggregation
+ * - Live points via `subscribeToMetrics()`
+ * - `MetricChartWidgetBlueprint` for provisioning and platform KPI charts
+ */
+
+import { DiscoveryApi, FetchApi } from '@backstage/core-plugin-api';
+import { BaseApiClient } from './base-api-client';
+import { EventStream } from './event-stream';
+import {
+  MetricsApi,
+  Metric,
+  MetricFilters,
+  MetricSeries,
+  MetricSeriesQuery,
+} from './creating-api-ref';
+
+// ==============================================
+// 1. Wire Format
+// ==============================================
+
+/** Timestamps arrive as ISO strings */
+type MetricJson = Omit<Metric, 'timestamp'> & { timestamp: string };
+
+type MetricSeriesJson = Omit<MetricSeries, 'points'> & {
+  points: Array<{ timestamp: string; value: number }>;
+};
+
+type MetricEventJson = { type: 'points'; metrics: MetricJson[] };
+
+function toMetric(json: MetricJson): Metric {
+  return { ...json, timestamp: new Date(json.timestamp) };
+}
+
+// ==============================================
+// 2. API Client
+// ==============================================
+
+export class MetricsApiClient extends BaseApiClient implements MetricsApi {
+  private readonly eventStream: EventStream<MetricEventJson>;
+
+  constructor(options: { discoveryApi: DiscoveryApi; fetchApi: FetchApi }) {
+    super({ ...options, pluginId: 'metrics' });
+    this.eventStream = new EventStream<MetricEventJson>({
+      getUrl: async () => `${await this.getBaseUrl()}/metrics/stream`,
+      fetch: (input, init) => options.fetchApi.fetch(input, init),
+    });
+  }
+
+  // Arrow functions: MetricsApi declares its members as readonly properties
+
+  readonly getMetrics = async (filters: MetricFilters = {}): Promise<Metric[]> => {
+    const metrics = await this.get<MetricJson[]>('/metrics', {
+      query: {
+        tags: filters.tags?.length ? filters.tags.join(',') : undefined,
+        start: filters.startDate?.toISOString(),
+        end: filters.endDate?.toISOString(),
+      },
+    });
+    return metrics.map(toMetric);
+  };
+
+  readonly getMetric = async (id: string): Promise<Metric> => {
+    return toMetric(await this.get<MetricJson>(`/metrics/${encodeURIComponent(id)}`));
+  };
+
+  readonly getSeries = async (query: MetricSeriesQuery): Promise<MetricSeries> => {
+    const series = await this.get<MetricSeriesJson>(
+      `/metrics/${encodeURIComponent(query.id)}/series`,
+      {
+        query: {
+          start: query.startDate.toISOString(),
+          end: query.endDate?.toISOString(),
+          aggregation: query.aggregation,
+          maxPoints: query.maxPoints,
+        },
+      },
+    );
+    return {
+      ...series,
+      points: series.points.map(point => ({
+        timestamp: new Date(point.timestamp),
+        value: point.value,
+      })),
+    };
+  };
+
+  readonly subscribeToMetrics = (callback: (metrics: Metric[]) => void) => {
+    const subscription = this.eventStream
+      .events$()
+      .subscribe(event => callback(event.metrics.map(toMetric)));
+    return () => subscription.unsubscribe();
+  };
+}
+
+// ==============================================
+// 3. Registering the API
+// ==============================================
+
+import { ApiBlueprint } from '@backstage/frontend-plugin-api';
+import { discoveryApiRef, fetchApiRef } from '@backstage/core-plugin-api';
+import { metricsApiRef } from './creating-api-ref';
+
+export const metricsApi = ApiBlueprint.make({
+  name: 'metrics',
+  params: {
+    api: metricsApiRef,
+    deps: {
+      discoveryApi: discoveryApiRef,
+      fetchApi: fetchApiRef,
+    },
+    factory: ({ discoveryApi, fetchApi }) =>
+      new MetricsApiClient({ discoveryApi, fetchApi }),
+  },
+});
+
+// ==============================================
+// 4. Chart Component
+// ==============================================
+
+import React from 'react';
+import { useApi } from '@backstage/core-plugin-api';
+import { InfoCard, Progress, ResponseErrorPanel } from '@backstage/core-components';
+import {
+  CartesianGrid,
+  Line,
+  LineChart,
+  ResponsiveContainer,
+  Tooltip,
+  XAxis,
+  YAxis,
+} from 'recharts';
+import { MetricAggregation } from './creating-api-ref';
+
+const RANGES_MS = {
+  '1h': 60 * 60_000,
+  '24h': 24 * 60 * 60_000,
+  '7d': 7 * 24 * 60 * 60_000,
+  '30d': 30 * 24 * 60 * 60_000,
+};
+
+export type MetricRange = keyof typeof RANGES_MS;
+
+/** One point per this many pixels of chart width */
+const PX_PER_POINT = 4;
+const MIN_POINTS = 20;
+const MAX_POINTS = 500;
+
+/**
+ * Number of points worth fetching for the element's width. Rounded to
+ * tens so resizing by a few pixels does not reload the series.
+ */
+function useMaxPoints(ref: React.RefObject<HTMLElement>): number | undefined {
+  const [maxPoints, setMaxPoints] = React.useState<number>();
+
+  React.useEffect(() => {
+    const element = ref.current;
+    if (!element) {
+      return undefined;
+    }
+    const observer = new ResizeObserver(([entry]) => {
+      const points = Math.round(entry.contentRect.width / PX_PER_POINT / 10) * 10;
+      setMaxPoints(Math.min(MAX_POINTS, Math.max(MIN_POINTS, points)));
+    });
+    observer.observe(element);
+    return () => observer.disconnect();
+  }, [ref]);
+
+  return maxPoints;
+}
+
+export interface MetricChartProps {
+  metricId: string;
+  title?: string;
+  range?: MetricRange;
+  aggregation?: MetricAggregation;
+  /** Append live points as they are recorded */
+  live?: boolean;
+}
+
+/**
+ * Line chart of one metric.
+ *
+ * The backend downsamples the series to about one point per four pixels
+ * of chart width, so wide dashboards get finer buckets. Live points
+ * are appended as they arrive and are not aggregated; the next range
+ * change reloads the aggregated series.
+ */
+export const MetricChart = ({
+  metricId,
+  title,
+  range = '24h',
+  aggregation = 'avg',
+  live = false,
+}: MetricChartProps) => {
+  const metricsApi = useApi(metricsApiRef);
+  const [series, setSeries] = React.useState<MetricSeries>();
+  const [error, setError] = React.useState<Error>();
+  const containerRef = React.useRef<HTMLDivElement>(null);
+  const maxPoints = useMaxPoints(containerRef);
+
+  React.useEffect(() => {
+    if (maxPoints === undefined) {
+      return undefined;
+    }
+    let cancelled = false;
+    setSeries(undefined);
+    setError(undefined);
+
+    metricsApi
+      .getSeries({
+        id: metricId,
+        startDate: new Date(Date.now() - RANGES_MS[range]),
+        aggregation,
+        maxPoints,
+      })
+      .then(
+        result => !cancelled && setSeries(result),
+        err => !cancelled && setError(err),
+      );
+
+    return () => {
+      cancelled = true;
+    };
+  }, [metricsApi, metricId, range, aggregation, maxPoints]);
+
+  React.useEffect(() => {
+    if (!live) {
+      return undefined;
+    }
+    return metricsApi.subscribeToMetrics(metrics => {
+      const point = metrics.find(m => m.id === metricId);
+      if (!point) {
+        return;
+      }
+      const cutoff = Date.now() - RANGES_MS[range];
+      setSeries(prev =>
+        prev && {
+          ...prev,
+          points: [
+            ...prev.points.filter(p => p.timestamp.getTime() >= cutoff),
+            { timestamp: point.timestamp, value: point.value },
+          ],
+        },
+      );
+    });
+  }, [metricsApi, metricId, range, live]);
+
+  const data = series?.points.map(point => ({
+    time: point.timestamp.getTime(),
+    value: point.value,
+  }));
+
+  return (
+    <InfoCard
+      title={title ?? series?.name ?? metricId}
+      subheader={series && `${aggregation} per ${series.stepMs / 60_000} min, ${series.unit}`}
+    >
+      <div ref={containerRef}>
+        {error && <ResponseErrorPanel error={error} />}
+        {!error && !series && <Progress />}
+        {data && (
+          <ResponsiveContainer width="100%" height={240}>
+            <LineChart data={data}>
+              <CartesianGrid strokeDasharray="3 3" />
+              <XAxis
+                dataKey="time"
+                type="number"
+                scale="time"
+                domain={['dataMin', 'dataMax']}
+                tickFormatter={time =>
+                  range === '1h' || range === '24h'
+                    ? new Date(time).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })
+                    : new Date(time).toLocaleDateString()
+                }
+              />
+              <YAxis unit={series?.unit} />
+              <Tooltip labelFormatter={time => new Date(time).toLocaleString()} />
+              <Line type="monotone" dataKey="value" dot={false} isAnimationActive={false} />
+            </LineChart>
+          </ResponsiveContainer>
+        )}
+      </div>
+    </InfoCard>
+  );
+};
+
+// ==============================================
+// 5. Dashboard Widget Blueprint
+// ==============================================
+
+import {
+  coreExtensionData,
+  createExtensionBlueprint,
+  createSchemaFromZod,
+} from '@backstage/frontend-plugin-api';
+
+/**
+ * Chart widget for dashboard pages with a `widgets` input, such as
+ * `page:example/dashboard` from extensions/extension-with-inputs.tsx.
+ *
+ * Params set the defaults in code; app-config can override them per
+ * widget without a code change.
+ */
+export const MetricChartWidgetBlueprint = createExtensionBlueprint({
+  kind: 'widget',
+  attachTo: { id: 'page:example/dashboard', input: 'widgets' },
+  configSchema: createSchemaFromZod(z =>
+    z.object({
+      title: z.string().optional(),
+      range: z.enum(['1h', '24h', '7d', '30d']).optional(),
+      aggregation: z.enum(['avg', 'max', 'p95']).optional(),
+      live: z.boolean().optional(),
+    }),
+  ),
+  output: {
+    element: coreExtensionData.reactElement,
+  },
+  factory: (params: MetricChartProps, { config }) => ({
+    element: (
+      <MetricChart
+        metricId={params.metricId}
+        title={config.title ?? params.title}
+        range={config.range ?? params.range}
+        aggregation={config.aggregation ?? params.aggregation}
+        live={config.live ?? params.live}
+      />
+    ),
+  }),
+});
+
+// ==============================================
+// 6. Platform KPI Widgets
+// ==============================================
+
+import { createFrontendModule } from '@backstage/frontend-plugin-api';
+
+export const platformKpiModule = createFrontendModule({
+  pluginId: 'example',
+  extensions: [
+    metricsApi,
+    MetricChartWidgetBlueprint.make({
+      name: 'provisioning-duration',
+      params: {
+        metricId: 'provisioning.duration',
+        title: 'Provisioning time (p95)',
+        range: '7d',
+        aggregation: 'p95',
+      },
+    }),
+    MetricChartWidgetBlueprint.make({
+      name: 'cluster-cpu',
+      params: {
+        metricId: 'cluster.cpu.utilization',
+        title: 'Cluster CPU (max)',
+        range: '24h',
+        aggregation: 'max',
+        live: true,
+      },
+    }),
+  ],
+});
+
+/**
+ * // app-config.yaml - tweak a widget without a code change
+ * app:
+ *   extensions:
+ *     - widget:example/provisioning-duration:
+ *         config:
+ *           range: 30d
+ *     - widget:example/cluster-cpu:
+ *         disabled: true
+ */
+
+// ==============================================
+// Key Points
+// ==============================================
+
+/**
+ * 1. Ask for points, not a bucket size
+ *    - `maxPoints` follows the chart width; the backend picks the step
+ *
+ * 2. Choose the aggregation for the question
+ *    - avg for trends, max for capacity, p95 for latency-style KPIs
+ *
+ * 3. Live data is optional
+ *    - `subscribeToMetrics()` returns an unsubscribe function for useEffect
+ *
+ * 4. Widgets are extensions
+ *    - Added, removed and reconfigured from app-config like any extension
+ */
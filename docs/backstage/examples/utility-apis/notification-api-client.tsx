@@ -0,0 +1,302 @@
+/**
+ * NotificationApi Implementation Example
+ *
+ * This example implements the `NotificationApiV2` contract from
+ * creating-api-ref.ts against the notification backend
+ * (plugins/notification-backend-plugin.ts), keeps serving the v1
+ * `NotificationApi` through a facade (see api-versioning.ts), and adds an
+ * unread badge to the sidebar.
+ *
+ * Features:
+ * - Notification history stored by the backend, not in component state
+ * - Read state synced per user across tabs and devices
+ * - Pagination with type and unread filters
+ * - Counts grouped by type
+ * - Live unread count for badges
+ * - v1 consumers keep working and warn once per method
+ */
+
+import ObservableImpl from 'zen-observable';
+import type { Observable } from '@backstage/types';
+import { DiscoveryApi, FetchApi } from '@backstage/core-plugin-api';
+import { BaseApiClient } from './base-api-client';
+import { EventStream } from './event-stream';
+import {
+  CallOptions,
+  NotificationApi,
+  NotificationApiV2,
+  Notification,
+  NewNotification,
+  NotificationEvent,
+  NotificationPage,
+  NotificationQuery,
+  NotificationSummary,
+} from './creating-api-ref';
+
+// ==============================================
+// 1. Wire Format
+// ==============================================
+
+/** Timestamps arrive as ISO strings */
+type NotificationJson = Omit<Notification, 'timestamp'> & { timestamp: string };
+
+type NotificationEventJson =
+  | Exclude<NotificationEvent, { type: 'created' }>
+  | { type: 'created'; notification: NotificationJson; unreadCount: number };
+
+function toNotification(json: NotificationJson): Notification {
+  return { ...json, timestamp: new Date(json.timestamp) };
+}
+
+// ==============================================
+// 2. API Client
+// ==============================================
+
+export class NotificationApiClient extends BaseApiClient implements NotificationApiV2 {
+  private readonly eventStream: EventStream<NotificationEventJson>;
+
+  constructor(options: { discoveryApi: DiscoveryApi; fetchApi: FetchApi }) {
+    super({ ...options, pluginId: 'notification' });
+    this.eventStream = new EventStream<NotificationEventJson>({
+      getUrl: async () => `${await this.getBaseUrl()}/notifications/events`,
+      fetch: (input, init) => options.fetchApi.fetch(input, init),
+      resyncEvent: { type: 'resync' },
+    });
+  }
+
+  async notify(message: NewNotification): Promise<Notification> {
+    return toNotification(
+      await this.post<NotificationJson>('/notifications', { body: message }),
+    );
+  }
+
+  async getNotifications(
+    query: NotificationQuery = {},
+    options: CallOptions = {},
+  ): Promise<NotificationPage> {
+    const page = await this.get<{ items: NotificationJson[]; nextCursor?: string }>(
+      '/notifications',
+      {
+        query: {
+          cursor: query.cursor,
+          limit: query.limit,
+          type: query.type?.length ? query.type.join(',') : undefined,
+          unread: query.unreadOnly ? 'true' : undefined,
+        },
+        signal: options.signal,
+      },
+    );
+    return { items: page.items.map(toNotification), nextCursor: page.nextCursor };
+  }
+
+  async getSummary(): Promise<NotificationSummary> {
+    return this.get<NotificationSummary>('/notifications/summary');
+  }
+
+  notifications$(): Observable<NotificationEvent> {
+    return this.eventStream
+      .events$()
+      .map(event =>
+        event.type === 'created'
+          ? { ...event, notification: toNotification(event.notification) }
+          : event,
+      );
+  }
+
+  /**
+   * Starts from the summary, then follows the `unreadCount` carried by
+   * every change event. Refetches the summary after a reconnect.
+   */
+  unreadCount$(): Observable<number> {
+    return new ObservableImpl<number>(subscriber => {
+      const refresh = () =>
+        this.getSummary().then(
+          summary => subscriber.next(summary.unread),
+          () => {
+            // Keep showing the last known count
+          },
+        );
+
+      refresh();
+      const subscription = this.notifications$().subscribe(event => {
+        if (event.type === 'resync') {
+          refresh();
+        } else {
+          subscriber.next(event.unreadCount);
+        }
+      });
+
+      return () => subscription.unsubscribe();
+    });
+  }
+
+  async markAsRead(id: string): Promise<void> {
+    await this.post('/notifications/read', { body: { ids: [id] } });
+  }
+
+  async clearAll(): Promise<void> {
+    await this.delete('/notifications');
+  }
+}
+
+// ==============================================
+// 3. The v1 Facade
+// ==============================================
+
+/**
+ * v1 `notify()` took a full notification and returned nothing, so its
+ * callers can't see a rejection; it surfaces as an unhandled error, which
+ * the app forwards to the ErrorApi. v1 `notifications$()` only ever saw
+ * new notifications.
+ */
+export function notificationV1FromV2(v2: NotificationApiV2): NotificationApi {
+  return {
+    notify(message) {
+      void v2.notify({ type: message.type, message: message.message });
+    },
+
+    notifications$() {
+      return new ObservableImpl<Notification>(subscriber => {
+        const subscription = v2.notifications$().subscribe({
+          next: event => {
+            if (event.type === 'created') {
+              subscriber.next(event.notification);
+            }
+          },
+          error: error => subscriber.error(error),
+          complete: () => subscriber.complete(),
+        });
+        return () => subscription.unsubscribe();
+      });
+    },
+
+    markAsRead: id => v2.markAsRead(id),
+    clearAll: () => v2.clearAll(),
+  };
+}
+
+// ==============================================
+// 4. Registering the API
+// ==============================================
+
+import { ApiBlueprint } from '@backstage/frontend-plugin-api';
+import { discoveryApiRef, fetchApiRef } from '@backstage/core-plugin-api';
+import { notificationApiRef, notificationApiV2Ref } from './creating-api-ref';
+import { createApiFacade } from './api-versioning';
+
+export const notificationApiV2 = ApiBlueprint.make({
+  name: 'notification-v2',
+  params: {
+    api: notificationApiV2Ref,
+    deps: {
+      discoveryApi: discoveryApiRef,
+      fetchApi: fetchApiRef,
+    },
+    factory: ({ discoveryApi, fetchApi }) =>
+      new NotificationApiClient({ discoveryApi, fetchApi }),
+  },
+});
+
+export const notificationApiV1Facade = createApiFacade({
+  name: 'notification', // Same name as the v1 registration
+  api: notificationApiRef,
+  implementation: notificationApiV2Ref,
+  adapt: notificationV1FromV2,
+  deprecation: {
+    message: 'notify() resolves to the stored notification; notifications$() emits NotificationEvent.',
+    removal: 'notification plugin 2.0',
+  },
+});
+
+// ==============================================
+// 5. Sidebar Unread Badge
+// ==============================================
+
+import React from 'react';
+import { useApi } from '@backstage/core-plugin-api';
+import {
+  createFrontendModule,
+  createRouteRef,
+  NavItemBlueprint,
+  PageBlueprint,
+} from '@backstage/frontend-plugin-api';
+import { Badge } from '@material-ui/core';
+import NotificationsIcon from '@material-ui/icons/Notifications';
+
+export function useUnreadCount(): number {
+  const notificationApi = useApi(notificationApiV2Ref);
+  const [count, setCount] = React.useState(0);
+
+  React.useEffect(() => {
+    const subscription = notificationApi.unreadCount$().subscribe(setCount);
+    return () => subscription.unsubscribe();
+  }, [notificationApi]);
+
+  return count;
+}
+
+/**
+ * Nav item icons are rendered inside the app, so they can use APIs.
+ */
+const NotificationsNavIcon = () => {
+  const count = useUnreadCount();
+  return (
+    <Badge badgeContent={count} color="secondary" max={99} invisible={count === 0}>
+      <NotificationsIcon />
+    </Badge>
+  );
+};
+
+const notificationsRouteRef = createRouteRef();
+
+export const notificationModule = createFrontendModule({
+  pluginId: 'app',
+  extensions: [
+    notificationApiV2,
+    notificationApiV1Facade,
+    PageBlueprint.make({
+      name: 'notifications',
+      params: {
+        defaultPath: '/notifications',
+        routeRef: notificationsRouteRef,
+        loader: async () => {
+          const { NotificationCenter } = await import('./consuming-api');
+          return <NotificationCenter />;
+        },
+      },
+    }),
+    NavItemBlueprint.make({
+      name: 'notifications',
+      params: {
+        title: 'Notifications',
+        icon: NotificationsNavIcon,
+        routeRef: notificationsRouteRef,
+      },
+    }),
+  ],
+});
+
+// ==============================================
+// Key Points
+// ==============================================
+
+/**
+ * 1. The backend owns the history
+ *    - Reloads and other devices see the same notifications
+ *    - `NotificationCenter` pages through `getNotifications()` instead of
+ *      keeping the last few items in state
+ *
+ * 2. Read state is per user, not per tab
+ *    - `markAsRead()` on one device arrives as a `read` event on the others
+ *
+ * 3. Badges follow `unreadCount$()`
+ *    - Seeded from `getSummary()`, updated from change events
+ *    - Refetched after a dropped connection (`resync`)
+ *
+ * 4. Grouped by type
+ *    - `getSummary().byType` drives the type filter counts
+ *
+ * 5. A new contract gets a new ref
+ *    - `plugin.notification.api.v2`; the v1 ref is a facade over it
+ *    - Remove the facade once analytics shows no more v1 calls
+ */
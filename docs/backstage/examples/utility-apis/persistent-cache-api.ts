@@ -0,0 +1,589 @@
+/**
+ * Persistent Cache API Example
+ *
+ * This example implements the `CacheApi` contract from creating-api-ref.ts
+ * and registers it behind `cacheApiRef`, so plugins can share cached
+ * catalog and cluster data across page reloads and browser tabs.
+ *
+ * Features:
+ * - IndexedDB storage with a localStorage fallback
+ * - TTL expiry via the `ttlSeconds` argument of `set()`
+ * - Size quota with least-recently-used eviction
+ * - Cross-tab invalidation through BroadcastChannel
+ *
+ * File structure:
+ * plugins/cache/src/
+ * ├── storage/
+ * │   ├── types.ts                 (Step 1)
+ * │   ├── IndexedDbStorage.ts      (Step 2)
+ * │   └── LocalStorageStorage.ts   (Step 3)
+ * ├── PersistentCacheApi.ts        (Step 4)
+ * └── alpha.ts                     (Step 5)
+ */
+
+// ============================================================================
+// Step 1: Storage Backend Contract
+// File: plugins/cache/src/storage/types.ts
+// ============================================================================
+
+/**
+ * A stored cache entry. `expiresAt` is undefined for entries without a TTL.
+ */
+export interface StoredEntry<T = unknown> {
+  key: string;
+  value: T;
+  size: number;
+  expiresAt?: number;
+  lastAccessedAt: number;
+}
+
+/**
+ * The minimal key/value contract the cache needs from a storage backend.
+ */
+export interface CacheStorage {
+  get(key: string): Promise<StoredEntry | undefined>;
+  put(entry: StoredEntry): Promise<void>;
+
+  /**
+   * Updates `lastAccessedAt` only if the entry still exists, and returns the
+   * updated entry. Never recreates an entry that was deleted meanwhile.
+   */
+  touch(key: string, lastAccessedAt: number): Promise<StoredEntry | undefined>;
+  delete(keys: string[]): Promise<void>;
+  clear(): Promise<void>;
+  entries(): Promise<StoredEntry[]>;
+}
+
+// ============================================================================
+// Step 2: IndexedDB Backend
+// File: plugins/cache/src/storage/IndexedDbStorage.ts
+// ============================================================================
+
+const STORE_NAME = 'entries';
+
+function promisify<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+export class IndexedDbStorage implements CacheStorage {
+  private readonly db: Promise<IDBDatabase>;
+
+  /**
+   * Opens (or creates) the database. Rejects if IndexedDB is unavailable,
+   * e.g. in some private browsing modes.
+   */
+  static async open(databaseName: string): Promise<IndexedDbStorage> {
+    const storage = new IndexedDbStorage(databaseName);
+    await storage.db;
+    return storage;
+  }
+
+  private constructor(databaseName: string) {
+    this.db = new Promise((resolve, reject) => {
+      if (typeof indexedDB === 'undefined') {
+        reject(new Error('IndexedDB is not available'));
+        return;
+      }
+
+      const request = indexedDB.open(databaseName, 1);
+      request.onupgradeneeded = () => {
+        request.result.createObjectStore(STORE_NAME, { keyPath: 'key' });
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+  }
+
+  private async store(mode: IDBTransactionMode): Promise<IDBObjectStore> {
+    const db = await this.db;
+    return db.transaction(STORE_NAME, mode).objectStore(STORE_NAME);
+  }
+
+  async get(key: string): Promise<StoredEntry | undefined> {
+    const store = await this.store('readonly');
+    return await promisify<StoredEntry | undefined>(store.get(key));
+  }
+
+  async put(entry: StoredEntry): Promise<void> {
+    const store = await this.store('readwrite');
+    await promisify(store.put(entry));
+  }
+
+  async touch(key: string, lastAccessedAt: number): Promise<StoredEntry | undefined> {
+    const store = await this.store('readwrite');
+
+    // Read and write in one transaction, so a delete from another tab is
+    // either fully before (nothing to touch) or fully after the touch
+    return new Promise((resolve, reject) => {
+      const request = store.get(key);
+      request.onerror = () => reject(request.error);
+      request.onsuccess = () => {
+        const entry = request.result as StoredEntry | undefined;
+        if (!entry) {
+          resolve(undefined);
+          return;
+        }
+
+        const touched = { ...entry, lastAccessedAt };
+        const put = store.put(touched);
+        put.onsuccess = () => resolve(touched);
+        put.onerror = () => reject(put.error);
+      };
+    });
+  }
+
+  async delete(keys: string[]): Promise<void> {
+    const store = await this.store('readwrite');
+    await Promise.all(keys.map(key => promisify(store.delete(key))));
+  }
+
+  async clear(): Promise<void> {
+    const store = await this.store('readwrite');
+    await promisify(store.clear());
+  }
+
+  async entries(): Promise<StoredEntry[]> {
+    const store = await this.store('readonly');
+    return await promisify<StoredEntry[]>(store.getAll());
+  }
+}
+
+// ============================================================================
+// Step 3: localStorage Fallback
+// File: plugins/cache/src/storage/LocalStorageStorage.ts
+// ============================================================================
+
+function isQuotaExceeded(error: unknown): boolean {
+  return (
+    error instanceof DOMException &&
+    (error.name === 'QuotaExceededError' ||
+      error.name === 'NS_ERROR_DOM_QUOTA_REACHED')
+  );
+}
+
+/**
+ * Fallback for browsers without IndexedDB. Each entry is stored as JSON
+ * under a namespaced key so `clear()` never touches other apps' data.
+ *
+ * localStorage has a small per-origin quota (often 5 MB) shared with the
+ * rest of the app. When a write hits it, the least recently used cache
+ * entries are evicted until the write fits.
+ */
+export class LocalStorageStorage implements CacheStorage {
+  constructor(private readonly namespace: string) {}
+
+  private storageKey(key: string): string {
+    return `${this.namespace}:${key}`;
+  }
+
+  private ownKeys(): string[] {
+    const prefix = `${this.namespace}:`;
+    const keys: string[] = [];
+    for (let i = 0; i < localStorage.length; i++) {
+      const key = localStorage.key(i);
+      if (key?.startsWith(prefix)) {
+        keys.push(key);
+      }
+    }
+    return keys;
+  }
+
+  async get(key: string): Promise<StoredEntry | undefined> {
+    const raw = localStorage.getItem(this.storageKey(key));
+    return raw ? JSON.parse(raw) : undefined;
+  }
+
+  async put(entry: StoredEntry): Promise<void> {
+    const serialized = JSON.stringify(entry);
+    const evictable = (await this.entries())
+      .filter(e => e.key !== entry.key)
+      .sort((a, b) => a.lastAccessedAt - b.lastAccessedAt);
+
+    for (;;) {
+      try {
+        localStorage.setItem(this.storageKey(entry.key), serialized);
+        return;
+      } catch (error) {
+        const oldest = evictable.shift();
+        if (!isQuotaExceeded(error) || !oldest) {
+          throw error;
+        }
+        localStorage.removeItem(this.storageKey(oldest.key));
+      }
+    }
+  }
+
+  async touch(key: string, lastAccessedAt: number): Promise<StoredEntry | undefined> {
+    const entry = await this.get(key);
+    if (!entry) {
+      return undefined;
+    }
+
+    const touched = { ...entry, lastAccessedAt };
+    try {
+      localStorage.setItem(this.storageKey(key), JSON.stringify(touched));
+    } catch (error) {
+      // The serialized size is unchanged, so this only fails when another
+      // tab filled the quota meanwhile; skipping the LRU update is harmless
+      if (!isQuotaExceeded(error)) {
+        throw error;
+      }
+    }
+    return touched;
+  }
+
+  async delete(keys: string[]): Promise<void> {
+    keys.forEach(key => localStorage.removeItem(this.storageKey(key)));
+  }
+
+  async clear(): Promise<void> {
+    this.ownKeys().forEach(key => localStorage.removeItem(key));
+  }
+
+  async entries(): Promise<StoredEntry[]> {
+    return this.ownKeys()
+      .map(key => localStorage.getItem(key))
+      .filter((raw): raw is string => raw !== null)
+      .map(raw => JSON.parse(raw));
+  }
+}
+
+// ============================================================================
+// Step 4: CacheApi Implementation
+// File: plugins/cache/src/PersistentCacheApi.ts
+// ============================================================================
+
+import type { CacheApi } from './creating-api-ref';
+
+/**
+ * Messages exchanged between tabs over BroadcastChannel.
+ */
+type InvalidationMessage =
+  | { type: 'delete'; keys: string[] }
+  | { type: 'clear' };
+
+export interface PersistentCacheApiOptions {
+  /** Namespace for the database, localStorage keys and BroadcastChannel */
+  namespace?: string;
+
+  /** Maximum total size of all entries, in bytes */
+  quotaBytes?: number;
+
+  /** TTL used when `set()` is called without `ttlSeconds` */
+  defaultTtlSeconds?: number;
+}
+
+const DEFAULT_NAMESPACE = 'backstage-cache';
+const DEFAULT_QUOTA_BYTES = 5 * 1024 * 1024;
+
+/**
+ * Rough size of a value once serialized. JavaScript strings are UTF-16,
+ * so each character takes two bytes.
+ */
+function estimateSize(value: unknown): number {
+  return JSON.stringify(value ?? null).length * 2;
+}
+
+/**
+ * Persistent, cross-tab implementation of CacheApi.
+ *
+ * Reads go through an in-memory layer in front of the persistent storage.
+ * Writes and deletes are broadcast to other tabs, which drop their
+ * in-memory copies and re-read from storage on next access.
+ *
+ * @public
+ */
+export class PersistentCacheApi<T = unknown> implements CacheApi<T> {
+  private readonly memory = new Map<string, StoredEntry<T>>();
+  private readonly channel?: BroadcastChannel;
+  private readonly quotaBytes: number;
+  private readonly defaultTtlSeconds?: number;
+
+  /**
+   * Creates the cache on IndexedDB, falling back to localStorage when
+   * IndexedDB cannot be opened.
+   */
+  static async create<T = unknown>(
+    options: PersistentCacheApiOptions = {},
+  ): Promise<PersistentCacheApi<T>> {
+    const namespace = options.namespace ?? DEFAULT_NAMESPACE;
+
+    let storage: CacheStorage;
+    try {
+      storage = await IndexedDbStorage.open(namespace);
+    } catch {
+      storage = new LocalStorageStorage(namespace);
+    }
+
+    return new PersistentCacheApi<T>(storage, options);
+  }
+
+  constructor(
+    private readonly storage: CacheStorage,
+    options: PersistentCacheApiOptions = {},
+  ) {
+    this.quotaBytes = options.quotaBytes ?? DEFAULT_QUOTA_BYTES;
+    this.defaultTtlSeconds = options.defaultTtlSeconds;
+
+    if (typeof BroadcastChannel !== 'undefined') {
+      this.channel = new BroadcastChannel(options.namespace ?? DEFAULT_NAMESPACE);
+      this.channel.onmessage = (event: MessageEvent<InvalidationMessage>) => {
+        this.handleInvalidation(event.data);
+      };
+    }
+  }
+
+  async get(key: string): Promise<T | undefined> {
+    const entry = this.memory.get(key) ?? (await this.storage.get(key));
+    if (!entry) {
+      return undefined;
+    }
+
+    if (entry.expiresAt !== undefined && entry.expiresAt <= Date.now()) {
+      await this.delete(key);
+      return undefined;
+    }
+
+    // Touch only if the entry still exists in storage: a plain put would
+    // resurrect an entry deleted by this tab or by another tab meanwhile
+    const touched = (await this.storage.touch(key, Date.now())) as
+      | StoredEntry<T>
+      | undefined;
+    if (!touched) {
+      this.memory.delete(key);
+      return undefined;
+    }
+
+    this.memory.set(key, touched);
+    return touched.value;
+  }
+
+  async set(key: string, value: T, ttlSeconds?: number): Promise<void> {
+    const ttl = ttlSeconds ?? this.defaultTtlSeconds;
+    const entry: StoredEntry<T> = {
+      key,
+      value,
+      size: estimateSize(value),
+      expiresAt: ttl !== undefined ? Date.now() + ttl * 1000 : undefined,
+      lastAccessedAt: Date.now(),
+    };
+
+    if (entry.size > this.quotaBytes) {
+      throw new Error(
+        `Cache entry "${key}" is ${entry.size} bytes, which exceeds the quota of ${this.quotaBytes} bytes`,
+      );
+    }
+
+    await this.enforceQuota(entry);
+    await this.storage.put(entry);
+    this.memory.set(key, entry);
+    this.broadcast({ type: 'delete', keys: [key] });
+  }
+
+  async delete(key: string): Promise<void> {
+    await this.storage.delete([key]);
+    this.memory.delete(key);
+    this.broadcast({ type: 'delete', keys: [key] });
+  }
+
+  async clear(): Promise<void> {
+    await this.storage.clear();
+    this.memory.clear();
+    this.broadcast({ type: 'clear' });
+  }
+
+  async keys(): Promise<string[]> {
+    const now = Date.now();
+    const entries = await this.storage.entries();
+    const expired = entries.filter(e => e.expiresAt !== undefined && e.expiresAt <= now);
+
+    if (expired.length > 0) {
+      await this.removeEntries(expired.map(e => e.key));
+    }
+
+    return entries
+      .filter(e => e.expiresAt === undefined || e.expiresAt > now)
+      .map(e => e.key);
+  }
+
+  /** Closes the BroadcastChannel. Call when the app is torn down. */
+  dispose(): void {
+    this.channel?.close();
+  }
+
+  /**
+   * Makes room for a new entry: expired entries go first, then the least
+   * recently used ones until the new entry fits into the quota.
+   */
+  private async enforceQuota(incoming: StoredEntry<T>): Promise<void> {
+    const now = Date.now();
+    const entries = (await this.storage.entries()).filter(e => e.key !== incoming.key);
+
+    const evicted: string[] = [];
+    const live: StoredEntry[] = [];
+    for (const entry of entries) {
+      if (entry.expiresAt !== undefined && entry.expiresAt <= now) {
+        evicted.push(entry.key);
+      } else {
+        live.push(entry);
+      }
+    }
+
+    let total = live.reduce((sum, e) => sum + e.size, 0) + incoming.size;
+    live.sort((a, b) => a.lastAccessedAt - b.lastAccessedAt);
+    for (const entry of live) {
+      if (total <= this.quotaBytes) {
+        break;
+      }
+      evicted.push(entry.key);
+      total -= entry.size;
+    }
+
+    if (evicted.length > 0) {
+      await this.removeEntries(evicted);
+    }
+  }
+
+  private async removeEntries(keys: string[]): Promise<void> {
+    await this.storage.delete(keys);
+    keys.forEach(key => this.memory.delete(key));
+    this.broadcast({ type: 'delete', keys });
+  }
+
+  private broadcast(message: InvalidationMessage): void {
+    this.channel?.postMessage(message);
+  }
+
+  private handleInvalidation(message: InvalidationMessage): void {
+    if (message.type === 'clear') {
+      this.memory.clear();
+    } else {
+      message.keys.forEach(key => this.memory.delete(key));
+    }
+  }
+}
+
+// ============================================================================
+// Step 5: Register the API
+// File: plugins/cache/src/alpha.ts
+// ============================================================================
+
+import {
+  ApiBlueprint,
+  createFrontendModule,
+} from '@backstage/frontend-plugin-api';
+import { configApiRef } from '@backstage/core-plugin-api';
+import { cacheApiRef } from './creating-api-ref';
+
+/**
+ * `PersistentCacheApi.create()` is async, but API factories are sync.
+ * This thin wrapper defers every call until storage has been opened.
+ */
+class LazyCacheApi<T = unknown> implements CacheApi<T> {
+  constructor(private readonly cache: Promise<PersistentCacheApi<T>>) {}
+
+  async get(key: string) {
+    return (await this.cache).get(key);
+  }
+  async set(key: string, value: T, ttlSeconds?: number) {
+    return (await this.cache).set(key, value, ttlSeconds);
+  }
+  async delete(key: string) {
+    return (await this.cache).delete(key);
+  }
+  async clear() {
+    return (await this.cache).clear();
+  }
+  async keys() {
+    return (await this.cache).keys();
+  }
+}
+
+export const persistentCacheApi = ApiBlueprint.make({
+  name: 'cache',
+  params: {
+    api: cacheApiRef,
+    deps: {
+      configApi: configApiRef,
+    },
+    factory: ({ configApi }) => {
+      const config = configApi.getOptionalConfig('cache.persistent');
+
+      return new LazyCacheApi(
+        PersistentCacheApi.create({
+          namespace: config?.getOptionalString('namespace'),
+          quotaBytes: config?.getOptionalNumber('quotaBytes'),
+          defaultTtlSeconds: config?.getOptionalNumber('defaultTtlSeconds'),
+        }),
+      );
+    },
+  },
+});
+
+export const cacheApiModule = createFrontendModule({
+  pluginId: 'app',
+  extensions: [persistentCacheApi],
+});
+
+/**
+ * Configuration in app-config.yaml:
+ *
+ * cache:
+ *   persistent:
+ *     namespace: openportal-cache   # Optional, default: backstage-cache
+ *     quotaBytes: 10485760          # Optional, default: 5 MiB
+ *     defaultTtlSeconds: 600        # Optional, default: no expiry
+ */
+
+// ============================================================================
+// Usage
+// ============================================================================
+
+/**
+ * import { useApi } from '@backstage/core-plugin-api';
+ * import { cacheApiRef, CacheApi } from './creating-api-ref';
+ *
+ * export function useCachedClusters() {
+ *   const cache: CacheApi<ClusterInfo[]> = useApi(cacheApiRef);
+ *   const kubernetesApi = useApi(kubernetesApiRef);
+ *
+ *   return useAsync(async () => {
+ *     const cached = await cache.get('clusters');
+ *     if (cached) return cached;
+ *
+ *     const clusters = await kubernetesApi.getClusters();
+ *     await cache.set('clusters', clusters, 300);  // 5 minutes
+ *     return clusters;
+ *   }, [cache, kubernetesApi]);
+ * }
+ */
+
+// ============================================================================
+// Key Points
+// ============================================================================
+
+/**
+ * 1. Storage selection
+ *    - IndexedDB is preferred: async, larger quota, structured clone
+ *    - localStorage is the fallback when IndexedDB cannot be opened
+ *
+ * 2. TTL
+ *    - `ttlSeconds` (or `defaultTtlSeconds`) sets `expiresAt`
+ *    - Expired entries are removed lazily on read, on `keys()` and on write
+ *
+ * 3. Quota
+ *    - Entry sizes are estimated from their JSON form
+ *    - On write, expired entries go first, then least recently used
+ *    - The localStorage fallback also evicts when the browser quota is hit
+ *
+ * 4. Cross-tab sync
+ *    - Storage is shared between tabs of the same origin
+ *    - BroadcastChannel tells other tabs to drop in-memory copies
+ *    - Reads touch an entry only if it still exists, so they never undo a delete
+ *
+ * 5. Don't cache secrets
+ *    - Entries survive reloads and are readable by any script on the origin
+ */
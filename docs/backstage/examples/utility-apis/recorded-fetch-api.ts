@@ -0,0 +1,542 @@
+/**
+ * Record-and-Replay FetchApi Example
+ *
+ * Hand-written mocks like `MockWeatherApiClient` (api-implementation.tsx)
+ * drift away from what the backend really returns. This test utility wraps
+ * `fetchApi` instead: run the tests once against a real backend to record
+ * every request/response pair into a fixture file, then replay the fixtures
+ * in every later run, with no backend and no network.
+ *
+ * Features:
+ * - Recording through any FetchApi, so auth headers are real
+ * - Redaction of tokens and secrets before anything is written to disk
+ * - Deterministic replay, including repeated identical requests
+ * - Strict mode that fails on requests that were never recorded
+ *
+ * Test-only code: keep it in a `testUtils` folder, never in the app bundle.
+ */
+
+import { FetchApi } from '@backstage/core-plugin-api';
+
+// ==============================================
+// 1. Fixture Format
+// ==============================================
+
+export interface RecordedRequest {
+  method: string;
+  /** Path and query without the origin, e.g. `/api/weather/current?location=Berlin` */
+  url: string;
+  body?: string;
+}
+
+export interface RecordedResponse {
+  status: number;
+  statusText: string;
+  headers: Record<string, string>;
+  body: string;
+}
+
+export interface RecordedExchange {
+  request: RecordedRequest;
+  response: RecordedResponse;
+}
+
+export interface FetchFixture {
+  version: 1;
+  recordedAt: string;
+  exchanges: RecordedExchange[];
+}
+
+/**
+ * Requests are matched on method, path, sorted query and body. The origin
+ * is ignored, so fixtures recorded against `http://localhost:7007` replay
+ * against the `http://example.com` base URL of `mockApis.discovery()`.
+ */
+function requestKey(request: RecordedRequest): string {
+  const url = new URL(request.url, 'http://fixture');
+  url.searchParams.sort();
+  return `${request.method} ${url.pathname}${url.search} ${request.body ?? ''}`;
+}
+
+async function describeRequest(request: Request): Promise<RecordedRequest> {
+  const url = new URL(request.url);
+  const body = request.body ? await request.clone().text() : undefined;
+  return {
+    method: request.method,
+    url: `${url.pathname}${url.search}`,
+    body: body && normalizeJson(body),
+  };
+}
+
+/** Stable formatting, so key order in request bodies doesn't break matching */
+function normalizeJson(text: string): string {
+  try {
+    return JSON.stringify(JSON.parse(text));
+  } catch {
+    return text;
+  }
+}
+
+// ==============================================
+// 2. Redaction
+// ==============================================
+
+export interface RedactionRules {
+  /** Request and response headers, case-insensitive */
+  headers?: string[];
+  /** Query parameters, case-sensitive */
+  queryParams?: string[];
+  /** JSON object keys, at any depth of request and response bodies */
+  jsonFields?: string[];
+  /** Replaced wherever they occur in bodies and URLs */
+  patterns?: RegExp[];
+}
+
+export const REDACTED = '[REDACTED]';
+
+export const defaultRedactionRules: Required<RedactionRules> = {
+  headers: ['authorization', 'cookie', 'set-cookie', 'x-api-key'],
+  queryParams: ['apiKey', 'api_key', 'token', 'access_token'],
+  jsonFields: ['token', 'accessToken', 'refreshToken', 'idToken', 'password', 'secret'],
+  // JWTs, e.g. Backstage tokens echoed back in a response body
+  patterns: [/eyJ[\w-]+\.[\w-]+\.[\w-]+/g],
+};
+
+/** Adds to the defaults rather than replacing them */
+export function mergeRedactionRules(rules: RedactionRules = {}): Required<RedactionRules> {
+  return {
+    headers: [...defaultRedactionRules.headers, ...(rules.headers ?? [])],
+    queryParams: [...defaultRedactionRules.queryParams, ...(rules.queryParams ?? [])],
+    jsonFields: [...defaultRedactionRules.jsonFields, ...(rules.jsonFields ?? [])],
+    patterns: [...defaultRedactionRules.patterns, ...(rules.patterns ?? [])],
+  };
+}
+
+function redactText(text: string, rules: Required<RedactionRules>): string {
+  return rules.patterns.reduce((result, pattern) => result.replace(pattern, REDACTED), text);
+}
+
+function redactBody(body: string, rules: Required<RedactionRules>): string {
+  let json: unknown;
+  try {
+    json = JSON.parse(body);
+  } catch {
+    return redactText(body, rules);
+  }
+
+  const fields = new Set(rules.jsonFields);
+  const walk = (value: unknown): unknown => {
+    if (Array.isArray(value)) {
+      return value.map(walk);
+    }
+    if (value && typeof value === 'object') {
+      return Object.fromEntries(
+        Object.entries(value).map(([key, child]) => [
+          key,
+          fields.has(key) ? REDACTED : walk(child),
+        ]),
+      );
+    }
+    return value;
+  };
+  return redactText(JSON.stringify(walk(json)), rules);
+}
+
+/**
+ * Applied when recording and again when replaying, so a redacted query
+ * parameter still matches its recording.
+ */
+export function redactRequest(
+  request: RecordedRequest,
+  rules: Required<RedactionRules>,
+): RecordedRequest {
+  const url = new URL(request.url, 'http://fixture');
+  for (const param of rules.queryParams) {
+    if (url.searchParams.has(param)) {
+      url.searchParams.set(param, REDACTED);
+    }
+  }
+  return {
+    method: request.method,
+    url: redactText(`${url.pathname}${url.search}`, rules),
+    body: request.body === undefined ? undefined : redactBody(request.body, rules),
+  };
+}
+
+function redactResponse(
+  response: RecordedResponse,
+  rules: Required<RedactionRules>,
+): RecordedResponse {
+  const sensitive = new Set(rules.headers.map(header => header.toLowerCase()));
+  return {
+    ...response,
+    headers: Object.fromEntries(
+      Object.entries(response.headers).map(([name, value]) => [
+        name,
+        sensitive.has(name.toLowerCase()) ? REDACTED : value,
+      ]),
+    ),
+    body: redactBody(response.body, rules),
+  };
+}
+
+// ==============================================
+// 3. Recording
+// ==============================================
+
+/**
+ * Passes every request through to `fetchApi` and keeps a redacted copy of
+ * the exchange. Event streams are passed through but not recorded; their
+ * body never ends.
+ */
+export class RecordingFetchApi implements FetchApi {
+  private readonly exchanges: RecordedExchange[] = [];
+  private readonly rules: Required<RedactionRules>;
+
+  constructor(
+    private readonly options: { fetchApi: FetchApi; redaction?: RedactionRules },
+  ) {
+    this.rules = mergeRedactionRules(options.redaction);
+  }
+
+  readonly fetch: typeof fetch = async (input, init) => {
+    const request = new Request(input, init);
+    const recordedRequest = await describeRequest(request);
+    const response = await this.options.fetchApi.fetch(request);
+
+    if (!response.headers.get('content-type')?.startsWith('text/event-stream')) {
+      this.exchanges.push({
+        request: redactRequest(recordedRequest, this.rules),
+        response: redactResponse(
+          {
+            status: response.status,
+            statusText: response.statusText,
+            headers: Object.fromEntries(response.headers.entries()),
+            body: await response.clone().text(),
+          },
+          this.rules,
+        ),
+      });
+    }
+    return response;
+  };
+
+  toFixture(): FetchFixture {
+    return {
+      version: 1,
+      recordedAt: new Date().toISOString(),
+      exchanges: this.exchanges,
+    };
+  }
+}
+
+// ==============================================
+// 4. Replaying
+// ==============================================
+
+export class UnrecordedRequestError extends Error {
+  constructor(readonly request: RecordedRequest, recorded: string[]) {
+    super(
+      [
+        `No recording for ${request.method} ${request.url}.`,
+        recorded.length
+          ? `Recorded requests:\n  ${recorded.join('\n  ')}`
+          : 'The fixture is empty.',
+        'Re-record the fixture with RECORD_FIXTURES=true.',
+      ].join('\n'),
+    );
+    this.name = 'UnrecordedRequestError';
+  }
+}
+
+export interface ReplayOptions {
+  /**
+   * Throw `UnrecordedRequestError` for requests missing from the fixture.
+   * When false, they get an empty 404 response. Default true.
+   */
+  strict?: boolean;
+  /** Must match the rules used for recording */
+  redaction?: RedactionRules;
+}
+
+/** `new Response()` throws for these statuses when given a body, even '' */
+const NULL_BODY_STATUSES = new Set([204, 205, 304]);
+
+/**
+ * Serves responses from a fixture.
+ *
+ * Identical requests are answered in recorded order, and the last
+ * recording repeats once they run out, so a poll that was recorded twice
+ * can be replayed any number of times.
+ */
+export class ReplayFetchApi implements FetchApi {
+  private readonly queues = new Map<string, RecordedResponse[]>();
+  private readonly used = new Set<RecordedResponse>();
+  private readonly unrecorded: RecordedRequest[] = [];
+  private readonly rules: Required<RedactionRules>;
+  private readonly strict: boolean;
+
+  constructor(private readonly fixture: FetchFixture, options: ReplayOptions = {}) {
+    this.rules = mergeRedactionRules(options.redaction);
+    this.strict = options.strict ?? true;
+
+    for (const { request, response } of fixture.exchanges) {
+      const key = requestKey(request);
+      this.queues.set(key, [...(this.queues.get(key) ?? []), response]);
+    }
+  }
+
+  readonly fetch: typeof fetch = async (input, init) => {
+    const request = new Request(input, init);
+    request.signal.throwIfAborted();
+
+    const recordedRequest = redactRequest(await describeRequest(request), this.rules);
+    const queue = this.queues.get(requestKey(recordedRequest));
+
+    if (!queue) {
+      this.unrecorded.push(recordedRequest);
+      if (this.strict) {
+        throw new UnrecordedRequestError(
+          recordedRequest,
+          this.fixture.exchanges.map(e => `${e.request.method} ${e.request.url}`),
+        );
+      }
+      return new Response(null, { status: 404, statusText: 'Not Recorded' });
+    }
+
+    const recorded = queue.length > 1 ? queue.shift()! : queue[0];
+    this.used.add(recorded);
+    const nullBody = request.method === 'HEAD' || NULL_BODY_STATUSES.has(recorded.status);
+    return new Response(nullBody ? null : recorded.body, {
+      status: recorded.status,
+      statusText: recorded.statusText,
+      headers: recorded.headers,
+    });
+  };
+
+  /**
+   * Fails the test if any request was unrecorded. Call it in `afterEach`:
+   * clients and hooks often catch fetch errors, so a throw from `fetch`
+   * alone can go unnoticed.
+   */
+  assertNoUnrecordedRequests(): void {
+    if (this.unrecorded.length > 0) {
+      throw new UnrecordedRequestError(
+        this.unrecorded[0],
+        this.fixture.exchanges.map(e => `${e.request.method} ${e.request.url}`),
+      );
+    }
+  }
+
+  /** Recordings never requested, e.g. after the client stopped calling them */
+  unusedExchanges(): RecordedExchange[] {
+    return this.fixture.exchanges.filter(e => !this.used.has(e.response));
+  }
+}
+
+// ==============================================
+// 5. Jest Helper
+// ==============================================
+
+import fs from 'fs';
+import path from 'path';
+import { mockApis } from '@backstage/test-utils';
+
+export interface FetchFixtureSetup {
+  /** Pass to API clients under test, or to `TestApiProvider` */
+  fetchApi: FetchApi;
+  /** The recording backend in record mode, `http://example.com` in replay */
+  discoveryApi: ReturnType<typeof mockApis.discovery>;
+  /** Call in `afterAll`: writes the fixture in record mode */
+  save(): Promise<void>;
+  /** Call in `afterEach`: fails on unrecorded requests in replay mode */
+  verify(): void;
+}
+
+/**
+ * Record with `RECORD_FIXTURES=true`, against `BACKSTAGE_BASE_URL`
+ * (default http://localhost:7007) using `BACKSTAGE_TOKEN`. Every other run
+ * replays the file at `fixturePath`.
+ */
+export function setupFetchFixture(
+  fixturePath: string,
+  options: ReplayOptions = {},
+): FetchFixtureSetup {
+  if (process.env.RECORD_FIXTURES === 'true') {
+    const token = process.env.BACKSTAGE_TOKEN;
+    const recorder = new RecordingFetchApi({
+      redaction: options.redaction,
+      fetchApi: {
+        fetch: (input, init) => {
+          const request = new Request(input, init);
+          if (token) {
+            request.headers.set('Authorization', `Bearer ${token}`);
+          }
+          return fetch(request);
+        },
+      },
+    });
+
+    return {
+      fetchApi: recorder,
+      discoveryApi: mockApis.discovery({
+        baseUrl: process.env.BACKSTAGE_BASE_URL ?? 'http://localhost:7007',
+      }),
+      async save() {
+        await fs.promises.mkdir(path.dirname(fixturePath), { recursive: true });
+        await fs.promises.writeFile(
+          fixturePath,
+          `${JSON.stringify(recorder.toFixture(), null, 2)}\n`,
+        );
+      },
+      verify() {},
+    };
+  }
+
+  if (!fs.existsSync(fixturePath)) {
+    throw new Error(
+      `Missing fixture ${fixturePath}; record it with RECORD_FIXTURES=true`,
+    );
+  }
+  const replay = new ReplayFetchApi(
+    JSON.parse(fs.readFileSync(fixturePath, 'utf8')),
+    options,
+  );
+
+  return {
+    fetchApi: replay,
+    discoveryApi: mockApis.discovery(),
+    async save() {},
+    verify: () => replay.assertNoUnrecordedRequests(),
+  };
+}
+
+// ==============================================
+// 6. Usage in Tests
+// ==============================================
+
+/**
+ * // src/api/WeatherApiClient.test.ts
+ *
+ * import { setupFetchFixture } from '../testUtils/recorded-fetch-api';
+ *
+ * describe('WeatherApiClient', () => {
+ *   const fixture = setupFetchFixture(`${__dirname}/__fixtures__/weather.json`, {
+ *     redaction: { jsonFields: ['stationId'] },
+ *   });
+ *   afterEach(() => fixture.verify());
+ *   afterAll(() => fixture.save());
+ *
+ *   const client = new WeatherApiClient({
+ *     discoveryApi: fixture.discoveryApi,
+ *     fetchApi: fixture.fetchApi,
+ *   });
+ *
+ *   it('returns the backend payload unchanged', async () => {
+ *     const weather = await client.getCurrentWeather('Berlin');
+ *     expect(weather).toMatchObject({
+ *       temperature: expect.any(Number),
+ *       conditions: expect.any(String),
+ *     });
+ *   });
+ *
+ *   it('maps a 404 to NotFoundError', async () => {
+ *     await expect(client.getCurrentWeather('Atlantis')).rejects.toBeInstanceOf(NotFoundError);
+ *   });
+ * });
+ */
+
+/**
+ * // src/testUtils/recorded-fetch-api.test.ts
+ *
+ * import { ReplayFetchApi } from './recorded-fetch-api';
+ *
+ * it('replays responses without a body', async () => {
+ *   const replay = new ReplayFetchApi({
+ *     version: 1,
+ *     recordedAt: '2025-10-28T09:12:44.101Z',
+ *     exchanges: [
+ *       {
+ *         request: { method: 'DELETE', url: '/api/task/tasks/1' },
+ *         response: { status: 204, statusText: 'No Content', headers: {}, body: '' },
+ *       },
+ *     ],
+ *   });
+ *
+ *   const response = await replay.fetch('http://localhost/api/task/tasks/1', {
+ *     method: 'DELETE',
+ *   });
+ *   expect(response.status).toBe(204);
+ *   expect(response.body).toBeNull();
+ * });
+ */
+
+/**
+ * // src/components/WeatherWithHook.test.tsx - the real client, replayed
+ *
+ * import { render, screen } from '@testing-library/react';
+ * import { TestApiProvider } from '@backstage/test-utils';
+ *
+ * const fixture = setupFetchFixture(`${__dirname}/__fixtures__/weather-widget.json`);
+ * afterEach(() => fixture.verify());
+ * afterAll(() => fixture.save());
+ *
+ * it('renders recorded weather', async () => {
+ *   render(
+ *     <TestApiProvider
+ *       apis={[
+ *         [weatherApiRef, new WeatherApiClient(fixture)],
+ *         [apiQueryClientApiRef, new ApiQueryClient()],
+ *       ]}
+ *     >
+ *       <WeatherWithHook />
+ *     </TestApiProvider>,
+ *   );
+ *
+ *   expect(await screen.findByText(/Temperature: \d+°F/)).toBeInTheDocument();
+ * });
+ */
+
+/**
+ * // __fixtures__/weather.json (recorded, committed, reviewed like code)
+ * {
+ *   "version": 1,
+ *   "recordedAt": "2025-10-28T09:12:44.101Z",
+ *   "exchanges": [
+ *     {
+ *       "request": { "method": "GET", "url": "/api/weather/current?location=Berlin" },
+ *       "response": {
+ *         "status": 200,
+ *         "statusText": "OK",
+ *         "headers": { "content-type": "application/json; charset=utf-8" },
+ *         "body": "{\"temperature\":54,\"conditions\":\"Overcast\",\"humidity\":81,\"windSpeed\":9}"
+ *       }
+ *     }
+ *   ]
+ * }
+ *
+ * // Recording
+ * RECORD_FIXTURES=true BACKSTAGE_TOKEN=$(...) yarn test WeatherApiClient
+ */
+
+// ==============================================
+// Key Points
+// ==============================================
+
+/**
+ * 1. Real payloads, no backend in CI
+ *    - Fixtures come from the backend, so schema drift shows up as a diff
+ *      when they are re-recorded
+ *
+ * 2. Nothing secret reaches disk
+ *    - Auth headers, token query parameters, token-like JSON fields and JWTs
+ *      are redacted by default; add rules per test
+ *
+ * 3. Strict by default
+ *    - A request without a recording fails the test, instead of silently
+ *      getting a default response
+ *
+ * 4. Works at the fetchApi seam
+ *    - The real client runs, with BaseApiClient retries and error mapping,
+ *      in unit tests and `TestApiProvider` component tests alike
+ */
@@ -0,0 +1,568 @@
+/**
+ * SQLite Database API Example
+ *
+ * This example implements the `DatabaseApi` contract from creating-api-ref.ts
+ * with SQLite compiled to WebAssembly, so plugins can keep local state such
+ * as drafts and preferences in the browser without a backend round trip.
+ *
+ * Features:
+ * - SQLite in the browser via @sqlite.org/sqlite-wasm
+ * - Durable: the database image is persisted to IndexedDB after each write
+ * - Versioned migrations tracked in `PRAGMA user_version`
+ * - Real transactions: BEGIN/COMMIT, ROLLBACK when the callback throws
+ * - Safe across tabs: every operation runs under a Web Lock
+ * - Export and import of the whole database file
+ *
+ * File structure:
+ * plugins/local-db/src/
+ * ├── Connection.ts          (Step 1)
+ * ├── migrations.ts          (Step 2)
+ * ├── ImageStore.ts          (Step 3)
+ * ├── SqliteDatabaseApi.ts   (Step 4)
+ * └── alpha.ts               (Step 5)
+ */
+
+import type { DatabaseApi, Transaction } from './creating-api-ref';
+
+// ============================================================================
+// Step 1: Connection
+// File: plugins/local-db/src/Connection.ts
+// ============================================================================
+
+import sqlite3InitModule, {
+  Database,
+  Sqlite3Static,
+} from '@sqlite.org/sqlite-wasm';
+
+let sqlite3: Promise<Sqlite3Static> | undefined;
+
+/** Loads the WASM module once per page */
+export function loadSqlite(): Promise<Sqlite3Static> {
+  sqlite3 ??= sqlite3InitModule();
+  return sqlite3;
+}
+
+const SQLITE_HEADER = 'SQLite format 3\u0000';
+
+/**
+ * A single in-memory SQLite database, optionally loaded from a file image.
+ *
+ * Not safe for concurrent use on its own; SqliteDatabaseApi serializes all
+ * access to it.
+ */
+export class Connection implements Transaction {
+  static open(sqlite: Sqlite3Static, image?: Uint8Array): Connection {
+    const db = new sqlite.oo1.DB(':memory:', 'c');
+
+    if (image) {
+      const header = new TextDecoder().decode(image.subarray(0, SQLITE_HEADER.length));
+      if (header !== SQLITE_HEADER) {
+        db.close();
+        throw new Error('Not an SQLite database file');
+      }
+      const pointer = sqlite.wasm.allocFromTypedArray(image);
+      db.checkRc(
+        sqlite.capi.sqlite3_deserialize(
+          db.pointer!,
+          'main',
+          pointer,
+          image.byteLength,
+          image.byteLength,
+          sqlite.capi.SQLITE_DESERIALIZE_FREEONCLOSE |
+            sqlite.capi.SQLITE_DESERIALIZE_RESIZEABLE,
+        ),
+      );
+    }
+
+    db.exec('PRAGMA foreign_keys = ON');
+    return new Connection(sqlite, db);
+  }
+
+  private constructor(
+    private readonly sqlite: Sqlite3Static,
+    private readonly db: Database,
+  ) {}
+
+  async query<T>(sql: string, params: any[] = []): Promise<T[]> {
+    return this.db.exec({
+      sql,
+      bind: params.length > 0 ? params : undefined,
+      rowMode: 'object',
+      returnValue: 'resultRows',
+    }) as T[];
+  }
+
+  async execute(sql: string, params: any[] = []): Promise<number> {
+    this.db.exec({ sql, bind: params.length > 0 ? params : undefined });
+    return this.db.changes();
+  }
+
+  /**
+   * Runs `callback` in a transaction. The transaction handle passed to the
+   * callback stops working once the transaction has finished, so it can't
+   * be used by mistake after COMMIT or ROLLBACK.
+   */
+  async inTransaction<T>(callback: (tx: Transaction) => Promise<T>): Promise<T> {
+    let open = true;
+    const guard = () => {
+      if (!open) {
+        throw new Error('Transaction has already finished');
+      }
+    };
+    const tx: Transaction = {
+      query: (sql, params) => (guard(), this.query(sql, params)),
+      execute: (sql, params) => (guard(), this.execute(sql, params)),
+    };
+
+    this.db.exec('BEGIN IMMEDIATE');
+    try {
+      const result = await callback(tx);
+      this.db.exec('COMMIT');
+      return result;
+    } catch (error) {
+      this.db.exec('ROLLBACK');
+      throw error;
+    } finally {
+      open = false;
+    }
+  }
+
+  /** Rows changed since the connection was opened */
+  totalChanges(): number {
+    return this.sqlite.capi.sqlite3_total_changes(this.db.pointer!);
+  }
+
+  exportImage(): Uint8Array {
+    return this.sqlite.capi.sqlite3_js_db_export(this.db);
+  }
+
+  close(): void {
+    this.db.close();
+  }
+}
+
+// ============================================================================
+// Step 2: Versioned Migrations
+// File: plugins/local-db/src/migrations.ts
+// ============================================================================
+
+/**
+ * One schema change. Versions start at 1 and increase by one; the version
+ * of the last applied migration is kept in `PRAGMA user_version`.
+ *
+ * Never edit a migration that has shipped: browsers that already applied
+ * it won't run it again. Add a new one instead.
+ */
+export interface Migration {
+  version: number;
+  description: string;
+  up: string | ((tx: Transaction) => Promise<void>);
+}
+
+export function validateMigrations(migrations: Migration[]): void {
+  migrations.forEach((migration, index) => {
+    if (migration.version !== index + 1) {
+      throw new Error(
+        `Migration "${migration.description}" has version ${migration.version}, expected ${index + 1}`,
+      );
+    }
+  });
+}
+
+/**
+ * Applies pending migrations, each in its own transaction, and returns how
+ * many were applied. A failing migration is rolled back and leaves the
+ * database at the previous version.
+ */
+export async function applyMigrations(
+  connection: Connection,
+  migrations: Migration[],
+): Promise<number> {
+  const [{ user_version: current }] = await connection.query<{ user_version: number }>(
+    'PRAGMA user_version',
+  );
+
+  if (current > migrations.length) {
+    throw new Error(
+      `Database is at schema version ${current}, but this app only knows ${migrations.length}. ` +
+        'It was probably written by a newer version of the app.',
+    );
+  }
+
+  const pending = migrations.slice(current);
+  for (const migration of pending) {
+    await connection.inTransaction(async tx => {
+      if (typeof migration.up === 'string') {
+        await tx.execute(migration.up);
+      } else {
+        await migration.up(tx);
+      }
+      // user_version lives in the file header and is part of the transaction
+      await tx.execute(`PRAGMA user_version = ${migration.version}`);
+    });
+  }
+  return pending.length;
+}
+
+// ============================================================================
+// Step 3: Persisting Images to IndexedDB
+// File: plugins/local-db/src/ImageStore.ts
+// ============================================================================
+
+const IDB_NAME = 'backstage-sqlite';
+const IDB_STORE = 'images';
+
+function promisify<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+/**
+ * Stores database images with a generation counter.
+ *
+ * The generation is kept under its own key, so a tab can check whether
+ * another tab has written since its last read without loading the image.
+ */
+export class ImageStore {
+  private db?: Promise<IDBDatabase>;
+
+  async generation(name: string): Promise<number> {
+    const store = (await this.open()).transaction(IDB_STORE).objectStore(IDB_STORE);
+    return (await promisify(store.get(`${name}:generation`))) ?? 0;
+  }
+
+  async load(name: string): Promise<{ generation: number; image?: Uint8Array }> {
+    const store = (await this.open()).transaction(IDB_STORE).objectStore(IDB_STORE);
+    const [generation, image] = await Promise.all([
+      promisify(store.get(`${name}:generation`)),
+      promisify(store.get(`${name}:image`)),
+    ]);
+    return { generation: generation ?? 0, image };
+  }
+
+  async save(name: string, generation: number, image: Uint8Array): Promise<void> {
+    const tx = (await this.open()).transaction(IDB_STORE, 'readwrite');
+    tx.objectStore(IDB_STORE).put(image, `${name}:image`);
+    tx.objectStore(IDB_STORE).put(generation, `${name}:generation`);
+    await new Promise<void>((resolve, reject) => {
+      tx.oncomplete = () => resolve();
+      tx.onerror = () => reject(tx.error);
+      tx.onabort = () => reject(tx.error);
+    });
+  }
+
+  private open(): Promise<IDBDatabase> {
+    this.db ??= new Promise((resolve, reject) => {
+      const request = indexedDB.open(IDB_NAME, 1);
+      request.onupgradeneeded = () => request.result.createObjectStore(IDB_STORE);
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+    return this.db;
+  }
+}
+
+// ============================================================================
+// Step 4: The DatabaseApi Implementation
+// File: plugins/local-db/src/SqliteDatabaseApi.ts
+// ============================================================================
+
+export interface SqliteDatabaseApiOptions {
+  /** Database name; also the IndexedDB key and Web Lock name */
+  name: string;
+  migrations: Migration[];
+}
+
+/**
+ * DatabaseApi backed by SQLite WASM.
+ *
+ * All operations, including whole transactions, run one at a time under a
+ * Web Lock shared by all tabs. Before each operation the tab reloads the
+ * image if another tab has written since, and after each write the new
+ * image is saved to IndexedDB.
+ *
+ * Inside a `transaction()` callback use the `tx` argument only. Calling
+ * the API itself from the callback waits for the transaction to finish,
+ * which never happens.
+ */
+export class SqliteDatabaseApi implements DatabaseApi {
+  private connection?: Connection;
+  private generation = 0;
+  private initializing?: Promise<void>;
+  private readonly lockName: string;
+
+  constructor(
+    private readonly options: SqliteDatabaseApiOptions,
+    private readonly images = new ImageStore(),
+  ) {
+    validateMigrations(options.migrations);
+    this.lockName = `sqlite:${options.name}`;
+  }
+
+  initialize(): Promise<void> {
+    this.initializing ??= this.open().catch(error => {
+      // Allow a later call to retry
+      this.initializing = undefined;
+      throw error;
+    });
+    return this.initializing;
+  }
+
+  isInitialized(): boolean {
+    return this.connection !== undefined;
+  }
+
+  query<T>(sql: string, params?: any[]): Promise<T[]> {
+    return this.run(connection => connection.query<T>(sql, params), false);
+  }
+
+  execute(sql: string, params?: any[]): Promise<number> {
+    return this.run(connection => connection.execute(sql, params), true);
+  }
+
+  transaction<T>(callback: (tx: Transaction) => Promise<T>): Promise<T> {
+    return this.run(connection => connection.inTransaction(callback), true);
+  }
+
+  /** The database as an SQLite file, e.g. for a download */
+  exportDatabase(): Promise<Uint8Array> {
+    return this.run(async connection => connection.exportImage(), false);
+  }
+
+  /**
+   * Replaces the database with an SQLite file, e.g. from an earlier export.
+   * The file is migrated to the current schema; files from a newer app
+   * version or that fail the integrity check are rejected and the current
+   * database is kept.
+   */
+  async importDatabase(data: Uint8Array): Promise<void> {
+    await this.initialize();
+    const sqlite = await loadSqlite();
+
+    await navigator.locks.request(this.lockName, async () => {
+      const imported = Connection.open(sqlite, data);
+      try {
+        const [{ integrity_check: integrity }] = await imported.query<{
+          integrity_check: string;
+        }>('PRAGMA integrity_check');
+        if (integrity !== 'ok') {
+          throw new Error(`Imported database is corrupt: ${integrity}`);
+        }
+        await applyMigrations(imported, this.options.migrations);
+      } catch (error) {
+        imported.close();
+        throw error;
+      }
+
+      this.connection?.close();
+      this.connection = imported;
+      await this.persist();
+    });
+  }
+
+  private async open(): Promise<void> {
+    const sqlite = await loadSqlite();
+
+    await navigator.locks.request(this.lockName, async () => {
+      const { generation, image } = await this.images.load(this.options.name);
+      const connection = Connection.open(sqlite, image);
+      let applied: number;
+      try {
+        applied = await applyMigrations(connection, this.options.migrations);
+      } catch (error) {
+        connection.close();
+        throw error;
+      }
+
+      this.connection = connection;
+      this.generation = generation;
+      if (applied > 0) {
+        await this.persist();
+      }
+    });
+  }
+
+  private async run<T>(
+    operation: (connection: Connection) => Promise<T>,
+    write: boolean,
+  ): Promise<T> {
+    await this.initialize();
+
+    return navigator.locks.request(this.lockName, async () => {
+      await this.reloadIfStale();
+
+      const connection = this.connection!;
+      const changesBefore = connection.totalChanges();
+      const result = await operation(connection);
+
+      // `query` can write too (INSERT ... RETURNING); `execute` may run DDL,
+      // which doesn't count as a change
+      if (write || connection.totalChanges() !== changesBefore) {
+        await this.persist();
+      }
+      return result;
+    });
+  }
+
+  /** Another tab wrote since our last read or write: load its image */
+  private async reloadIfStale(): Promise<void> {
+    if ((await this.images.generation(this.options.name)) === this.generation) {
+      return;
+    }
+    const sqlite = await loadSqlite();
+    const { generation, image } = await this.images.load(this.options.name);
+    this.connection?.close();
+    this.connection = Connection.open(sqlite, image);
+    this.generation = generation;
+  }
+
+  /**
+   * Saves the image under a generation above the stored one. Going by the
+   * stored generation, not ours, matters after an import without reload:
+   * another tab may have written since we last read.
+   */
+  private async persist(): Promise<void> {
+    const stored = await this.images.generation(this.options.name);
+    this.generation = Math.max(stored, this.generation) + 1;
+    await this.images.save(
+      this.options.name,
+      this.generation,
+      this.connection!.exportImage(),
+    );
+  }
+}
+
+// ============================================================================
+// Step 5: Register the API
+// File: plugins/local-db/src/alpha.ts
+// ============================================================================
+
+import {
+  ApiBlueprint,
+  createFrontendModule,
+} from '@backstage/frontend-plugin-api';
+import { databaseApiRef } from './creating-api-ref';
+
+/**
+ * Schema for browser-local plugin state. Append new migrations; never
+ * change the ones above.
+ */
+export const localStateMigrations: Migration[] = [
+  {
+    version: 1,
+    description: 'drafts and preferences',
+    up: `
+      CREATE TABLE drafts (
+        id TEXT PRIMARY KEY,
+        plugin_id TEXT NOT NULL,
+        title TEXT NOT NULL,
+        body TEXT NOT NULL,
+        updated_at TEXT NOT NULL
+      );
+      CREATE INDEX drafts_plugin_idx ON drafts (plugin_id, updated_at);
+
+      CREATE TABLE preferences (
+        plugin_id TEXT NOT NULL,
+        key TEXT NOT NULL,
+        value TEXT NOT NULL,
+        PRIMARY KEY (plugin_id, key)
+      );
+    `,
+  },
+  {
+    version: 2,
+    description: 'draft entity refs',
+    up: async tx => {
+      await tx.execute('ALTER TABLE drafts ADD COLUMN entity_ref TEXT');
+      await tx.execute('CREATE INDEX drafts_entity_idx ON drafts (entity_ref)');
+    },
+  },
+];
+
+export const sqliteDatabaseApi = ApiBlueprint.make({
+  name: 'database',
+  params: {
+    api: databaseApiRef,
+    deps: {},
+    // The WASM module and the stored image load on first use
+    factory: () =>
+      new SqliteDatabaseApi({
+        name: 'local-state',
+        migrations: localStateMigrations,
+      }),
+  },
+});
+
+export const databaseApiModule = createFrontendModule({
+  pluginId: 'app',
+  extensions: [sqliteDatabaseApi],
+});
+
+// ============================================================================
+// Usage
+// ============================================================================
+
+/**
+ * import { useApi } from '@backstage/core-plugin-api';
+ * import { databaseApiRef } from './creating-api-ref';
+ *
+ * // Move a draft to another entity atomically
+ * const databaseApi = useApi(databaseApiRef);
+ * await databaseApi.transaction(async tx => {
+ *   const [draft] = await tx.query<{ id: string }>(
+ *     'SELECT id FROM drafts WHERE id = ?',
+ *     [draftId],
+ *   );
+ *   if (!draft) {
+ *     throw new Error('Draft was deleted');  // → ROLLBACK
+ *   }
+ *   await tx.execute('UPDATE drafts SET entity_ref = ?, updated_at = ? WHERE id = ?', [
+ *     entityRef,
+ *     new Date().toISOString(),
+ *     draftId,
+ *   ]);
+ * });
+ *
+ * // Download a backup
+ * const data = await databaseApi.exportDatabase();
+ * const url = URL.createObjectURL(new Blob([data], { type: 'application/vnd.sqlite3' }));
+ *
+ * // Restore it, e.g. from an <input type="file">
+ * await databaseApi.importDatabase(new Uint8Array(await file.arrayBuffer()));
+ */
+
+/**
+ * The WASM file must be served next to the bundle. With webpack 5 this is
+ * automatic; with Vite exclude the package from dependency optimization:
+ *
+ * // vite.config.ts
+ * optimizeDeps: { exclude: ['@sqlite.org/sqlite-wasm'] }
+ */
+
+// ============================================================================
+// Key Points
+// ============================================================================
+
+/**
+ * 1. Lazy initialization
+ *    - The factory is sync; the WASM module and image load on first use
+ *    - `initialize()` is idempotent and retried after a failure
+ *
+ * 2. Durable writes
+ *    - The database runs in memory and is saved to IndexedDB after each write
+ *    - Fine for drafts and preferences (kilobytes to a few megabytes)
+ *
+ * 3. Real transactions
+ *    - BEGIN IMMEDIATE / COMMIT, ROLLBACK when the callback throws
+ *    - Nothing is saved for a rolled-back transaction
+ *
+ * 4. Migrations
+ *    - Sequential versions in `PRAGMA user_version`, one transaction each
+ *    - Newer-than-known databases are refused instead of misread
+ *
+ * 5. Multiple tabs
+ *    - A Web Lock serializes operations across tabs
+ *    - A generation counter tells a tab when to reload the image
+ */